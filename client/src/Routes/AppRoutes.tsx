@@ -8,6 +8,11 @@ const Game = lazy(() => import('../pages/Game'));
 const Shop = lazy(() => import('../pages/Shop'));
 const Profile = lazy(() => import('../pages/Profile'));
 const Leaderboard = lazy(() => import('../pages/Leaderboard'));
+const Challenges = lazy(() => import('../pages/Challenges'));
+const Friends = lazy(() => import('../pages/Friends'));
+const Seasons = lazy(() => import('../pages/Seasons'));
+const Race = lazy(() => import('../pages/Race'));
+const Spectate = lazy(() => import('../pages/Spectate'));
 const Login = lazy(() => import('../pages/auth/Login'));
 
 export const AppRoutes = () => {
@@ -28,6 +33,11 @@ export const AppRoutes = () => {
         <Route path="/shop" element={<ProtectedRoute><Shop /></ProtectedRoute>} />
         <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
         <Route path="/leaderboard" element={<ProtectedRoute><Leaderboard /></ProtectedRoute>} />
+        <Route path="/challenges" element={<ProtectedRoute><Challenges /></ProtectedRoute>} />
+        <Route path="/friends" element={<ProtectedRoute><Friends /></ProtectedRoute>} />
+        <Route path="/seasons" element={<ProtectedRoute><Seasons /></ProtectedRoute>} />
+        <Route path="/race" element={<ProtectedRoute><Race /></ProtectedRoute>} />
+        <Route path="/spectate/:kind/:id" element={<ProtectedRoute><Spectate /></ProtectedRoute>} />
         <Route path="/game" element={<ProtectedRoute><Game /></ProtectedRoute>} />
         <Route path="/game/:mode" element={<ProtectedRoute><Game /></ProtectedRoute>} />
       </Routes>
@@ -8,51 +8,58 @@ interface CharacterModelProps {
   color?: string;
   scale?: number;
   isAnimating?: boolean; // Whether to show running animation
+  opacity?: number; // Below 1 renders translucent (ghosts)
 }
 
 // Character model component - matches Player appearance exactly
 const CharacterModel = forwardRef<THREE.Group, CharacterModelProps>(
-  ({ color = '#4ECDC4', scale = 1.0, isAnimating = false }, ref) => {
+  ({ color = '#4ECDC4', scale = 1.0, isAnimating = false, opacity = 1 }, ref) => {
+    const transparent = opacity < 1;
+
     return (
       <group ref={ref} scale={scale}>
         {/* Main body - capsule shape */}
-        <mesh castShadow>
+        <mesh castShadow={!transparent}>
           <capsuleGeometry args={[0.35, 0.6, 8, 16]} />
           <meshStandardMaterial
             color={color}
             metalness={0.3}
             roughness={0.7}
+            transparent={transparent}
+            opacity={opacity}
           />
         </mesh>
 
         {/* Head */}
-        <mesh position={[0, 0.7, 0]} castShadow>
+        <mesh position={[0, 0.7, 0]} castShadow={!transparent}>
           <sphereGeometry args={[0.25, 16, 16]} />
           <meshStandardMaterial
             color="#45B7D1"
             metalness={0.4}
             roughness={0.6}
+            transparent={transparent}
+            opacity={opacity}
           />
         </mesh>
 
         {/* Eyes - facing forward (positive Z) */}
         <mesh position={[0.1, 0.75, 0.2]}>
           <sphereGeometry args={[0.05, 8, 8]} />
-          <meshBasicMaterial color="white" />
+          <meshBasicMaterial color="white" transparent={transparent} opacity={opacity} />
         </mesh>
         <mesh position={[-0.1, 0.75, 0.2]}>
           <sphereGeometry args={[0.05, 8, 8]} />
-          <meshBasicMaterial color="white" />
+          <meshBasicMaterial color="white" transparent={transparent} opacity={opacity} />
         </mesh>
 
         {/* Pupils */}
         <mesh position={[0.1, 0.75, 0.24]}>
           <sphereGeometry args={[0.02, 8, 8]} />
-          <meshBasicMaterial color="black" />
+          <meshBasicMaterial color="black" transparent={transparent} opacity={opacity} />
         </mesh>
         <mesh position={[-0.1, 0.75, 0.24]}>
           <sphereGeometry args={[0.02, 8, 8]} />
-          <meshBasicMaterial color="black" />
+          <meshBasicMaterial color="black" transparent={transparent} opacity={opacity} />
         </mesh>
       </group>
     );
@@ -65,3 +72,11 @@ export default CharacterModel;
 
 // Default player color
 export const PLAYER_COLOR = '#4ECDC4';
+
+// Ghost runner look
+export const GHOST_COLOR = '#E0E0FF';
+export const GHOST_OPACITY = 0.35;
+
+// Other racers in a race room, by join order
+export const RACER_COLORS = ['#FF6B6B', '#FFD93D', '#6BCB77', '#B084F5', '#FF9F45', '#F78FB3', '#5DADE2'];
+export const RACER_OPACITY = 0.6;
@@ -7,31 +7,8 @@ import {
   COIN_RADIUS,
   COIN_HEIGHT,
   COIN_COLOR,
-  COLLECTION_RADIUS,
 } from './coinTypes';
-
-// Army formation constants (must match ArmyFollowers.tsx and Gates.tsx)
-const SOLDIERS_PER_ROW = 3;
-const SPACING_X = 1.2;
-const SPACING_Z = 1.5;
-const BACK_OFFSET = -2.0;
-
-// Calculate formation position for a soldier at given index
-function getArmyPosition(
-  index: number,
-  playerX: number,
-  playerZ: number
-): { x: number; z: number } {
-  const row = Math.floor(index / SOLDIERS_PER_ROW);
-  const col = index % SOLDIERS_PER_ROW;
-  const xOffset = (col - (SOLDIERS_PER_ROW - 1) / 2) * SPACING_X;
-  const zOffset = BACK_OFFSET - row * SPACING_Z;
-
-  return {
-    x: playerX + xOffset,
-    z: playerZ + zOffset,
-  };
-}
+import { getArmyPosition } from '@shared/game/runSimulator';
 
 // Single Coin component
 interface CoinProps {
@@ -45,7 +22,7 @@ const SingleCoin = memo(function SingleCoin({ coin, onCollect, armySize }: CoinP
   const isCollectedRef = useRef(false);
   const collectAnimationRef = useRef(0); // 0 = not collecting, >0 = animation progress
 
-  const { player, status } = useGame();
+  const { player, status, runModifiers } = useGame();
 
   // Gold metallic material
   const coinMaterial = useMemo(
@@ -106,7 +83,7 @@ const SingleCoin = memo(function SingleCoin({ coin, onCollect, armySize }: CoinP
       const dx = posX - coinX;
       const dz = posZ - coinZ;
       const distance = Math.sqrt(dx * dx + dz * dz);
-      return distance < COLLECTION_RADIUS;
+      return distance < runModifiers.magnetRadius; // Base radius + magnet upgrade
     };
 
     // Check main player
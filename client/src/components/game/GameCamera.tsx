@@ -1,5 +1,6 @@
-import { useRef } from 'react';
+import { useRef, useState } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
 import type { Vector3 } from '@shared/types/game.types';
 
@@ -80,3 +81,18 @@ export function CinematicCamera({ target }: GameCameraProps) {
 
   return null;
 }
+
+// Spectator free camera: orbit, pan and zoom around where the target was when switched on
+export function FreeCamera({ target }: GameCameraProps) {
+  const [origin] = useState<[number, number, number]>(() => [target.x, target.y + 1, target.z + 5]);
+
+  return (
+    <OrbitControls
+      target={origin}
+      enablePan
+      minDistance={5}
+      maxDistance={80}
+      maxPolarAngle={Math.PI / 2.1} // Stay above the ground
+    />
+  );
+}
@@ -1,44 +1,112 @@
-import { useEffect, useMemo, useState, useCallback } from 'react';
+import { useEffect, useMemo, useState, useCallback, useRef } from 'react';
 import { Canvas } from '@react-three/fiber';
 
 import Player from './Player';
 import Track, { Environment } from './Track';
-import GameCamera from './GameCamera';
+import GameCamera, { CinematicCamera, FreeCamera } from './GameCamera';
 import { FPSDisplay } from './FPSMonitor';
-import { SoldierPickups, generateSoldiers, SoldierPickupData } from './SoldierPickup';
+import { SoldierPickups, SoldierPickupData } from './SoldierPickup';
 import { ArmyFollowers } from './ArmyFollowers';
 import { GatesRenderer } from './Gates';
 import {
   SimpleGateType,
   GateData,
-  generateGates,
   SPEED_EFFECT_DURATION,
   SPEED_BOOST_MULTIPLIER,
   SPEED_SLOW_MULTIPLIER,
 } from './gateTypes';
 import { CoinsRenderer } from './Coins';
-import { CoinData, generateCoins } from './coinTypes';
+import { CoinData } from './coinTypes';
+import GhostRunner from './GhostRunner';
+import RaceRunners from './RaceRunners';
 
 import { useGame, useUI } from '@/context';
 import { useSwipeDetector, vibrate } from '@/utils/swipeDetector';
+import { sampleGhost } from '@/utils/ghost';
 import { CLIENT_CONSTANTS } from '@/utils/constants';
+import { generateTrack } from '@shared/game/trackGenerator';
+import { RUNNER_PHYSICS } from '@shared/game/runSimulator';
+import { BALANCE_VERSION } from '@shared/config/balance';
+import { configApi, runnerApi, challengesApi } from '@/services/api';
+import { sendProgress, onGameStart, onOpponentProgress } from '@/services/socket';
+import { GAME_CONSTANTS } from '@shared/types/game.types';
+import type { RaceCountdownData, ReplayRun, UserUpgrades, Vector3 } from '@shared/types/game.types';
+
+// Handed over by the race lobby when the countdown begins
+export interface RaceLaunch {
+  race: RaceCountdownData;
+  startsAt: number; // Local clock, ms
+}
 
-// Simple track data for core mechanics
-const TRACK_LENGTH = 800;
+// What a spectator watches: a live race (positions over the socket) or a
+// finished run's replay (played back on the page's clock)
+export interface SpectateView {
+  trackSeed: string;
+  difficulty: number;
+  roomId?: string;
+  replay?: ReplayRun;
+  replayTime?: number; // Seconds
+  followId: string | null; // Racer's user id or the replay's game id; null for the free camera
+}
 
 interface GameSceneProps {
-  mode: 'solo' | '1v1';
-  trackSeed?: string;
+  mode: 'solo' | 'daily' | 'challenge' | 'race' | '1v1' | 'spectate';
+  ghostGameId?: string | null; // Solo only: race this run's ghost on its seed
+  challengeId?: string | null; // Challenge only: the received challenge to attempt
+  race?: RaceLaunch | null; // Race only: the run the server opened for this racer
+  spectate?: SpectateView | null; // Spectate only: the watched race or replay
+}
+
+// Spectators don't run, so the track is shown without upgrades
+const SPECTATOR_UPGRADES: UserUpgrades = {
+  capacity: 0,
+  addWarrior: 0,
+  warriorUpgrade: 0,
+  income: 0,
+  speed: 0,
+  jump: 0,
+  bulletPower: 0,
+  magnetRadius: 0
+};
+
+// A stale bundle would simulate different rules than the server replays
+async function checkBalanceVersion() {
+  const config = await configApi.get();
+  if (!config.data) {
+    throw new Error(config.error || 'Failed to load game config');
+  }
+  if (config.data.version !== BALANCE_VERSION) {
+    throw new Error('A new version of the game is available. Please refresh the page.');
+  }
 }
 
-export default function GameScene({ mode, trackSeed }: GameSceneProps) {
+// Start the server run for a mode (daily, challenge and race runs play like solo)
+async function requestRun(mode: GameSceneProps['mode'], ghostGameId?: string, challengeId?: string | null, race?: RaceLaunch | null) {
+  if (mode === 'race') {
+    if (!race) throw new Error('This race is no longer available');
+    return { success: true, data: race.race };
+  }
+  if (mode === 'daily') return runnerApi.startDaily();
+  if (mode === 'challenge') {
+    if (!challengeId) throw new Error('Missing challenge');
+    return challengesApi.start(challengeId);
+  }
+  return runnerApi.startSolo(ghostGameId);
+}
+
+export default function GameScene({ mode, ghostGameId = null, challengeId = null, race = null, spectate = null }: GameSceneProps) {
   const {
     status,
     player,
     initGame,
+    setGhost,
+    raceProgress,
+    setRaceProgress,
+    updatePlayerPosition,
     handleSwipe,
     stopHorizontalMovement,
     startCountdown,
+    startGame,
     updateTime,
     addSoldiers,
     collectCoin,
@@ -58,40 +126,173 @@ export default function GameScene({ mode, trackSeed }: GameSceneProps) {
   // Coins state
   const [coins, setCoins] = useState<CoinData[]>([]);
 
-  // Initialize game with simplified track and soldiers
+  // Run start failure (e.g. network error) - shown with a retry button
+  const [startError, setStartError] = useState<string | null>(null);
+  const [startAttempt, setStartAttempt] = useState(0);
+
+  // Check balance config, request a run from the server, then build the track from its seed
+  useEffect(() => {
+    if (mode === 'spectate') return;
+
+    let cancelled = false;
+    let countdownTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const startRun = async () => {
+      try {
+        setStartError(null);
+
+        await checkBalanceVersion();
+        if (cancelled) return;
+
+        // Ghost first: the run is started on its seed
+        const ghostResponse = mode === 'solo' && ghostGameId ? await runnerApi.getGhost(ghostGameId) : null;
+        if (cancelled) return;
+        if (ghostResponse && !ghostResponse.data) {
+          throw new Error(ghostResponse.error || 'Failed to load ghost');
+        }
+
+        // Daily, challenge and race runs come with their fixed seed
+        const response = await requestRun(mode, ghostResponse?.data?.gameId, challengeId, race);
+        if (cancelled) return;
+        if (!response.data) {
+          throw new Error(response.error || 'Failed to start game');
+        }
+
+        const { gameId, runToken, trackSeed, difficulty, upgrades } = response.data;
+        const trackData = generateTrack(trackSeed, difficulty);
+
+        initGame(mode === 'race' || mode === '1v1' ? mode : 'solo', trackData, upgrades, gameId, runToken);
+        setGhost(ghostResponse?.data ?? null);
+
+        // Soldiers, gates and coins come from the seeded layout
+        setSoldiers(trackData.layout.soldiers);
+        setGates(trackData.layout.gates);
+        setCoins(trackData.layout.coins);
+
+        // Races count down to the shared start; other runs start after a brief delay
+        if (race) {
+          startCountdown(Math.max(0, (race.startsAt - Date.now()) / 1000));
+        } else {
+          countdownTimer = setTimeout(() => {
+            startCountdown();
+          }, 500);
+        }
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Start run error:', error);
+        setStartError(error instanceof Error ? error.message : 'Failed to start game');
+      }
+    };
+
+    startRun();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(countdownTimer);
+    };
+  }, [mode, ghostGameId, challengeId, race, startAttempt, initGame, setGhost, startCountdown]);
+
+  // Spectating: build the watched track once its seed is known (races reveal it at the start)
+  const spectateSeed = spectate?.trackSeed ?? null;
+  const spectateDifficulty = spectate?.difficulty ?? 1;
+  const replay = spectate?.replay ?? null;
   useEffect(() => {
-    const seed = trackSeed || `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-    // Create minimal track data
-    const simpleTrack = {
-      seed,
-      difficulty: 1,
-      sections: [
-        { type: 'intro' as const, startZ: 0, endZ: TRACK_LENGTH, enemies: [], gates: [], obstacles: [], coins: [] }
-      ],
-      totalLength: TRACK_LENGTH,
+    if (mode !== 'spectate' || !spectateSeed) return;
+
+    let cancelled = false;
+
+    const showTrack = async () => {
+      try {
+        setStartError(null);
+
+        await checkBalanceVersion();
+        if (cancelled) return;
+
+        const trackData = generateTrack(spectateSeed, spectateDifficulty);
+        initGame('spectate', trackData, SPECTATOR_UPGRADES);
+        setGhost(replay);
+
+        setSoldiers(trackData.layout.soldiers);
+        setGates(trackData.layout.gates);
+        setCoins(trackData.layout.coins);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Load spectated track error:', error);
+        setStartError(error instanceof Error ? error.message : 'Failed to load track');
+      }
+    };
+
+    showTrack();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, spectateSeed, spectateDifficulty, replay, startAttempt, initGame, setGhost]);
+
+  // Spectating a race: everyone's positions, relayed like to the racers
+  const spectateRoomId = spectate?.roomId ?? null;
+  useEffect(() => {
+    if (!spectateRoomId) return;
+
+    const offProgress = onOpponentProgress((data) => {
+      if (data.roomId === spectateRoomId) setRaceProgress(data);
+    });
+    return () => {
+      offProgress();
     };
+  }, [spectateRoomId, setRaceProgress]);
+
+  // Spectator camera target: the followed runner, else the race leader
+  const followId = spectate?.followId ?? null;
+  const replayTime = spectate?.replayTime ?? 0;
+  const spectateTarget = useMemo((): Vector3 => {
+    if (replay) {
+      const { x, z } = sampleGhost(replay.ghost, replayTime);
+      return { x, y: 0, z };
+    }
+
+    const racers = raceProgress?.players.filter(racer => racer.state !== 'forfeit') ?? [];
+    const racer = racers.find(candidate => candidate.userId === followId)
+      ?? [...racers].sort((a, b) => b.progress - a.progress)[0];
+    return racer ? { x: racer.x, y: 0, z: racer.progress } : { x: 0, y: 0, z: 0 };
+  }, [replay, replayTime, raceProgress, followId]);
+
+  // Keep the track's items drawn around the watched runner (nothing is collected while spectating)
+  useEffect(() => {
+    if (mode === 'spectate') updatePlayerPosition(spectateTarget.z, spectateTarget.x);
+  }, [mode, spectateTarget.z, spectateTarget.x, updatePlayerPosition]);
+
+  // Race: the server's start signal and everyone's positions
+  const roomId = mode === 'race' ? race?.race.roomId ?? null : null;
+  useEffect(() => {
+    if (!roomId) return;
 
-    initGame(mode, simpleTrack as any, {
-      capacity: 0,
-      addWarrior: 0,
-      speed: 0
+    const offStart = onGameStart((data) => {
+      if (data.roomId === roomId) startGame();
+    });
+    const offProgress = onOpponentProgress((data) => {
+      if (data.roomId === roomId) setRaceProgress(data);
     });
 
-    // Generate soldiers on the track
-    setSoldiers(generateSoldiers(TRACK_LENGTH));
+    return () => {
+      offStart();
+      offProgress();
+    };
+  }, [roomId, startGame, setRaceProgress]);
 
-    // Generate gates on the track
-    setGates(generateGates(TRACK_LENGTH));
+  // Race: report our position at the server tick rate
+  const playerRef = useRef(player);
+  playerRef.current = player;
+  useEffect(() => {
+    if (!roomId || status !== 'playing') return;
 
-    // Generate coins on the track
-    setCoins(generateCoins(TRACK_LENGTH));
+    const interval = setInterval(() => {
+      const { position, armyCount } = playerRef.current;
+      sendProgress(roomId, position.z, position.x, armyCount);
+    }, 1000 / GAME_CONSTANTS.TICK_RATE);
 
-    // Start countdown after brief delay
-    setTimeout(() => {
-      startCountdown();
-    }, 500);
-  }, [mode, trackSeed, initGame, startCountdown]);
+    return () => clearInterval(interval);
+  }, [roomId, status]);
 
   // Game loop - update time only (finish is handled in Player component)
   useEffect(() => {
@@ -102,7 +303,8 @@ export default function GameScene({ mode, trackSeed }: GameSceneProps) {
 
     const gameLoop = () => {
       const now = performance.now();
-      const delta = (now - lastTime) / 1000;
+      // Same lag clamp as Player movement so run time and distance stay in step
+      const delta = Math.min((now - lastTime) / 1000, RUNNER_PHYSICS.MAX_FRAME_DELTA);
       lastTime = now;
 
       updateTime(delta);
@@ -241,6 +443,24 @@ export default function GameScene({ mode, trackSeed }: GameSceneProps) {
       {/* FPS Counter */}
       {showFPS && <FPSDisplay show={true} />}
 
+      {/* Run start failure */}
+      {startError && (
+        <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-800 rounded-2xl p-6 w-80 text-center">
+            <h2 className="text-2xl font-bold text-white mb-2">
+              {mode === 'spectate' ? "Couldn't load track" : "Couldn't start run"}
+            </h2>
+            <p className="text-gray-400 mb-6">{startError}</p>
+            <button
+              onClick={() => setStartAttempt(prev => prev + 1)}
+              className="w-full btn-primary"
+            >
+              Try Again
+            </button>
+          </div>
+        </div>
+      )}
+
       <Canvas
         shadows={graphicsSettings.shadows}
         dpr={graphicsSettings.pixelRatio}
@@ -253,8 +473,14 @@ export default function GameScene({ mode, trackSeed }: GameSceneProps) {
         frameloop="always"
         performance={{ min: 0.5 }}
       >
-        {/* Camera - follows player smoothly */}
-        <GameCamera target={player.position} />
+        {/* Camera - follows player smoothly; spectators follow a runner or look around freely */}
+        {mode !== 'spectate' ? (
+          <GameCamera target={player.position} />
+        ) : followId ? (
+          <CinematicCamera target={spectateTarget} />
+        ) : (
+          <FreeCamera target={spectateTarget} />
+        )}
 
         {/* Environment - sky, ground, lighting */}
         <Environment />
@@ -275,10 +501,16 @@ export default function GameScene({ mode, trackSeed }: GameSceneProps) {
         />
 
         {/* Army following player (snake formation) */}
-        <ArmyFollowers armySize={armySize} />
+        {mode !== 'spectate' && <ArmyFollowers armySize={armySize} />}
+
+        {/* Raced run played back on the same seed (or the watched replay) */}
+        <GhostRunner time={spectate?.replayTime} />
+
+        {/* Other racers in the room (every racer for spectators) */}
+        {(roomId || spectateRoomId) && <RaceRunners />}
 
         {/* Player with smooth movement */}
-        <Player />
+        {mode !== 'spectate' && <Player />}
       </Canvas>
     </div>
   );
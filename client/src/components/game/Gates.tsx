@@ -11,34 +11,12 @@ import {
   GATE_HEIGHT,
 } from './gateTypes';
 import { GROUND_Y } from './Player';
+import { getArmyPosition, RUNNER_PHYSICS } from '@shared/game/runSimulator';
 
 // Gate frame dimensions
 const FRAME_THICKNESS = 0.3;
 const BORDER_THICKNESS = 0.15;
 
-// Army formation constants (must match ArmyFollowers.tsx)
-const SOLDIERS_PER_ROW = 3;
-const SPACING_X = 1.2;
-const SPACING_Z = 1.5;
-const BACK_OFFSET = -2.0;
-
-// Calculate formation position for a soldier at given index
-function getArmyPosition(
-  index: number,
-  playerX: number,
-  playerZ: number
-): { x: number; z: number } {
-  const row = Math.floor(index / SOLDIERS_PER_ROW);
-  const col = index % SOLDIERS_PER_ROW;
-  const xOffset = (col - (SOLDIERS_PER_ROW - 1) / 2) * SPACING_X;
-  const zOffset = BACK_OFFSET - row * SPACING_Z;
-
-  return {
-    x: playerX + xOffset,
-    z: playerZ + zOffset,
-  };
-}
-
 // Single Gate component
 interface GateProps {
   gate: GateData;
@@ -110,7 +88,7 @@ const SingleGate = memo(function SingleGate({ gate, onTrigger, armySize }: GateP
     const checkCollision = (posX: number, posZ: number): boolean => {
       const distX = Math.abs(posX - gateX);
       const distZ = Math.abs(posZ - gateZ);
-      return distX < GATE_WIDTH / 2 && distZ < 1.5;
+      return distX < GATE_WIDTH / 2 && distZ < RUNNER_PHYSICS.GATE_TRIGGER_DEPTH;
     };
 
     // Check main player collision first
@@ -0,0 +1,39 @@
+import { useGame } from '@/context';
+import { getArmyPosition } from '@shared/game/runSimulator';
+import { sampleGhost } from '@/utils/ghost';
+import CharacterModel, { GHOST_COLOR, GHOST_OPACITY } from './CharacterModel';
+import { GROUND_Y } from './Player';
+
+// Followers drawn behind the ghost (the HUD shows its full army)
+const MAX_GHOST_FOLLOWERS = 8;
+
+interface GhostRunnerProps {
+  time?: number; // Replay clock for spectators (defaults to the run clock)
+}
+
+// Translucent playback of the raced run, driven by the shared run clock
+export default function GhostRunner({ time }: GhostRunnerProps) {
+  const { ghost, elapsedTime } = useGame();
+
+  if (!ghost) return null;
+
+  const { x, z, army } = sampleGhost(ghost.ghost, time ?? elapsedTime);
+  const followers = Math.min(army - 1, MAX_GHOST_FOLLOWERS);
+
+  return (
+    <group>
+      <group position={[x, GROUND_Y, z]}>
+        <CharacterModel color={GHOST_COLOR} opacity={GHOST_OPACITY} />
+      </group>
+
+      {Array.from({ length: followers }, (_, index) => {
+        const position = getArmyPosition(index, x, z);
+        return (
+          <group key={index} position={[position.x, GROUND_Y, position.z]}>
+            <CharacterModel color={GHOST_COLOR} opacity={GHOST_OPACITY} />
+          </group>
+        );
+      })}
+    </group>
+  );
+}
@@ -3,6 +3,7 @@ import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useGame } from '@/context';
 import { GAME_CONSTANTS } from '@shared/types/game.types';
+import { RUNNER_PHYSICS, getSmoothFactor } from '@shared/game/runSimulator';
 import CharacterModel, { PLAYER_COLOR } from './CharacterModel';
 
 // Lerp helper function for smooth interpolation
@@ -22,8 +23,8 @@ export interface PathPoint {
 export const playerPath: PathPoint[] = [];
 
 // Track length constant
-const TRACK_LENGTH = 800;
-export const GROUND_Y = 0.5; // Player height above ground - LOCKED & EXPORTED
+const TRACK_LENGTH = GAME_CONSTANTS.TRACK_LENGTH;
+export const GROUND_Y = GAME_CONSTANTS.GROUND_Y; // Player height above ground - LOCKED & EXPORTED
 
 export default function Player() {
   const meshRef = useRef<THREE.Group>(null);
@@ -34,12 +35,11 @@ export default function Player() {
   const targetX = useRef(0);
   const positionZ = useRef(0);
 
-  const { status, player, updatePlayerPosition, finishGame, speedMultiplier } = useGame();
+  const { status, player, updatePlayerPosition, finishGame, speedMultiplier, runModifiers } = useGame();
 
-  // Movement constants - tuned for smooth feel
-  const FORWARD_SPEED = 25; // Reduced to 25 m/s (half of 50) for testing
-  const HORIZONTAL_SPEED = 8; // m/s for left/right movement
-  const SMOOTH_FACTOR = 0.15; // Lerp factor for smoothness (higher = snappier)
+  // Movement constants - shared with the server replay so results can be verified
+  const { HORIZONTAL_SPEED, MAX_FRAME_DELTA } = RUNNER_PHYSICS;
+  const FORWARD_SPEED = runModifiers.forwardSpeed; // Base speed + speed upgrade
   const TRACK_HALF_WIDTH = GAME_CONSTANTS.TRACK_HALF_WIDTH; // 5m
 
   // Clear position on game reset
@@ -72,7 +72,7 @@ export default function Player() {
     }
 
     // Clamp delta to prevent large jumps on lag spikes
-    const clampedDelta = Math.min(delta, 0.05);
+    const clampedDelta = Math.min(delta, MAX_FRAME_DELTA);
 
     // Update target X based on horizontal velocity (continuous while held)
     if (player.horizontalVelocity !== 0) {
@@ -83,7 +83,8 @@ export default function Player() {
     targetX.current = Math.max(-TRACK_HALF_WIDTH, Math.min(TRACK_HALF_WIDTH, targetX.current));
 
     // SMOOTH interpolation (lerp) - this is the key to smooth movement!
-    currentX.current = lerp(currentX.current, targetX.current, SMOOTH_FACTOR);
+    // Factor is scaled by delta so the curve doesn't depend on frame rate
+    currentX.current = lerp(currentX.current, targetX.current, getSmoothFactor(clampedDelta));
 
     // Move forward constantly (but stop at finish) - apply speed multiplier from gates
     const effectiveSpeed = FORWARD_SPEED * speedMultiplier;
@@ -0,0 +1,45 @@
+import { useGame, useUser } from '@/context';
+import { getArmyPosition } from '@shared/game/runSimulator';
+import CharacterModel, { RACER_COLORS, RACER_OPACITY } from './CharacterModel';
+import { GROUND_Y } from './Player';
+
+// Followers drawn behind each racer (up to 7 opponents on screen)
+const MAX_RACER_FOLLOWERS = 3;
+
+// Other racers at their last reported positions (relayed at TICK_RATE)
+export default function RaceRunners() {
+  const { raceProgress } = useGame();
+  const { userData } = useUser();
+
+  if (!raceProgress) return null;
+
+  const opponents = raceProgress.players.filter(racer => racer.userId !== userData?.id);
+
+  return (
+    <group>
+      {opponents.map((racer, racerIndex) => {
+        if (racer.state === 'forfeit') return null;
+
+        const color = RACER_COLORS[racerIndex % RACER_COLORS.length];
+        const followers = Math.min(racer.armyCount - 1, MAX_RACER_FOLLOWERS);
+
+        return (
+          <group key={racer.userId}>
+            <group position={[racer.x, GROUND_Y, racer.progress]}>
+              <CharacterModel color={color} opacity={RACER_OPACITY} />
+            </group>
+
+            {Array.from({ length: Math.max(0, followers) }, (_, index) => {
+              const position = getArmyPosition(index, racer.x, racer.progress);
+              return (
+                <group key={index} position={[position.x, GROUND_Y, position.z]}>
+                  <CharacterModel color={color} opacity={RACER_OPACITY} />
+                </group>
+              );
+            })}
+          </group>
+        );
+      })}
+    </group>
+  );
+}
@@ -2,35 +2,12 @@ import { useRef, useMemo, memo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { useGame } from '@/context';
+import type { SoldierPickupData } from '@shared/types/game.types';
+import { RUNNER_PHYSICS } from '@shared/game/runSimulator';
 import CharacterModel, { PLAYER_COLOR } from './CharacterModel';
-import { GROUND_Y } from './Player';
 
-// Soldier pickup interface
-export interface SoldierPickupData {
-  id: string;
-  position: { x: number; y: number; z: number };
-  isCollected: boolean;
-}
-
-// Generate soldiers along the track
-export function generateSoldiers(trackLength: number = 800): SoldierPickupData[] {
-  const soldiers: SoldierPickupData[] = [];
-
-  // Spawn soldier every ~50m with some randomization
-  for (let z = 50; z < trackLength - 50; z += 50) {
-    soldiers.push({
-      id: `soldier-${z}`,
-      position: {
-        x: (Math.random() - 0.5) * 8, // Random X within track bounds (-4 to 4)
-        y: GROUND_Y, // Same height as player
-        z: z + (Math.random() - 0.5) * 20, // Some Z randomization
-      },
-      isCollected: false,
-    });
-  }
-
-  return soldiers;
-}
+// Soldier pickup data and generation live in shared/ (deterministic per trackSeed)
+export type { SoldierPickupData } from '@shared/types/game.types';
 
 // Props for the SoldierPickups renderer
 interface SoldierPickupsProps {
@@ -60,7 +37,7 @@ const SingleSoldier = memo(function SingleSoldier({
     const distSquared = dx * dx + dz * dz;
 
     // Collision radius squared (1.5^2 = 2.25)
-    if (distSquared < 2.25) {
+    if (distSquared < RUNNER_PHYSICS.SOLDIER_PICKUP_RADIUS ** 2) {
       isCollectedRef.current = true;
       onCollect(soldier.id);
       return;
@@ -1,20 +1,12 @@
 // Gate types and configurations for CoinRun
 // Green gates = positive effects, Red gates = negative effects
 
-export enum SimpleGateType {
-  SPEED_BOOST = 'speed_boost',
-  SPEED_SLOW = 'speed_slow',
-  MULTIPLY_ARMY = 'multiply_army',
-  REDUCE_ARMY = 'reduce_army',
-}
+// Gate data and generation live in shared/ (deterministic per trackSeed)
+import { SimpleGateType } from '@shared/types/game.types';
+import { RUNNER_PHYSICS, GATE_EFFECTS } from '@shared/game/runSimulator';
 
-export interface GateData {
-  id: string;
-  type: SimpleGateType;
-  position: { x: number; y: number; z: number };
-  isTriggered: boolean;
-  side: 'left' | 'right';
-}
+export { SimpleGateType };
+export type { GateData } from '@shared/types/game.types';
 
 export interface GateConfig {
   color: string;
@@ -50,52 +42,11 @@ export const GATE_CONFIGS: Record<SimpleGateType, GateConfig> = {
   },
 };
 
-// Gate dimensions
-export const GATE_WIDTH = 5; // Half track width (track is 10m wide: -5 to +5)
+// Gate dimensions (width drives collision, so it comes from the shared simulator)
+export const GATE_WIDTH = RUNNER_PHYSICS.GATE_WIDTH;
 export const GATE_HEIGHT = 6;
 
-// Generate gates along the track with random left/right placement
-export function generateGates(trackLength: number = 800): GateData[] {
-  const gates: GateData[] = [];
-  const GATE_SPACING = 80; // Every 80m
-
-  const gateTypes = [
-    SimpleGateType.SPEED_BOOST,
-    SimpleGateType.SPEED_SLOW,
-    SimpleGateType.MULTIPLY_ARMY,
-    SimpleGateType.REDUCE_ARMY,
-  ];
-
-  // Start at 100m (give player time to collect some soldiers)
-  let z = 100;
-  let gateIndex = 0;
-
-  while (z < trackLength - 60) {
-    // Random gate type
-    const randomType = gateTypes[Math.floor(Math.random() * gateTypes.length)];
-
-    // Random side: left (-2.5) or right (+2.5)
-    // Left half: -5 to 0, center at -2.5
-    // Right half: 0 to +5, center at +2.5
-    const isLeftSide = Math.random() < 0.5;
-    const xPosition = isLeftSide ? -2.5 : 2.5;
-
-    gates.push({
-      id: `gate-${z}-${isLeftSide ? 'L' : 'R'}`,
-      type: randomType,
-      position: { x: xPosition, y: 0, z },
-      isTriggered: false,
-      side: isLeftSide ? 'left' : 'right',
-    });
-
-    z += GATE_SPACING;
-    gateIndex++;
-  }
-
-  return gates;
-}
-
 // Effect durations
-export const SPEED_EFFECT_DURATION = 5000; // 5 seconds
-export const SPEED_BOOST_MULTIPLIER = 1.5; // +50% speed
-export const SPEED_SLOW_MULTIPLIER = 0.5; // -50% speed
+export const SPEED_EFFECT_DURATION = GATE_EFFECTS.SPEED_EFFECT_DURATION;
+export const SPEED_BOOST_MULTIPLIER = GATE_EFFECTS.SPEED_BOOST_MULTIPLIER;
+export const SPEED_SLOW_MULTIPLIER = GATE_EFFECTS.SPEED_SLOW_MULTIPLIER;
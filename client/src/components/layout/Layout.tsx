@@ -1,8 +1,10 @@
 import { useLocation } from 'react-router-dom';
 import { useEffect, ReactNode } from 'react';
 import Navbar from './Navbar';
+import { useUser } from '@/context';
+import { getSocket } from '@/services/socket';
 
-const SCROLLABLE_PAGES = ['/shop', '/leaderboard', '/profile'];
+const SCROLLABLE_PAGES = ['/shop', '/leaderboard', '/profile', '/friends', '/seasons'];
 
 interface LayoutProps {
   children: ReactNode;
@@ -11,6 +13,13 @@ interface LayoutProps {
 export default function Layout({ children }: LayoutProps) {
   const location = useLocation();
   const isScrollable = SCROLLABLE_PAGES.some(page => location.pathname.startsWith(page));
+  const { userData } = useUser();
+  const userId = userData?.id;
+
+  // Stay connected while signed in so friends see the player online
+  useEffect(() => {
+    if (userId) getSocket();
+  }, [userId]);
 
   useEffect(() => {
     const setViewportHeight = () => {
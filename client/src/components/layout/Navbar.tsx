@@ -4,6 +4,7 @@ const navItems = [
   { path: '/', icon: '🏠', label: 'Home' },
   { path: '/shop', icon: '🛒', label: 'Shop' },
   { path: '/leaderboard', icon: '🏆', label: 'Ranks' },
+  { path: '/challenges', icon: '⚔️', label: 'Challenges' },
   { path: '/profile', icon: '👤', label: 'Profile' }
 ];
 
@@ -1,10 +1,12 @@
-import { useGame } from '@/context';
+import { useGame, useUser } from '@/context';
+import { sampleGhost } from '@/utils/ghost';
 
 // Track length constant
 const TRACK_LENGTH = 800;
 
 export default function HUD() {
-  const { status, player, elapsedTime, countdown, activeSpeedEffect, speedMultiplier, coinsCollected } = useGame();
+  const { status, player, elapsedTime, countdown, activeSpeedEffect, speedMultiplier, coinsCollected, ghost, raceProgress } = useGame();
+  const { userData } = useUser();
 
   // Format time as MM:SS
   const formatTime = (seconds: number): string => {
@@ -30,6 +32,15 @@ export default function HUD() {
   const progress = Math.min((player.distanceTraveled / TRACK_LENGTH) * 100, 100);
   const distanceLeft = Math.max(0, TRACK_LENGTH - player.distanceTraveled);
 
+  // Lead over the ghost at the same run time (negative = behind)
+  const ghostGap = ghost ? player.distanceTraveled - sampleGhost(ghost.ghost, elapsedTime).z : 0;
+
+  // Live race position among racers still in (display only, standings are validated)
+  const racers = raceProgress?.players.filter(racer => racer.state !== 'forfeit') ?? [];
+  const racePosition = 1 + racers.filter(racer =>
+    racer.userId !== userData?.id && racer.progress > player.distanceTraveled
+  ).length;
+
   return (
     <div className="absolute inset-0 pointer-events-none z-40">
       {/* Top bar - Distance, Army, and Time */}
@@ -59,12 +70,38 @@ export default function HUD() {
           </div>
         </div>
 
-        {/* Coin counter - below main stats */}
-        <div className="mt-2 flex justify-start">
+        {/* Coin counter, ghost gap and race position - below main stats */}
+        <div className="mt-2 flex justify-between">
           <div className="bg-yellow-600/70 px-4 py-2 rounded-lg flex items-center gap-2">
             <span className="text-2xl">💰</span>
             <span className="text-yellow-100 text-xl font-bold">{coinsCollected}</span>
           </div>
+
+          {ghost && (
+            <div
+              className={`px-4 py-2 rounded-lg flex items-center gap-2 ${
+                ghostGap >= 0 ? 'bg-green-600/70' : 'bg-red-600/70'
+              }`}
+            >
+              <span className="text-2xl">👻</span>
+              <span className="text-white text-sm font-medium">{ghost.username}</span>
+              <span className="text-white text-xl font-bold font-mono">
+                {ghostGap >= 0 ? '+' : '-'}{Math.abs(ghostGap).toFixed(1)}m
+              </span>
+            </div>
+          )}
+
+          {racers.length > 0 && (
+            <div className="bg-black/50 px-4 py-2 rounded-lg flex items-center gap-2">
+              <span className="text-2xl">🏁</span>
+              <span className="text-white text-xl font-bold font-mono">
+                {racePosition}/{racers.length}
+              </span>
+              {!!raceProgress?.spectatorCount && (
+                <span className="text-white/70 text-sm">👁 {raceProgress.spectatorCount}</span>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Progress bar */}
@@ -1,18 +1,81 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useGame } from '@/context';
+import { useGame, useUser } from '@/context';
+import { runnerApi, challengesApi, createIdempotencyKey } from '@/services/api';
+import RaceStandings from './RaceStandings';
+import type { SoloGameFinishData, ScoreBreakdown, RaceStanding } from '@shared/types/game.types';
 
-export default function PostGame() {
+// Score components shown on the post-game screen
+const SCORE_ROWS: Array<{ key: Exclude<keyof ScoreBreakdown, 'total'>; label: string }> = [
+  { key: 'distance', label: 'Distance' },
+  { key: 'coins', label: 'Coins' },
+  { key: 'army', label: 'Army' },
+  { key: 'timeBonus', label: 'Time Bonus' },
+  { key: 'enemies', label: 'Enemies' },
+  { key: 'perfectGates', label: 'Perfect Gates' },
+];
+
+interface PostGameProps {
+  mode: 'solo' | 'daily' | 'challenge' | 'race' | '1v1';
+  raceStandings?: RaceStanding[] | null; // Race only, once every racer is done
+  onPlayAgain: () => void;
+}
+
+export default function PostGame({ mode, raceStandings = null, onPlayAgain }: PostGameProps) {
   const navigate = useNavigate();
-  const { status, result, gameMode, reset } = useGame();
+  const { status, result, gameId, getInputLog, getRunToken, reset } = useGame();
+  const { userData, updateBalance, updateStats } = useUser();
+
+  // Submission state for POST /runner/solo/finish
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [finishData, setFinishData] = useState<SoloGameFinishData | null>(null);
+  const hasSubmitted = useRef(false);
+  const idempotencyKey = useRef(createIdempotencyKey()); // Same key for every submit of this run
 
   const isVictory = status === 'finished';
 
+  const submitResult = useCallback(async () => {
+    const runToken = getRunToken();
+    if (!gameId || !runToken || !result) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      const response = await runnerApi.finishSolo(gameId, runToken, result, getInputLog(), idempotencyKey.current);
+      if (!response.data) {
+        throw new Error(response.error || 'Failed to submit run');
+      }
+
+      setFinishData(response.data);
+      updateBalance(response.data.newBalance);
+      updateStats({
+        coinsCollected: result.coinsCollected,
+        distanceTraveled: result.distanceTraveled,
+        won: result.didFinish,
+        armySize: result.maxArmy
+      });
+    } catch (error) {
+      console.error('Finish run error:', error);
+      setSubmitError(error instanceof Error ? error.message : 'Failed to submit run');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [gameId, result, getInputLog, getRunToken, updateBalance, updateStats]);
+
+  // Submit once when the post-game screen opens
+  useEffect(() => {
+    if (hasSubmitted.current) return;
+    hasSubmitted.current = true;
+    submitResult();
+  }, [submitResult]);
+
   if (!result) return null;
 
   const handlePlayAgain = () => {
     reset();
-    // Reload to get fresh random track
-    window.location.reload();
+    onPlayAgain();
   };
 
   const handleQuit = () => {
@@ -67,19 +130,119 @@ export default function PostGame() {
               {formatTime(result.timeTaken)}
             </div>
           </div>
+
+          {/* Server score breakdown */}
+          {finishData && (
+            <div className="bg-white/20 rounded-xl p-4">
+              <div className="flex justify-between items-baseline mb-2">
+                <span className="text-white/70 text-sm">Score</span>
+                <span className="text-white text-3xl font-bold">
+                  {finishData.score.total.toLocaleString()}
+                </span>
+              </div>
+              <div className="space-y-1">
+                {SCORE_ROWS.filter(({ key }) => finishData.score[key] > 0).map(({ key, label }) => (
+                  <div key={key} className="flex justify-between text-sm">
+                    <span className="text-white/70">{label}</span>
+                    <span className="text-white font-semibold">+{finishData.score[key].toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Server reward */}
+          <div className="bg-yellow-600/30 rounded-xl p-4">
+            <div className="text-yellow-200 text-sm">Reward</div>
+            {isSubmitting && (
+              <div className="text-white text-lg font-semibold">Saving run...</div>
+            )}
+            {submitError && !isSubmitting && (
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-red-200 text-sm">{submitError}</span>
+                <button
+                  onClick={submitResult}
+                  className="bg-white/20 text-white font-semibold py-2 px-4 rounded-lg hover:bg-white/30 transition-colors"
+                >
+                  Retry
+                </button>
+              </div>
+            )}
+            {finishData && (
+              <>
+                <div className="text-white text-3xl font-bold">
+                  +{finishData.reward.coins.toLocaleString()} 💰
+                </div>
+                <div className="text-white/70 text-sm mt-1">
+                  Balance: {finishData.newBalance.coins.toLocaleString()} 💰 · {finishData.newBalance.gems} 💎
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Challenge attempt outcome */}
+          {finishData?.challenge && (
+            <div className="bg-orange-600/30 rounded-xl p-4">
+              <div className="text-orange-200 text-sm">Challenge</div>
+              <div className="text-white text-lg font-semibold">
+                {finishData.challenge.winner === 'opponent'
+                  ? `Beaten! Target was ${finishData.challenge.challengerScore.toLocaleString()}`
+                  : `Target ${finishData.challenge.challengerScore.toLocaleString()} · your best ${(finishData.challenge.opponentBestScore ?? 0).toLocaleString()}`}
+              </div>
+            </div>
+          )}
+
+          {/* Referral bonus paid by this run */}
+          {finishData?.referralReward && (
+            <div className="bg-green-600/30 rounded-xl p-4">
+              <div className="text-green-200 text-sm">Referral bonus</div>
+              <div className="text-white text-lg font-semibold">
+                +{finishData.referralReward.coins.toLocaleString()} 💰 +{finishData.referralReward.gems.toLocaleString()} 💎
+              </div>
+            </div>
+          )}
+
+          {/* Race standings (validated runs only) */}
+          {mode === 'race' && (
+            <div className="bg-blue-600/30 rounded-xl p-4">
+              <div className="text-blue-200 text-sm mb-2">Race</div>
+              {raceStandings
+                ? <RaceStandings standings={raceStandings} userId={userData?.id} />
+                : <div className="text-white text-lg font-semibold">Waiting for the other racers...</div>}
+            </div>
+          )}
+
+          {/* Send this run as a challenge (solo runs only) */}
+          {finishData && mode === 'solo' && gameId && <ChallengeFriend gameId={gameId} />}
+
+          {/* Newly unlocked achievements */}
+          {finishData && finishData.unlockedAchievements.length > 0 && (
+            <div className="bg-purple-600/30 rounded-xl p-4">
+              <div className="text-purple-200 text-sm mb-2">Achievements Unlocked</div>
+              <div className="space-y-1">
+                {finishData.unlockedAchievements.map((achievement) => (
+                  <div key={achievement.achievementId} className="text-white font-semibold">
+                    {achievement.icon} {achievement.name}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Actions */}
         <div className="flex gap-4">
           <button
             onClick={handlePlayAgain}
-            className="flex-1 bg-white text-gray-800 font-bold py-4 px-6 rounded-xl hover:bg-gray-100 transition-colors text-lg"
+            disabled={isSubmitting}
+            className="flex-1 bg-white text-gray-800 font-bold py-4 px-6 rounded-xl hover:bg-gray-100 transition-colors text-lg disabled:opacity-50"
           >
             Play Again
           </button>
           <button
             onClick={handleQuit}
-            className="flex-1 bg-white/20 text-white font-bold py-4 px-6 rounded-xl hover:bg-white/30 transition-colors text-lg"
+            disabled={isSubmitting}
+            className="flex-1 bg-white/20 text-white font-bold py-4 px-6 rounded-xl hover:bg-white/30 transition-colors text-lg disabled:opacity-50"
           >
             Quit
           </button>
@@ -88,3 +251,49 @@ export default function PostGame() {
     </div>
   );
 }
+
+// Challenge another player to beat this run's score on its seed
+function ChallengeFriend({ gameId }: { gameId: string }) {
+  const [opponent, setOpponent] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSend = async () => {
+    if (!opponent.trim()) return;
+
+    setIsSending(true);
+    setMessage(null);
+    try {
+      const response = await challengesApi.create(gameId, opponent.trim());
+      setMessage(`Challenge sent to ${response.data?.opponent.username ?? opponent.trim()}`);
+      setOpponent('');
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to send challenge');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-orange-600/30 rounded-xl p-4">
+      <div className="text-orange-200 text-sm mb-2">Challenge a friend to beat this run (24h)</div>
+      <div className="flex gap-2">
+        <input
+          value={opponent}
+          onChange={(e) => setOpponent(e.target.value)}
+          placeholder="Username"
+          maxLength={20}
+          className="flex-1 min-w-0 bg-white/20 text-white placeholder-white/50 rounded-lg px-3 py-2 outline-none"
+        />
+        <button
+          onClick={handleSend}
+          disabled={isSending || !opponent.trim()}
+          className="bg-white/20 text-white font-semibold py-2 px-4 rounded-lg hover:bg-white/30 transition-colors disabled:opacity-50"
+        >
+          Send
+        </button>
+      </div>
+      {message && <div className="text-white/80 text-sm mt-2">{message}</div>}
+    </div>
+  );
+}
@@ -1,14 +1,29 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useUser } from '@/context';
+import { runnerApi } from '@/services/api';
 import { calculatePowerLevel, getStartingArmy, getMaxArmy } from '@shared/types/game.types';
+import type { DailyChallengeInfo, GhostCandidates } from '@shared/types/game.types';
 import UpgradeCard from './UpgradeCard';
 import AssetButton, { StatDisplay, GamePanel } from './AssetButton';
 
 export default function PreGame() {
   const navigate = useNavigate();
   const { userData, powerLevel } = useUser();
-  const [selectedMode, setSelectedMode] = useState<'solo' | '1v1'>('solo');
+  const [selectedMode, setSelectedMode] = useState<'solo' | 'daily' | 'race'>('solo');
+  const [dailyChallenge, setDailyChallenge] = useState<DailyChallengeInfo | null>(null);
+  const [ghosts, setGhosts] = useState<GhostCandidates | null>(null);
+  const [ghostGameId, setGhostGameId] = useState<string | null>(null);
+
+  useEffect(() => {
+    runnerApi.getDailyChallenge()
+      .then(response => setDailyChallenge(response.data ?? null))
+      .catch(error => console.error('Load daily challenge error:', error));
+
+    runnerApi.getGhosts()
+      .then(response => setGhosts(response.data ?? null))
+      .catch(error => console.error('Load ghosts error:', error));
+  }, []);
 
   if (!userData) return null;
   const user = userData;
@@ -17,9 +32,25 @@ export default function PreGame() {
   const maxArmy = getMaxArmy(user.upgrades.capacity);
 
   const handleStart = () => {
+    // Races are set up in a room lobby first
+    if (selectedMode === 'race') {
+      navigate('/race');
+      return;
+    }
+    if (selectedMode === 'solo' && ghostGameId) {
+      navigate(`/game/solo?ghost=${ghostGameId}`);
+      return;
+    }
     navigate(`/game/${selectedMode}`);
   };
 
+  // Leader is only offered when it isn't the player's own best run
+  const ghostOptions = [
+    ghosts?.personalBest && { gameId: ghosts.personalBest.gameId, label: `My best ${ghosts.personalBest.score.toLocaleString()}` },
+    ghosts?.leader && ghosts.leader.gameId !== ghosts.personalBest?.gameId &&
+      { gameId: ghosts.leader.gameId, label: `${ghosts.leader.username} ${ghosts.leader.score.toLocaleString()}` }
+  ].filter((option): option is { gameId: string; label: string } => Boolean(option));
+
   return (
     <div
       className="h-full flex flex-col p-4 overflow-hidden"
@@ -94,20 +125,75 @@ export default function PreGame() {
             className="flex-1"
           />
           <AssetButton
-            label="1v1"
-            icon="⚔️"
-            onClick={() => setSelectedMode('1v1')}
-            variant={selectedMode === '1v1' ? 'primary' : 'secondary'}
+            label="Daily"
+            icon="📅"
+            onClick={() => setSelectedMode('daily')}
+            variant={selectedMode === 'daily' ? 'primary' : 'secondary'}
+            size="medium"
+            className="flex-1"
+          />
+          <AssetButton
+            label="Race"
+            icon="🏁"
+            onClick={() => setSelectedMode('race')}
+            variant={selectedMode === 'race' ? 'primary' : 'secondary'}
             size="medium"
             className="flex-1"
           />
         </div>
 
+        {/* Ghost to race (solo) */}
+        {selectedMode === 'solo' && ghostOptions.length > 0 && (
+          <div className="flex gap-2">
+            <AssetButton
+              label="No ghost"
+              onClick={() => setGhostGameId(null)}
+              variant={ghostGameId === null ? 'primary' : 'secondary'}
+              size="small"
+              className="flex-1"
+            />
+            {ghostOptions.map(option => (
+              <AssetButton
+                key={option.gameId}
+                label={option.label}
+                icon="👻"
+                onClick={() => setGhostGameId(option.gameId)}
+                variant={ghostGameId === option.gameId ? 'primary' : 'secondary'}
+                size="small"
+                className="flex-1"
+              />
+            ))}
+            {/* Watch the chosen run's replay first */}
+            {ghostGameId && (
+              <AssetButton
+                label="Watch"
+                icon="👁"
+                onClick={() => navigate(`/spectate/replay/${ghostGameId}`)}
+                variant="secondary"
+                size="small"
+              />
+            )}
+          </div>
+        )}
+
+                {/* Daily challenge status */}
+        {selectedMode === 'daily' && dailyChallenge && (
+          <div
+            className="text-center text-sm font-semibold"
+            style={{ color: '#FFFFFF', textShadow: '1px 1px 0 rgba(0,0,0,0.5)' }}
+          >
+            {dailyChallenge.attemptsLeft}/{dailyChallenge.maxAttempts} attempts left
+            {dailyChallenge.bestScore !== null && ` · Best ${dailyChallenge.bestScore.toLocaleString()}`}
+            {dailyChallenge.rank !== null && ` · #${dailyChallenge.rank}`}
+          </div>
+        )}
+
         {/* Start button */}
         <AssetButton
-          label={selectedMode === 'solo' ? 'TAP TO START' : 'FIND OPPONENT'}
-          icon={selectedMode === 'solo' ? '🚀' : '🔍'}
+          label={selectedMode === 'race' ? 'RACE ROOMS' : 'TAP TO START'}
+          icon={selectedMode === 'race' ? '🏁' : '🚀'}
           onClick={handleStart}
+          disabled={selectedMode === 'daily' && dailyChallenge?.attemptsLeft === 0}
           variant="gold"
           size="large"
           className="w-full"
@@ -0,0 +1,44 @@
+import type { RacePlayerState, RaceStanding } from '@shared/types/game.types';
+
+// Shown instead of a time for racers without a validated finish
+const STATE_LABELS: Partial<Record<RacePlayerState, string>> = {
+  out: 'Out',
+  dnf: 'DNF',
+  forfeit: 'Left'
+};
+
+interface RaceStandingsProps {
+  standings: RaceStanding[];
+  userId?: string;
+}
+
+// Final race order: validated finishers by time, then everyone else by distance
+export default function RaceStandings({ standings, userId }: RaceStandingsProps) {
+  return (
+    <div className="space-y-1">
+      {standings.map((standing) => (
+        <div
+          key={standing.userId}
+          className={`flex items-center justify-between gap-3 rounded-lg px-3 py-2 ${
+            standing.userId === userId ? 'bg-white/30' : 'bg-white/10'
+          }`}
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <span className="text-white font-bold w-6">#{standing.rank}</span>
+            <span className="text-white truncate">{standing.username}</span>
+          </div>
+          <div className="text-right flex-shrink-0">
+            <div className="text-white font-semibold font-mono text-sm">
+              {standing.state === 'finished' && standing.timeTaken !== null
+                ? `${standing.timeTaken.toFixed(2)}s`
+                : STATE_LABELS[standing.state] ?? `${Math.floor(standing.distance)}m`}
+            </div>
+            {standing.score !== null && (
+              <div className="text-white/60 text-xs">{standing.score.toLocaleString()} pts</div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { referralsApi } from '@/services/api';
+import type { ReferralInfo, ReferralReward } from '@shared/types/game.types';
+
+const formatReward = (reward: ReferralReward) =>
+  `${reward.coins.toLocaleString()} 💰 + ${reward.gems.toLocaleString()} 💎`;
+
+// Invite rewards for the player's own code, and redeeming someone else's while the account is new
+export default function ReferralCard() {
+  const [info, setInfo] = useState<ReferralInfo | null>(null);
+  const [code, setCode] = useState('');
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    referralsApi.get()
+      .then(response => {
+        if (!response.data) {
+          throw new Error(response.error || 'Failed to load referrals');
+        }
+        setInfo(response.data);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load referrals'));
+  }, []);
+
+  const handleRedeem = async () => {
+    const value = code.trim();
+    if (!value) return;
+
+    setIsRedeeming(true);
+    setError(null);
+    try {
+      const response = await referralsApi.redeem(value);
+      if (!response.data) {
+        throw new Error(response.error || 'Failed to redeem referral code');
+      }
+      setInfo(response.data);
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to redeem referral code');
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  if (!info) {
+    return error ? <p className="text-red-400 text-sm">{error}</p> : null;
+  }
+
+  return (
+    <div className="card bg-gradient-to-r from-green-500/20 to-teal-500/20 space-y-3">
+      <div>
+        <h2 className="text-white font-semibold">Invite friends</h2>
+        <p className="text-gray-300 text-sm">
+          Share <span className="text-white font-mono">{info.code}</span>. When a new player redeems it and
+          finishes {info.runsRequired} runs, you get {formatReward(info.rewards.referrer)} and they
+          get {formatReward(info.rewards.referee)}.
+        </p>
+        <p className="text-gray-400 text-xs mt-1">
+          {info.referrals.rewarded} rewarded · {info.referrals.pending} still playing their first runs
+        </p>
+      </div>
+
+      {/* The player's own referral */}
+      {info.redeemBefore && (
+        <div className="space-y-2">
+          <p className="text-gray-300 text-sm">
+            Got a referral code? Redeem it before {new Date(info.redeemBefore).toLocaleDateString()}.
+          </p>
+          <div className="flex gap-2">
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRedeem()}
+              placeholder="Referral code"
+              className="flex-1 min-w-0 bg-gray-900 text-white rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <button onClick={handleRedeem} disabled={isRedeeming || !code.trim()} className="btn-primary disabled:opacity-50">
+              Redeem
+            </button>
+          </div>
+        </div>
+      )}
+      {info.referredBy && (
+        <p className="text-gray-300 text-sm">
+          Referred by <span className="text-white font-semibold">{info.referredBy}</span>
+          {info.rewarded
+            ? ' · bonus received'
+            : ` · ${info.runsCompleted}/${info.runsRequired} runs to your ${formatReward(info.rewards.referee)} bonus`}
+        </p>
+      )}
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+    </div>
+  );
+}
@@ -1,5 +1,17 @@
 import { useUser } from '@/context';
-import { GAME_CONSTANTS, UserUpgrades } from '@shared/types/game.types';
+import {
+  GAME_CONSTANTS,
+  UserUpgrades,
+  getMaxArmy,
+  getStartingArmy,
+  getIncomeMultiplier,
+  getMagnetRadius,
+} from '@shared/types/game.types';
+import { calculateUpgradePower } from '@shared/config/balance';
+
+// Percentage bonus shown for multiplier-style upgrades
+const percent = (type: keyof UserUpgrades, level: number) =>
+  Math.round(calculateUpgradePower(type, level) * 100);
 
 interface UpgradeCardProps {
   type: keyof UserUpgrades;
@@ -15,49 +27,49 @@ const UPGRADE_INFO: Record<keyof UserUpgrades, {
     name: 'Capacity',
     icon: '📦',
     description: 'Max army size',
-    effectText: (level) => `Max: ${30 + level * 5}`
+    effectText: (level) => `Max: ${getMaxArmy(level)}`
   },
   addWarrior: {
     name: 'Add Warrior',
     icon: '➕',
     description: 'Starting soldiers',
-    effectText: (level) => `Start: ${1 + level * 2}`
+    effectText: (level) => `Start: ${getStartingArmy(level)}`
   },
   warriorUpgrade: {
     name: 'Warrior Power',
     icon: '⚔️',
     description: 'Combat damage',
-    effectText: (level) => `+${(level * 10)}% damage`
+    effectText: (level) => `+${percent('warriorUpgrade', level)}% damage`
   },
   income: {
     name: 'Income',
     icon: '💰',
     description: 'Coin multiplier',
-    effectText: (level) => `×${(1 + level * 0.15).toFixed(2)}`
+    effectText: (level) => `×${getIncomeMultiplier(level).toFixed(2)}`
   },
   speed: {
     name: 'Speed',
     icon: '👟',
     description: 'Run faster',
-    effectText: (level) => `+${level * 2}% speed`
+    effectText: (level) => `+${percent('speed', level)}% speed`
   },
   jump: {
     name: 'Jump',
     icon: '🦘',
     description: 'Jump higher',
-    effectText: (level) => `+${level * 5}% height`
+    effectText: (level) => `+${percent('jump', level)}% height`
   },
   bulletPower: {
     name: 'Bullet Power',
     icon: '🔫',
     description: 'Ranged damage',
-    effectText: (level) => `+${level * 10}% damage`
+    effectText: (level) => `+${percent('bulletPower', level)}% damage`
   },
   magnetRadius: {
     name: 'Magnet',
     icon: '🧲',
     description: 'Coin attraction',
-    effectText: (level) => `${2 + level}m radius`
+    effectText: (level) => `${getMagnetRadius(level).toFixed(1)}m radius`
   }
 };
 
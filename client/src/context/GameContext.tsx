@@ -1,10 +1,18 @@
-import { createContext, useContext, useState, useMemo, ReactNode, useCallback } from 'react';
+import { createContext, useContext, useState, useMemo, ReactNode, useCallback, useRef, useEffect } from 'react';
 import type {
   PlayerState,
   TrackData,
   GameResult,
+  GhostRun,
+  RaceProgressData,
   SwipeDirection,
+  RunInput,
+  RunInputDirection,
+  RunModifiers,
+  UserUpgrades,
 } from '@shared/types/game.types';
+import { getRunModifiers } from '@shared/types/game.types';
+import { calculateScore } from '@shared/game/scoring';
 
 export interface SpeedEffect {
   type: 'boost' | 'slow';
@@ -15,7 +23,10 @@ export interface SpeedEffect {
 interface GameContextValue {
   // Game status
   status: 'idle' | 'loading' | 'countdown' | 'playing' | 'paused' | 'finished' | 'gameover';
-  gameMode: 'solo' | '1v1';
+  gameMode: 'solo' | '1v1' | 'race' | 'spectate';
+
+  // Server-side run record (from POST /runner/solo)
+  gameId: string | null;
 
   // Player state
   player: PlayerState;
@@ -23,6 +34,9 @@ interface GameContextValue {
   // Track
   track: TrackData | null;
 
+  // Upgrade effects for this run (from the startSoloGame snapshot)
+  runModifiers: RunModifiers;
+
   // Game progress
   elapsedTime: number;
   countdown: number;
@@ -30,6 +44,20 @@ interface GameContextValue {
   // Results
   result: GameResult | null;
 
+  // Recorded horizontal inputs, sent with the finish call for server replay
+  getInputLog: () => RunInput[];
+
+  // Signed run token from POST /runner/solo, sent with the finish call
+  getRunToken: () => string | null;
+
+  // Ghost being raced (same seed), if any
+  ghost: GhostRun | null;
+  setGhost: (ghost: GhostRun | null) => void;
+
+  // Live positions of everyone in the race room (race mode only)
+  raceProgress: RaceProgressData | null;
+  setRaceProgress: (progress: RaceProgressData | null) => void;
+
   // Speed multiplier from gates
   speedMultiplier: number;
   activeSpeedEffect: SpeedEffect | null;
@@ -40,11 +68,11 @@ interface GameContextValue {
   opponentProgress: number;
 
   // Actions
-  initGame: (mode: 'solo' | '1v1', track: TrackData, upgrades: { capacity: number; addWarrior: number; speed: number }) => void;
+  initGame: (mode: GameContextValue['gameMode'], track: TrackData, upgrades: UserUpgrades, gameId?: string | null, runToken?: string | null) => void;
   handleSwipe: (direction: SwipeDirection) => void;
   stopHorizontalMovement: () => void;
   updatePlayerPosition: (z: number, x?: number) => void;
-  startCountdown: () => void;
+  startCountdown: (seconds?: number) => void;
   startGame: () => void;
   pauseGame: () => void;
   resumeGame: () => void;
@@ -74,6 +102,17 @@ interface GameContextValue {
 
 const GameContext = createContext<GameContextValue | undefined>(undefined);
 
+const baseRunModifiers = getRunModifiers({
+  capacity: 0,
+  addWarrior: 0,
+  warriorUpgrade: 0,
+  income: 0,
+  speed: 0,
+  jump: 0,
+  bulletPower: 0,
+  magnetRadius: 0
+});
+
 const initialPlayerState: PlayerState = {
   id: '',
   position: { x: 0, y: 0, z: 0 },
@@ -93,29 +132,65 @@ interface GameProviderProps {
 
 export function GameProvider({ children }: GameProviderProps) {
   const [status, setStatus] = useState<GameContextValue['status']>('idle');
-  const [gameMode, setGameMode] = useState<'solo' | '1v1'>('solo');
+  const [gameMode, setGameMode] = useState<GameContextValue['gameMode']>('solo');
+  const [gameId, setGameId] = useState<string | null>(null);
   const [player, setPlayer] = useState<PlayerState>({ ...initialPlayerState });
   const [track, setTrack] = useState<TrackData | null>(null);
+  const [runModifiers, setRunModifiers] = useState<RunModifiers>(baseRunModifiers);
   const [elapsedTime, setElapsedTime] = useState(0);
   const [countdown, setCountdown] = useState(3);
   const [result, setResult] = useState<GameResult | null>(null);
+  const [ghost, setGhost] = useState<GhostRun | null>(null);
+  const [raceProgress, setRaceProgress] = useState<RaceProgressData | null>(null);
   const [speedMultiplier, setSpeedMultiplierState] = useState(1.0);
   const [activeSpeedEffect, setActiveSpeedEffect] = useState<SpeedEffect | null>(null);
   const [activePowerUps] = useState<Array<{ type: string; remainingTime: number }>>([]);
   const [opponent] = useState(null);
   const [opponentProgress] = useState(0);
 
-  const initGame = useCallback((mode: 'solo' | '1v1', trackData: TrackData, _upgrades: { capacity: number; addWarrior: number; speed: number }) => {
+  // Run bookkeeping that doesn't need to re-render
+  const inputLogRef = useRef<RunInput[]>([]);
+  const elapsedTimeRef = useRef(0);
+  const maxArmyRef = useRef(1);
+  const runTokenRef = useRef<string | null>(null);
+
+  // Track peak army size for the result
+  useEffect(() => {
+    maxArmyRef.current = Math.max(maxArmyRef.current, player.armyCount);
+  }, [player.armyCount]);
+
+  // Append an input change, timestamped in run time (ms)
+  const recordInput = useCallback((direction: RunInputDirection) => {
+    const log = inputLogRef.current;
+    const last = log[log.length - 1];
+    if (last ? last.direction === direction : direction === 'stop') return;
+
+    log.push({ direction, timestamp: Math.round(elapsedTimeRef.current * 1000) });
+  }, []);
+
+  const getInputLog = useCallback(() => [...inputLogRef.current], []);
+  const getRunToken = useCallback(() => runTokenRef.current, []);
+
+  const initGame = useCallback((mode: GameContextValue['gameMode'], trackData: TrackData, upgrades: UserUpgrades, runId: string | null = null, runToken: string | null = null) => {
+    const modifiers = getRunModifiers(upgrades);
+    const startingArmy = Math.min(modifiers.startingArmy, modifiers.maxArmy);
+
     setStatus('loading');
     setGameMode(mode);
+    setGameId(runId);
+    runTokenRef.current = runToken;
     setTrack(trackData);
+    setRunModifiers(modifiers);
     setPlayer({
       ...initialPlayerState,
       id: 'player-' + Date.now(),
-      armyCount: 1,
+      armyCount: startingArmy,
       horizontalVelocity: 0,
     });
     setElapsedTime(0);
+    elapsedTimeRef.current = 0;
+    inputLogRef.current = [];
+    maxArmyRef.current = startingArmy;
     setCountdown(3);
     setResult(null);
     setSpeedMultiplierState(1.0);
@@ -126,24 +201,27 @@ export function GameProvider({ children }: GameProviderProps) {
     if (status !== 'playing') return;
 
     if (direction === 'left') {
+      recordInput('left');
       setPlayer(prev => ({
         ...prev,
         horizontalVelocity: -1
       }));
     } else if (direction === 'right') {
+      recordInput('right');
       setPlayer(prev => ({
         ...prev,
         horizontalVelocity: 1
       }));
     }
-  }, [status]);
+  }, [status, recordInput]);
 
   const stopHorizontalMovement = useCallback(() => {
+    recordInput('stop');
     setPlayer(prev => ({
       ...prev,
       horizontalVelocity: 0
     }));
-  }, []);
+  }, [recordInput]);
 
   const updatePlayerPosition = useCallback((z: number, x?: number) => {
     setPlayer(prev => ({
@@ -157,9 +235,10 @@ export function GameProvider({ children }: GameProviderProps) {
     }));
   }, []);
 
-  const startCountdown = useCallback(() => {
+  // Races count down to the server's start time instead of the default 3s
+  const startCountdown = useCallback((seconds = 3) => {
     setStatus('countdown');
-    setCountdown(3);
+    setCountdown(seconds);
   }, []);
 
   const startGame = useCallback(() => {
@@ -178,24 +257,24 @@ export function GameProvider({ children }: GameProviderProps) {
     }
   }, [status]);
 
+  // finalScore here is provisional - the server rescores from replayed stats
   const finishGame = useCallback(() => {
-    const gameResult: GameResult = {
-      finalScore: Math.floor(player.distanceTraveled * 10) + (player.armyCount * 100) + (player.coinsCollected * 5),
+    const stats = {
       coinsCollected: player.coinsCollected,
-      maxArmy: player.armyCount,
+      maxArmy: Math.max(maxArmyRef.current, player.armyCount),
       distanceTraveled: player.distanceTraveled,
       timeTaken: elapsedTime,
       didFinish: true,
       enemiesKilled: 0,
       perfectGates: 0
     };
+    const gameResult: GameResult = { ...stats, finalScore: calculateScore(stats) };
     setStatus('finished');
     setResult(gameResult);
   }, [player, elapsedTime]);
 
   const gameOver = useCallback(() => {
-    const gameResult: GameResult = {
-      finalScore: Math.floor(player.distanceTraveled * 10),
+    const stats = {
       coinsCollected: 0,
       maxArmy: 0,
       distanceTraveled: player.distanceTraveled,
@@ -204,6 +283,7 @@ export function GameProvider({ children }: GameProviderProps) {
       enemiesKilled: 0,
       perfectGates: 0
     };
+    const gameResult: GameResult = { ...stats, finalScore: calculateScore(stats) };
     setStatus('gameover');
     setResult(gameResult);
   }, [player, elapsedTime]);
@@ -221,6 +301,7 @@ export function GameProvider({ children }: GameProviderProps) {
     } else if (status === 'playing') {
       setElapsedTime(prev => {
         const newElapsedTime = prev + delta;
+        elapsedTimeRef.current = newElapsedTime;
 
         // Check if speed effect has expired
         if (activeSpeedEffect) {
@@ -239,9 +320,17 @@ export function GameProvider({ children }: GameProviderProps) {
   const reset = useCallback(() => {
     setStatus('idle');
     setGameMode('solo');
+    setGameId(null);
+    runTokenRef.current = null;
+    setGhost(null);
+    setRaceProgress(null);
     setPlayer({ ...initialPlayerState });
     setTrack(null);
+    setRunModifiers(baseRunModifiers);
     setElapsedTime(0);
+    elapsedTimeRef.current = 0;
+    inputLogRef.current = [];
+    maxArmyRef.current = 1;
     setCountdown(3);
     setResult(null);
     setSpeedMultiplierState(1.0);
@@ -265,9 +354,9 @@ export function GameProvider({ children }: GameProviderProps) {
   const multiplyArmy = useCallback((multiplier: number) => {
     setPlayer(prev => ({
       ...prev,
-      armyCount: Math.floor(prev.armyCount * multiplier),
+      armyCount: Math.min(runModifiers.maxArmy, Math.floor(prev.armyCount * multiplier)),
     }));
-  }, []);
+  }, [runModifiers.maxArmy]);
 
   const divideArmy = useCallback((divisor: number) => {
     setPlayer(prev => ({
@@ -286,9 +375,9 @@ export function GameProvider({ children }: GameProviderProps) {
   const addSoldiers = useCallback((count: number) => {
     setPlayer(prev => ({
       ...prev,
-      armyCount: prev.armyCount + count,
+      armyCount: Math.min(runModifiers.maxArmy, prev.armyCount + count),
     }));
-  }, []);
+  }, [runModifiers.maxArmy]);
 
   const multiplySoldiers = useCallback((multiplier: number) => {
     setPlayer(prev => ({
@@ -310,11 +399,19 @@ export function GameProvider({ children }: GameProviderProps) {
     () => ({
       status,
       gameMode,
+      gameId,
       player,
       track,
+      runModifiers,
       elapsedTime,
       countdown,
       result,
+      getInputLog,
+      getRunToken,
+      ghost,
+      setGhost,
+      raceProgress,
+      setRaceProgress,
       speedMultiplier,
       activeSpeedEffect,
       activePowerUps,
@@ -350,11 +447,19 @@ export function GameProvider({ children }: GameProviderProps) {
     [
       status,
       gameMode,
+      gameId,
       player,
       track,
+      runModifiers,
       elapsedTime,
       countdown,
       result,
+      getInputLog,
+      getRunToken,
+      ghost,
+      setGhost,
+      raceProgress,
+      setRaceProgress,
       speedMultiplier,
       activeSpeedEffect,
       activePowerUps,
@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useEffect, useMemo, ReactNode, useCallback } from 'react';
 import type { UserUpgrades, UserStats, Achievement } from '@shared/types/game.types';
-import { calculatePowerLevel, calculateUpgradeCost, GAME_CONSTANTS } from '@shared/types/game.types';
+import { calculatePowerLevel, GAME_CONSTANTS } from '@shared/types/game.types';
+import { calculateUpgradeCost } from '@shared/config/balance';
 import { useAuth } from './AuthContext';
 
 interface UserData {
@@ -32,6 +33,7 @@ interface UserContextValue {
   spendGems: (amount: number) => boolean;
   addUsdt: (amount: number) => void;
   spendUsdt: (amount: number) => boolean;
+  updateBalance: (balance: { coins: number; gems: number }) => void;
 
   // Upgrade actions
   purchaseUpgrade: (type: keyof UserUpgrades) => boolean;
@@ -189,6 +191,14 @@ export function UserProvider({ children }: UserProviderProps) {
     return success;
   }, []);
 
+  // Replace local balances with the server-authoritative values
+  const updateBalance = useCallback((balance: { coins: number; gems: number }) => {
+    setUserData(prev => {
+      if (!prev) return prev;
+      return { ...prev, coins: balance.coins, gems: balance.gems };
+    });
+  }, []);
+
   const getUpgradeCost = useCallback((type: keyof UserUpgrades): number => {
     if (!userData) return 0;
     return calculateUpgradeCost(type, userData.upgrades[type]);
@@ -353,6 +363,7 @@ export function UserProvider({ children }: UserProviderProps) {
       spendGems,
       addUsdt,
       spendUsdt,
+      updateBalance,
       purchaseUpgrade,
       canAffordUpgrade,
       getUpgradeCost,
@@ -375,6 +386,7 @@ export function UserProvider({ children }: UserProviderProps) {
       spendGems,
       addUsdt,
       spendUsdt,
+      updateBalance,
       purchaseUpgrade,
       canAffordUpgrade,
       getUpgradeCost,
@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useUser } from '@/context';
+import { challengesApi, runnerApi } from '@/services/api';
+import type { ChallengeBox, ChallengeSummary } from '@shared/types/game.types';
+
+const BOXES: { key: ChallengeBox; label: string }[] = [
+  { key: 'inbox', label: 'Inbox' },
+  { key: 'sent', label: 'Sent' },
+  { key: 'history', label: 'History' }
+];
+
+// "5h 12m left" until a pending challenge closes
+function formatTimeLeft(expiresAt: string): string {
+  const ms = new Date(expiresAt).getTime() - Date.now();
+  if (ms <= 0) return 'Time is up';
+
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  return hours > 0 ? `${hours}h ${minutes}m left` : `${minutes}m left`;
+}
+
+export default function Challenges() {
+  const navigate = useNavigate();
+  const { userData } = useUser();
+  const [activeBox, setActiveBox] = useState<ChallengeBox>('inbox');
+  const [challenges, setChallenges] = useState<ChallengeSummary[]>([]);
+  const [record, setRecord] = useState<{ won: number; lost: number } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChallenges = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await challengesApi.list(activeBox);
+      setChallenges(response.data?.challenges ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load challenges');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeBox]);
+
+  useEffect(() => {
+    loadChallenges();
+  }, [loadChallenges]);
+
+  // Win/loss record from the server profile
+  useEffect(() => {
+    runnerApi.getStats()
+      .then(response => {
+        const stats = response.data?.stats;
+        if (stats) setRecord({ won: stats.challengesWon, lost: stats.challengesLost });
+      })
+      .catch(err => console.error('Load challenge record error:', err));
+  }, []);
+
+  const handleDecline = async (challengeId: string) => {
+    try {
+      await challengesApi.decline(challengeId);
+      setChallenges(prev => prev.filter(challenge => challenge.id !== challengeId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to decline challenge');
+    }
+  };
+
+  const userId = userData?.id;
+
+  return (
+    <div className="p-4">
+      <h1 className="text-2xl font-bold text-white mb-1">Challenges</h1>
+      {record && (
+        <p className="text-gray-400 text-sm mb-4">
+          Record: <span className="text-green-400">{record.won}W</span> · <span className="text-red-400">{record.lost}L</span>
+        </p>
+      )}
+
+      {/* Box selector */}
+      <div className="flex gap-2 mb-4">
+        {BOXES.map((box) => (
+          <button
+            key={box.key}
+            onClick={() => setActiveBox(box.key)}
+            className={`px-4 py-2 rounded-full font-semibold whitespace-nowrap transition-all ${
+              activeBox === box.key
+                ? 'bg-primary-500 text-white'
+                : 'bg-gray-800 text-gray-400'
+            }`}
+          >
+            {box.label}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="spinner" />
+        </div>
+      ) : challenges.length === 0 ? (
+        <div className="card text-center text-gray-400">
+          {activeBox === 'inbox'
+            ? 'No challenges yet. Finish a run and challenge a friend from the results screen!'
+            : 'Nothing here yet.'}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {challenges.map((challenge) => {
+            const isChallenger = challenge.challenger.id === userId;
+            const rival = isChallenger ? challenge.opponent.username : challenge.challenger.username;
+            const won = challenge.winner !== null && (challenge.winner === 'challenger') === isChallenger;
+
+            return (
+              <div key={challenge.id} className="card">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-white font-semibold truncate">
+                      {isChallenger ? `You → ${rival}` : `${rival} → You`}
+                    </p>
+                    <p className="text-gray-400 text-xs">
+                      Target {challenge.challengerScore.toLocaleString()}
+                      {challenge.opponentBestScore !== null && ` · best ${challenge.opponentBestScore.toLocaleString()}`}
+                      {` · ${challenge.attempts} attempt${challenge.attempts === 1 ? '' : 's'}`}
+                    </p>
+                  </div>
+
+                  <div className="text-right flex-shrink-0">
+                    {challenge.status === 'pending' && (
+                      <p className="text-yellow-400 text-xs">{formatTimeLeft(challenge.expiresAt)}</p>
+                    )}
+                    {challenge.status === 'completed' && (
+                      <p className={`font-bold ${won ? 'text-green-400' : 'text-red-400'}`}>{won ? 'WON' : 'LOST'}</p>
+                    )}
+                    {challenge.status === 'declined' && (
+                      <p className="text-gray-500 text-sm">Declined</p>
+                    )}
+                  </div>
+                </div>
+
+                {/* Received and still open: play or decline */}
+                {activeBox === 'inbox' && new Date(challenge.expiresAt).getTime() > Date.now() && (
+                  <div className="flex gap-2 mt-3">
+                    <button
+                      onClick={() => navigate(`/game/challenge?id=${challenge.id}`)}
+                      className="flex-1 btn-primary"
+                    >
+                      ⚔️ Play
+                    </button>
+                    <button
+                      onClick={() => handleDecline(challenge.id)}
+                      className="flex-1 btn-secondary"
+                    >
+                      Decline
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useState } from 'react';
+import { friendsApi } from '@/services/api';
+import { onFriendPresence, onFriendsChanged } from '@/services/socket';
+import ReferralCard from '@/components/ui/ReferralCard';
+import type { ApiResponse, FriendsData, FriendSummary } from '@shared/types/game.types';
+
+// "Last seen 3h ago" for offline friends
+function formatLastSeen(friend: FriendSummary): string {
+  if (friend.online) return 'Online';
+  if (!friend.lastSeenAt) return 'Offline';
+
+  const minutes = Math.floor((Date.now() - new Date(friend.lastSeenAt).getTime()) / 60000);
+  if (minutes < 1) return 'Last seen just now';
+  if (minutes < 60) return `Last seen ${minutes}m ago`;
+  if (minutes < 24 * 60) return `Last seen ${Math.floor(minutes / 60)}h ago`;
+  return `Last seen ${Math.floor(minutes / (24 * 60))}d ago`;
+}
+
+// Friends list with presence, requests both ways, and adding by username or referral code
+export default function Friends() {
+  const [data, setData] = useState<FriendsData | null>(null);
+  const [target, setTarget] = useState('');
+  const [byCode, setByCode] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFriends = useCallback(() => {
+    friendsApi.get()
+      .then(response => {
+        if (!response.data) {
+          throw new Error(response.error || 'Failed to load friends');
+        }
+        setData(response.data);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load friends'));
+  }, []);
+
+  useEffect(() => {
+    loadFriends();
+  }, [loadFriends]);
+
+  // Live presence and request changes
+  useEffect(() => {
+    const offPresence = onFriendPresence((presence) => {
+      setData(prev => {
+        if (!prev) return prev;
+        const friends = prev.friends
+          .map(friend => (friend.userId === presence.userId ? { ...friend, ...presence } : friend))
+          .sort((a, b) => Number(b.online) - Number(a.online) || a.username.localeCompare(b.username));
+        return { ...prev, friends };
+      });
+    });
+    const offChanged = onFriendsChanged(loadFriends);
+
+    return () => {
+      offPresence();
+      offChanged();
+    };
+  }, [loadFriends]);
+
+  // Every action answers with the updated lists
+  const run = async (action: () => Promise<ApiResponse<FriendsData>>, fallback: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await action();
+      if (!response.data) {
+        throw new Error(response.error || fallback);
+      }
+      setData(response.data);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const value = target.trim();
+    if (!value) return;
+
+    const sent = await run(
+      () => friendsApi.sendRequest(byCode ? { referralCode: value } : { username: value }),
+      'Failed to send friend request'
+    );
+    if (sent) setTarget('');
+  };
+
+  const onlineCount = data?.friends.filter(friend => friend.online).length ?? 0;
+
+  return (
+    <div className="p-4 space-y-4">
+      <div>
+        <h1 className="text-2xl font-bold text-white mb-1">Friends</h1>
+        {data && (
+          <p className="text-gray-400 text-sm">
+            {data.friends.length} friend{data.friends.length === 1 ? '' : 's'} · <span className="text-green-400">{onlineCount} online</span>
+          </p>
+        )}
+      </div>
+
+      {/* Add a friend */}
+      <div className="card space-y-3">
+        <div className="flex gap-2">
+          <button
+            onClick={() => setByCode(false)}
+            className={`px-3 py-1 rounded-full text-sm ${!byCode ? 'bg-primary-500 text-white' : 'bg-gray-700 text-gray-400'}`}
+          >
+            Username
+          </button>
+          <button
+            onClick={() => setByCode(true)}
+            className={`px-3 py-1 rounded-full text-sm ${byCode ? 'bg-primary-500 text-white' : 'bg-gray-700 text-gray-400'}`}
+          >
+            Referral code
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <input
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder={byCode ? 'Friend code' : 'Username'}
+            className="flex-1 min-w-0 bg-gray-900 text-white rounded-lg px-3 py-2 outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <button onClick={handleAdd} disabled={isBusy || !target.trim()} className="btn-primary disabled:opacity-50">
+            Add
+          </button>
+        </div>
+        {data?.referralCode && (
+          <p className="text-gray-400 text-sm">
+            Your code: <span className="text-white font-mono">{data.referralCode}</span>
+          </p>
+        )}
+      </div>
+
+      <ReferralCard />
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {!data && !error && (
+        <div className="flex justify-center py-8">
+          <div className="spinner" />
+        </div>
+      )}
+
+      {/* Received requests */}
+      {data && data.incoming.length > 0 && (
+        <div>
+          <h2 className="text-white font-semibold mb-2">Requests</h2>
+          <div className="space-y-2">
+            {data.incoming.map((request) => (
+              <div key={request.id} className="card flex items-center gap-3">
+                <p className="flex-1 text-white font-semibold truncate">{request.from.username}</p>
+                <button
+                  onClick={() => run(() => friendsApi.accept(request.id), 'Failed to accept friend request')}
+                  disabled={isBusy}
+                  className="btn-primary"
+                >
+                  Accept
+                </button>
+                <button
+                  onClick={() => run(() => friendsApi.decline(request.id), 'Failed to decline friend request')}
+                  disabled={isBusy}
+                  className="btn-secondary"
+                >
+                  Decline
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Friends */}
+      {data && (
+        <div>
+          <h2 className="text-white font-semibold mb-2">Your friends</h2>
+          {data.friends.length === 0 ? (
+            <div className="card text-center text-gray-400">
+              No friends yet. Add someone by username or share your code!
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {data.friends.map((friend) => (
+                <div key={friend.userId} className="card flex items-center gap-3">
+                  <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${friend.online ? 'bg-green-400' : 'bg-gray-600'}`} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-semibold truncate">{friend.username}</p>
+                    <p className={`text-xs ${friend.online ? 'text-green-400' : 'text-gray-500'}`}>{formatLastSeen(friend)}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-white font-bold">{friend.bestScore.toLocaleString()}</p>
+                    <p className="text-xs text-gray-400">best</p>
+                  </div>
+                  <button
+                    onClick={() => run(() => friendsApi.remove(friend.userId), 'Failed to remove friend')}
+                    disabled={isBusy}
+                    className="text-gray-500 hover:text-red-400 text-sm px-2"
+                    aria-label={`Remove ${friend.username}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Sent requests */}
+      {data && data.outgoing.length > 0 && (
+        <div>
+          <h2 className="text-white font-semibold mb-2">Sent</h2>
+          <div className="space-y-2">
+            {data.outgoing.map((request) => (
+              <div key={request.id} className="card flex items-center gap-3">
+                <p className="flex-1 text-gray-300 truncate">{request.to.username}</p>
+                <span className="text-yellow-400 text-xs">Pending</span>
+                <button
+                  onClick={() => run(() => friendsApi.cancel(request.id), 'Failed to cancel friend request')}
+                  disabled={isBusy}
+                  className="btn-secondary"
+                >
+                  Cancel
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
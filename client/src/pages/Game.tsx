@@ -1,20 +1,49 @@
-import { useEffect } from 'react';
-import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
-import GameScene from '@/components/game/GameScene';
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate, useSearchParams, useLocation } from 'react-router-dom';
+import GameScene, { RaceLaunch } from '@/components/game/GameScene';
 import HUD from '@/components/ui/HUD';
 import PostGame from '@/components/ui/PostGame';
 import { useGame, useUser } from '@/context';
+import { onGameFinish, quitGame } from '@/services/socket';
+import type { RaceStanding } from '@shared/types/game.types';
 
 export default function Game() {
   const { mode = 'solo' } = useParams<{ mode?: string }>();
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
+  const location = useLocation();
 
   const { status, reset } = useGame();
   const { userData } = useUser();
 
+  // Bumped on "Play Again" to remount the scene and request a fresh run
+  const [runKey, setRunKey] = useState(0);
+
   // Validate mode
-  const gameMode = mode === '1v1' ? '1v1' : 'solo';
+  const gameMode = mode === '1v1' || mode === 'daily' || mode === 'challenge' || mode === 'race' ? mode : 'solo';
+
+  // Ghost to race (solo only)
+  const ghostGameId = gameMode === 'solo' ? searchParams.get('ghost') : null;
+
+  // Received challenge to attempt
+  const challengeId = gameMode === 'challenge' ? searchParams.get('id') : null;
+
+  // Race run handed over by the lobby (lost on reload)
+  const race = gameMode === 'race' ? (location.state as RaceLaunch | null) : null;
+
+  // Final race order, once every racer's run is closed
+  const [raceStandings, setRaceStandings] = useState<RaceStanding[] | null>(null);
+  const raceRoomId = race?.race.roomId;
+  useEffect(() => {
+    if (!raceRoomId) return;
+
+    const offFinish = onGameFinish((data) => {
+      if (data.roomId === raceRoomId) setRaceStandings(data.standings);
+    });
+    return () => {
+      offFinish();
+    };
+  }, [raceRoomId]);
 
   // Get bet amount for 1v1 mode
   const betAmount = gameMode === '1v1' ? Number(searchParams.get('bet')) || 1 : 0;
@@ -29,13 +58,17 @@ export default function Game() {
   // Handle back button
   useEffect(() => {
     const handlePopState = () => {
+      // Leaving mid-race forfeits it
+      if (raceRoomId && status !== 'finished' && status !== 'gameover') {
+        quitGame(raceRoomId);
+      }
       reset();
       navigate('/');
     };
 
     window.addEventListener('popstate', handlePopState);
     return () => window.removeEventListener('popstate', handlePopState);
-  }, [reset, navigate]);
+  }, [reset, navigate, raceRoomId, status]);
 
   if (!userData) {
     return (
@@ -50,13 +83,20 @@ export default function Game() {
   return (
     <div className="w-full h-screen bg-gray-900 overflow-hidden touch-none no-select">
       {/* 3D Game Scene */}
-      <GameScene mode={gameMode} />
+      <GameScene key={runKey} mode={gameMode} ghostGameId={ghostGameId} challengeId={challengeId} race={race} />
 
       {/* HUD overlay */}
       <HUD />
 
       {/* Post-game screen */}
-      {showPostGame && <PostGame />}
+      {showPostGame && (
+        <PostGame
+          mode={gameMode}
+          raceStandings={raceStandings}
+          // A race is over for everyone: play again from the lobby
+          onPlayAgain={() => (gameMode === 'race' ? navigate('/race') : setRunKey(prev => prev + 1))}
+        />
+      )}
 
       {/* Pause menu (for solo mode) */}
       {status === 'paused' && <PauseMenu />}
@@ -1,54 +1,186 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useUser } from '@/context';
+import { runnerApi } from '@/services/api';
+import {
+  subscribeLeaderboard,
+  unsubscribeLeaderboard,
+  onLeaderboardUpdate,
+  onLeaderboardRank,
+  onFriendsChanged
+} from '@/services/socket';
+import type {
+  LeaderboardData,
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardPeriod,
+  LeaderboardScope,
+  LeaderboardUpdateData
+} from '@shared/types/game.types';
 
-type LeaderboardType = 'daily' | 'weekly' | 'alltime' | 'friends';
+type BoardKey = `${LeaderboardScope}:${LeaderboardMetric}:${LeaderboardPeriod}`;
 
-interface LeaderboardEntry {
-  rank: number;
-  username: string;
-  score: number;
-  isCurrentUser?: boolean;
+// Friends boards aren't diffed live: drop them so they reload when shown
+function withoutFriendBoards(
+  boards: Partial<Record<BoardKey, LeaderboardData>>,
+  shouldDrop: (board: LeaderboardData) => boolean = () => true
+): Partial<Record<BoardKey, LeaderboardData>> {
+  const kept = Object.entries(boards).filter(([, board]) =>
+    !(board.scope === 'friends' && shouldDrop(board)));
+  return kept.length === Object.keys(boards).length ? boards : Object.fromEntries(kept);
 }
 
-// Mock data - in real app this would come from API
-const mockLeaderboard: LeaderboardEntry[] = [
-  { rank: 1, username: 'ProRunner', score: 125000 },
-  { rank: 2, username: 'SpeedDemon', score: 118500 },
-  { rank: 3, username: 'CoinKing', score: 112000 },
-  { rank: 4, username: 'ArmyMaster', score: 105500 },
-  { rank: 5, username: 'GateHunter', score: 98200 },
-  { rank: 6, username: 'QuickFeet', score: 92100 },
-  { rank: 7, username: 'RunnerX', score: 87500 },
-  { rank: 8, username: 'Champion99', score: 83200 },
-  { rank: 9, username: 'GamePro', score: 79800 },
-  { rank: 10, username: 'FastLane', score: 75400 }
+const METRICS: { key: LeaderboardMetric; label: string; unit: string }[] = [
+  { key: 'score', label: '🏆 Score', unit: 'points' },
+  { key: 'distance', label: '📏 Distance', unit: 'meters' },
+  { key: 'army', label: '⚔️ Army', unit: 'warriors' },
+  { key: 'coins', label: '💰 Coins', unit: 'coins' },
+  { key: 'fastest', label: '⏱️ Fastest', unit: 'finish time' }
 ];
 
+function formatValue(metric: LeaderboardMetric, value: number): string {
+  switch (metric) {
+    case 'fastest':
+      return `${value.toFixed(2)}s`;
+    case 'distance':
+      return `${Math.round(value).toLocaleString()}m`;
+    default:
+      return value.toLocaleString();
+  }
+}
+
+// Apply a pushed diff: drop players who fell off, move changed entries to their new ranks
+function applyUpdate(board: LeaderboardData, update: LeaderboardUpdateData, userId?: string): LeaderboardData {
+  const changed = new Set(update.entries.map(entry => entry.userId));
+  const entries = board.entries
+    .filter(entry => !changed.has(entry.userId) && !update.removed.includes(entry.userId))
+    .concat(update.entries)
+    .sort((a, b) => a.rank - b.rank);
+
+  // The pushed entry moves the player's rank; neighbours and percentile update with their next run
+  const own = update.entries.find(entry => entry.userId === userId);
+  const me = own && board.me ? { ...board.me, ...own } : board.me;
+  return { ...board, entries, me };
+}
+
 export default function Leaderboard() {
-  const [activeType, setActiveType] = useState<LeaderboardType>('daily');
+  const [activeMetric, setActiveMetric] = useState<LeaderboardMetric>('score');
+  const [activeType, setActiveType] = useState<LeaderboardPeriod>('daily');
+  const [scope, setScope] = useState<LeaderboardScope>('global');
+  const [boards, setBoards] = useState<Partial<Record<BoardKey, LeaderboardData>>>({});
+  const [error, setError] = useState<string | null>(null);
   const { userData } = useUser();
-  const user = userData;
+  const userId = userData?.id;
 
-  const types: { key: LeaderboardType; label: string }[] = [
+  const types: { key: LeaderboardPeriod; label: string }[] = [
     { key: 'daily', label: 'Daily' },
     { key: 'weekly', label: 'Weekly' },
-    { key: 'alltime', label: 'All Time' },
-    { key: 'friends', label: 'Friends' }
+    { key: 'alltime', label: 'All Time' }
   ];
 
-  // Add current user to leaderboard
-  const leaderboard = user
-    ? [...mockLeaderboard, {
-        rank: 42,
-        username: user.username,
-        score: user.stats.totalCoinsCollected,
-        isCurrentUser: true
-      }].sort((a, b) => b.score - a.score).map((entry, i) => ({ ...entry, rank: i + 1 }))
-    : mockLeaderboard;
+  // Each board is loaded once, then kept current by live updates
+  const activeKey: BoardKey = `${scope}:${activeMetric}:${activeType}`;
+  const isLoaded = Boolean(boards[activeKey]);
+  useEffect(() => {
+    if (isLoaded) return;
+
+    setError(null);
+    runnerApi.getLeaderboard(activeType, activeMetric, scope)
+      .then(response => {
+        const board = response.data;
+        if (!board) {
+          throw new Error(response.error || 'Failed to load leaderboard');
+        }
+        setBoards(prev => ({ ...prev, [`${board.scope}:${board.metric}:${board.period}`]: board }));
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load leaderboard'));
+  }, [activeType, activeMetric, scope, isLoaded]);
+
+  useEffect(() => {
+    subscribeLeaderboard();
+
+    const offUpdate = onLeaderboardUpdate((update) => {
+      const key: BoardKey = `global:${update.metric}:${update.period}`;
+      const moved = new Set([...update.entries.map(entry => entry.userId), ...update.removed]);
+      setBoards(prev => {
+        const board = prev[key];
+        const next = board ? { ...prev, [key]: applyUpdate(board, update, userId) } : prev;
+        return withoutFriendBoards(next, (friendBoard) =>
+          friendBoard.metric === update.metric && friendBoard.period === update.period
+          && friendBoard.entries.some(entry => moved.has(entry.userId)));
+      });
+    });
+    const offRank = onLeaderboardRank(({ metric, period, me }) => {
+      const key: BoardKey = `global:${metric}:${period}`;
+      setBoards(prev => {
+        const board = prev[key];
+        const next = board ? { ...prev, [key]: { ...board, me } } : prev;
+        // The player's own run moved them among their friends too
+        return withoutFriendBoards(next, (friendBoard) =>
+          friendBoard.metric === metric && friendBoard.period === period);
+      });
+    });
+    const offFriends = onFriendsChanged(() => setBoards(prev => withoutFriendBoards(prev)));
+
+    return () => {
+      offUpdate();
+      offRank();
+      offFriends();
+      unsubscribeLeaderboard();
+    };
+  }, [userId]);
+
+  const board = boards[activeKey];
+  const metricInfo = METRICS.find(candidate => candidate.key === activeMetric) ?? METRICS[0];
+  const format = (value: number) => formatValue(activeMetric, value);
+  const leaderboard: Array<LeaderboardEntry & { isCurrentUser?: boolean }> = (board?.entries ?? [])
+    .map(entry => ({ ...entry, isCurrentUser: entry.userId === userId }));
+
+  // Own rank and neighbours below the list when outside it
+  const me = board?.me ?? null;
+  const isMeListed = leaderboard.some(entry => entry.isCurrentUser);
 
   return (
     <div className="p-4">
-      <h1 className="text-2xl font-bold text-white mb-4">Leaderboard</h1>
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-bold text-white">Leaderboard</h1>
+        <div className="flex gap-3">
+          <Link to="/seasons" className="text-primary-400 text-sm">Seasons →</Link>
+          <Link to="/friends" className="text-primary-400 text-sm">Manage friends →</Link>
+        </div>
+      </div>
+
+      {/* Scope selector */}
+      <div className="flex bg-gray-800 rounded-full p-1 mb-3">
+        {(['global', 'friends'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setScope(option)}
+            className={`flex-1 py-1 rounded-full text-sm font-semibold transition-all ${
+              scope === option ? 'bg-primary-500 text-white' : 'text-gray-400'
+            }`}
+          >
+            {option === 'global' ? '🌍 Global' : '👥 Friends'}
+          </button>
+        ))}
+      </div>
+
+      {/* Metric selector */}
+      <div className="flex gap-2 mb-2 overflow-x-auto pb-2">
+        {METRICS.map((option) => (
+          <button
+            key={option.key}
+            onClick={() => setActiveMetric(option.key)}
+            className={`px-3 py-1 rounded-full text-sm whitespace-nowrap transition-all ${
+              activeMetric === option.key
+                ? 'bg-white text-gray-900 font-semibold'
+                : 'bg-gray-800 text-gray-400'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
 
       {/* Type selector */}
       <div className="flex gap-2 mb-4 overflow-x-auto pb-2">
@@ -67,6 +199,16 @@ export default function Leaderboard() {
         ))}
       </div>
 
+      {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+      {board && leaderboard.length === 0 && (
+        <p className="text-gray-400 text-center mb-4">
+          {scope === 'friends'
+            ? 'No runs from you or your friends yet'
+            : activeMetric === 'fastest' ? 'No finished runs yet - be the first!' : 'No runs yet - be the first!'}
+        </p>
+      )}
+
       {/* Top 3 podium */}
       <div className="flex justify-center items-end gap-2 mb-6">
         {/* 2nd place */}
@@ -74,7 +216,7 @@ export default function Leaderboard() {
           <div className="bg-gray-700 rounded-t-xl p-2 text-center h-24 flex flex-col justify-end">
             <div className="text-3xl mb-1">🥈</div>
             <p className="text-white text-sm font-semibold truncate">{leaderboard[1]?.username}</p>
-            <p className="text-gray-400 text-xs">{leaderboard[1]?.score.toLocaleString()}</p>
+            <p className="text-gray-400 text-xs">{leaderboard[1] && format(leaderboard[1].score)}</p>
           </div>
         </div>
 
@@ -83,7 +225,7 @@ export default function Leaderboard() {
           <div className="bg-yellow-500/20 border-2 border-yellow-500 rounded-t-xl p-2 text-center h-32 flex flex-col justify-end">
             <div className="text-4xl mb-1">👑</div>
             <p className="text-yellow-400 font-bold truncate">{leaderboard[0]?.username}</p>
-            <p className="text-yellow-300 text-sm">{leaderboard[0]?.score.toLocaleString()}</p>
+            <p className="text-yellow-300 text-sm">{leaderboard[0] && format(leaderboard[0].score)}</p>
           </div>
         </div>
 
@@ -92,7 +234,7 @@ export default function Leaderboard() {
           <div className="bg-gray-700 rounded-t-xl p-2 text-center h-20 flex flex-col justify-end">
             <div className="text-2xl mb-1">🥉</div>
             <p className="text-white text-sm font-semibold truncate">{leaderboard[2]?.username}</p>
-            <p className="text-gray-400 text-xs">{leaderboard[2]?.score.toLocaleString()}</p>
+            <p className="text-gray-400 text-xs">{leaderboard[2] && format(leaderboard[2].score)}</p>
           </div>
         </div>
       </div>
@@ -101,7 +243,7 @@ export default function Leaderboard() {
       <div className="space-y-2">
         {leaderboard.slice(3).map((entry) => (
           <div
-            key={entry.rank}
+            key={entry.userId}
             className={`card flex items-center gap-3 ${
               entry.isCurrentUser ? 'border-2 border-primary-500' : ''
             }`}
@@ -118,13 +260,49 @@ export default function Leaderboard() {
               </p>
             </div>
             <div className="text-right">
-              <p className="text-white font-bold">{entry.score.toLocaleString()}</p>
-              <p className="text-xs text-gray-400">points</p>
+              <p className="text-white font-bold">{format(entry.score)}</p>
+              <p className="text-xs text-gray-400">{metricInfo.unit}</p>
             </div>
           </div>
         ))}
       </div>
 
+      {/* Current player's standing */}
+      {me && (
+        <div className="mt-4 card border-2 border-primary-500">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-white font-semibold">Your rank</h3>
+            <p className="text-primary-400 font-bold">
+              #{me.rank.toLocaleString()}
+              <span className="text-gray-400 text-sm font-normal"> of {me.totalPlayers.toLocaleString()}</span>
+            </p>
+          </div>
+          <p className="text-gray-400 text-sm">
+            Better than {me.percentile}% of {scope === 'friends' ? 'you and your friends' : 'players'}
+          </p>
+
+          {!isMeListed && (
+            <div className="mt-3 space-y-1">
+              {me.around.map((entry) => (
+                <div
+                  key={entry.userId}
+                  className={`flex items-center gap-3 rounded-lg px-3 py-2 ${
+                    entry.userId === me.userId ? 'bg-primary-500/20' : 'bg-white/5'
+                  }`}
+                >
+                  <span className="text-gray-400 font-bold w-12">#{entry.rank}</span>
+                  <span className={`flex-1 truncate ${entry.userId === me.userId ? 'text-primary-400 font-semibold' : 'text-white'}`}>
+                    {entry.username}
+                    {entry.userId === me.userId && <span className="ml-2 text-xs">(You)</span>}
+                  </span>
+                  <span className="text-white font-semibold">{format(entry.score)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Daily rewards info */}
       <div className="mt-6 card bg-gradient-to-r from-yellow-500/20 to-orange-500/20">
         <h3 className="text-white font-semibold mb-2">Daily Rewards</h3>
@@ -1,5 +1,6 @@
 // @ts-nocheck
 // Profile page - temporarily disabled type checking due to pre-existing issues
+import { Link } from 'react-router-dom';
 import { useUser } from '@/context';
 import { calculatePowerLevel, getStartingArmy, getMaxArmy } from '@shared/types/game.types';
 import { ACHIEVEMENTS, DAILY_MISSIONS } from '@/utils/constants';
@@ -41,6 +42,12 @@ export default function Profile() {
         </div>
       </div>
 
+      {/* Friends */}
+      <Link to="/friends" className="card flex items-center justify-between">
+        <span className="text-white font-semibold">👥 Friends</span>
+        <span className="text-gray-400">{user.friends?.length ?? 0} →</span>
+      </Link>
+
       {/* Stats */}
       <div className="card">
         <h2 className="text-lg font-semibold text-white mb-3">Statistics</h2>
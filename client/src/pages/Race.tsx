@@ -0,0 +1,314 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useUser } from '@/context';
+import {
+  createRaceRoom,
+  joinRaceRoom,
+  getCurrentRaceRoom,
+  leaveRaceRoom,
+  joinMatchmaking,
+  leaveMatchmaking,
+  listSpectateRooms,
+  sendReady,
+  quitGame,
+  onSearching,
+  onQueueTimeout,
+  onMatchGhost,
+  onRaceRoom,
+  onGameCountdown
+} from '@/services/socket';
+import RaceStandings from '@/components/ui/RaceStandings';
+import type { RaceLaunch } from '@/components/game/GameScene';
+import type { RaceAck, RaceRoomState, RaceRoomSummary } from '@shared/types/game.types';
+
+export default function Race() {
+  const navigate = useNavigate();
+  const { userData } = useUser();
+  const [room, setRoom] = useState<RaceRoomState | null>(null);
+  const [roomCode, setRoomCode] = useState('');
+  const [isPublic, setIsPublic] = useState(true);
+  const [liveRooms, setLiveRooms] = useState<RaceRoomSummary[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Quick match: queue position while the server looks for similar players
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  const [searchTime, setSearchTime] = useState(0);
+
+  // Room updates, and the countdown that sends everyone into the race
+  useEffect(() => {
+    const offRoom = onRaceRoom((data) => {
+      setQueuePosition(null);
+      setRoom(data);
+    });
+    const offCountdown = onGameCountdown((data) => {
+      const launch: RaceLaunch = { race: data, startsAt: Date.now() + data.seconds * 1000 };
+      navigate('/game/race', { state: launch });
+    });
+
+    getCurrentRaceRoom()
+      .then(response => setRoom(response.data ?? null))
+      .catch(err => console.error('Load race room error:', err));
+
+    return () => {
+      offRoom();
+      offCountdown();
+    };
+  }, [navigate]);
+
+  // Matchmaking updates: queue position, then a match, a ghost or a timeout
+  useEffect(() => {
+    const offSearching = onSearching((data) => setQueuePosition(data.queuePosition));
+    const offTimeout = onQueueTimeout(() => {
+      setQueuePosition(null);
+      setError('No racers found - try again or create a room');
+    });
+    const offGhost = onMatchGhost(({ ghost }) => {
+      setQueuePosition(null);
+      navigate(`/game/solo?ghost=${ghost.gameId}`);
+    });
+
+    return () => {
+      offSearching();
+      offTimeout();
+      offGhost();
+    };
+  }, [navigate]);
+
+  const isSearching = queuePosition !== null;
+
+  // Public races to watch
+  const loadLiveRooms = () => {
+    listSpectateRooms()
+      .then(response => setLiveRooms(response.data ?? []))
+      .catch(err => console.error('Load live races error:', err));
+  };
+
+  useEffect(loadLiveRooms, []);
+
+  useEffect(() => {
+    if (!isSearching) return;
+
+    setSearchTime(0);
+    const timer = setInterval(() => setSearchTime(prev => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isSearching]);
+
+  // Leave the queue when navigating away mid-search
+  useEffect(() => {
+    if (!isSearching) return;
+    return () => {
+      leaveMatchmaking().catch(err => console.error('Leave matchmaking error:', err));
+    };
+  }, [isSearching]);
+
+  const startSearch = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await joinMatchmaking();
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Matchmaking request failed');
+      }
+      setQueuePosition(response.data.queuePosition);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Matchmaking request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const run = async (request: () => Promise<RaceAck<RaceRoomState | undefined>>, clearRoom = false) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await request();
+      if (!response.success) {
+        throw new Error(response.error || 'Race room request failed');
+      }
+      if (response.data) setRoom(response.data);
+      if (clearRoom) setRoom(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Race room request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const userId = userData?.id;
+  const me = room?.players.find(player => player.userId === userId);
+
+  return (
+    <div className="p-4">
+      <h1 className="text-2xl font-bold text-white mb-1">Race</h1>
+      <p className="text-gray-400 text-sm mb-4">
+        2-8 players on the same track. First across the line wins.
+      </p>
+
+      {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+      {isSearching ? (
+        <div className="card text-center space-y-3">
+          <div className="text-4xl animate-pulse">⚡</div>
+          <p className="text-white font-semibold">Finding racers...</p>
+          <p className="text-gray-400 text-sm">
+            Queue position #{queuePosition} · {searchTime}s
+          </p>
+          <button
+            onClick={() => setQueuePosition(null)}
+            className="w-full btn-secondary"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : !room || room.status === 'finished' ? (
+        <div className="space-y-4">
+          {/* Last race's results */}
+          {room?.standings && (
+            <div className="card">
+              <h2 className="text-white font-semibold mb-2">Last race</h2>
+              <RaceStandings standings={room.standings} userId={userId} />
+            </div>
+          )}
+
+          <button
+            onClick={startSearch}
+            disabled={isBusy}
+            className="w-full btn-primary disabled:opacity-50"
+          >
+            ⚡ Quick Match
+          </button>
+
+          <button
+            onClick={() => run(() => createRaceRoom(isPublic))}
+            disabled={isBusy}
+            className="w-full btn-secondary disabled:opacity-50"
+          >
+            🏁 Create Room
+          </button>
+          <label className="flex items-center gap-2 text-gray-400 text-sm">
+            <input
+              type="checkbox"
+              checked={isPublic}
+              onChange={(event) => setIsPublic(event.target.checked)}
+            />
+            Public - anyone can watch
+          </label>
+
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (roomCode.trim()) run(() => joinRaceRoom(roomCode.trim()));
+            }}
+          >
+            <input
+              value={roomCode}
+              onChange={(event) => setRoomCode(event.target.value.toUpperCase())}
+              placeholder="Room code"
+              maxLength={6}
+              className="flex-1 min-w-0 bg-gray-800 text-white rounded-lg px-3 py-2 font-mono uppercase"
+            />
+            <button
+              type="submit"
+              disabled={isBusy || !roomCode.trim()}
+              className="btn-secondary disabled:opacity-50"
+            >
+              Join
+            </button>
+          </form>
+
+          {/* Live public races */}
+          <div className="card">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-white font-semibold">👁 Watch live</h2>
+              <button onClick={loadLiveRooms} className="text-gray-400 text-sm">
+                ↻ Refresh
+              </button>
+            </div>
+            {liveRooms.length === 0 ? (
+              <p className="text-gray-500 text-sm">No public races right now</p>
+            ) : (
+              <div className="space-y-2">
+                {liveRooms.map((liveRoom) => (
+                  <button
+                    key={liveRoom.roomId}
+                    onClick={() => navigate(`/spectate/race/${liveRoom.roomId}`)}
+                    className="w-full flex items-center justify-between gap-3 rounded-lg bg-white/10 px-3 py-2 text-left"
+                  >
+                    <span className="text-white truncate">{liveRoom.usernames.join(' vs ')}</span>
+                    <span className="text-gray-400 text-xs flex-shrink-0">
+                      {liveRoom.status === 'racing' ? '🔴 Live' : 'Lobby'} · {liveRoom.spectatorCount} watching
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="card text-center">
+            <p className="text-gray-400 text-sm">Room code</p>
+            <p className="text-white text-3xl font-bold font-mono tracking-widest">{room.roomId}</p>
+            <p className="text-gray-400 text-xs mt-1">
+              {room.status === 'lobby'
+                ? room.players.length < room.minPlayers
+                  ? `Share the code - waiting for ${room.minPlayers - room.players.length} more`
+                  : 'Starts when everyone is ready'
+                : 'Race in progress'}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            {room.players.map((player) => (
+              <div key={player.userId} className="card flex items-center justify-between">
+                <span className="text-white font-semibold truncate">
+                  {player.userId === room.hostId && '👑 '}
+                  {player.username}
+                  {player.userId === userId && ' (you)'}
+                </span>
+                <span className={`text-sm ${player.ready ? 'text-green-400' : 'text-gray-500'}`}>
+                  {!player.connected ? 'Reconnecting...' : player.ready ? 'Ready' : 'Not ready'}
+                </span>
+              </div>
+            ))}
+            <p className="text-gray-500 text-xs text-right">
+              {room.players.length}/{room.maxPlayers} players
+              {room.isPublic && ` · 👁 ${room.spectatorCount} watching`}
+            </p>
+          </div>
+
+          {room.status === 'lobby' && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => run(() => sendReady(room.roomId, !me?.ready))}
+                disabled={isBusy}
+                className="flex-1 btn-primary disabled:opacity-50"
+              >
+                {me?.ready ? 'Not Ready' : '✅ Ready'}
+              </button>
+              <button
+                onClick={() => run(leaveRaceRoom, true)}
+                disabled={isBusy}
+                className="flex-1 btn-secondary disabled:opacity-50"
+              >
+                Leave
+              </button>
+            </div>
+          )}
+
+          {/* Back here mid-race (e.g. after a reload): the run can't be resumed */}
+          {room.status !== 'lobby' && (
+            <button
+              onClick={() => run(() => quitGame(room.roomId), true)}
+              disabled={isBusy}
+              className="w-full btn-secondary disabled:opacity-50"
+            >
+              Leave Race
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
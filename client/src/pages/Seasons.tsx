@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { seasonsApi } from '@/services/api';
+import { useUser } from '@/context';
+import type {
+  SeasonPlacement,
+  SeasonReward,
+  SeasonStandingsData,
+  SeasonState,
+  SeasonSummary
+} from '@shared/types/game.types';
+
+const STATE_LABELS: Record<SeasonState, string> = {
+  upcoming: 'Upcoming',
+  active: 'Live',
+  ended: 'Paying out',
+  closed: 'Final'
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+const formatReward = (reward: SeasonReward | null) => {
+  if (!reward || (reward.coins === 0 && reward.gems === 0)) return null;
+  return [
+    reward.coins > 0 && `${reward.coins.toLocaleString()} 💰`,
+    reward.gems > 0 && `${reward.gems.toLocaleString()} 💎`
+  ].filter(Boolean).join(' + ');
+};
+
+// Live season first, then the rest newest first
+const pickDefaultSeason = (seasons: SeasonSummary[]) =>
+  seasons.find(season => season.state === 'active') ?? seasons.find(season => season.state !== 'upcoming') ?? seasons[0];
+
+// Named seasons: current standings with their payouts, past final standings and the player's placements
+export default function Seasons() {
+  const [seasons, setSeasons] = useState<SeasonSummary[] | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [standings, setStandings] = useState<Record<string, SeasonStandingsData>>({});
+  const [history, setHistory] = useState<SeasonPlacement[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const { userData } = useUser();
+
+  useEffect(() => {
+    seasonsApi.list()
+      .then(response => {
+        if (!response.data) {
+          throw new Error(response.error || 'Failed to load seasons');
+        }
+        setSeasons(response.data);
+        setActiveId(pickDefaultSeason(response.data)?.id ?? null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load seasons'));
+
+    seasonsApi.history()
+      .then(response => setHistory(response.data ?? []))
+      .catch(() => setHistory([]));
+  }, []);
+
+  // Final standings never change; live ones are reloaded when reselected
+  const isLoaded = Boolean(activeId && standings[activeId]?.season.state === 'closed');
+  useEffect(() => {
+    if (!activeId || isLoaded) return;
+
+    setError(null);
+    seasonsApi.get(activeId)
+      .then(response => {
+        const data = response.data;
+        if (!data) {
+          throw new Error(response.error || 'Failed to load season');
+        }
+        setStandings(prev => ({ ...prev, [data.season.id]: data }));
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load season'));
+  }, [activeId, isLoaded]);
+
+  const data = activeId ? standings[activeId] : undefined;
+  const season = data?.season ?? seasons?.find(candidate => candidate.id === activeId);
+  const me = data?.me ?? null;
+  const isMeListed = Boolean(me && data?.entries.some(entry => entry.userId === me.userId));
+
+  return (
+    <div className="p-4 space-y-4">
+      <h1 className="text-2xl font-bold text-white">Seasons</h1>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {!seasons && !error && (
+        <div className="flex justify-center py-8">
+          <div className="spinner" />
+        </div>
+      )}
+
+      {seasons && seasons.length === 0 && (
+        <div className="card text-center text-gray-400">No seasons yet - stay tuned!</div>
+      )}
+
+      {/* Season selector */}
+      {seasons && seasons.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-2">
+          {seasons.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setActiveId(option.id)}
+              className={`px-4 py-2 rounded-full font-semibold whitespace-nowrap transition-all ${
+                activeId === option.id ? 'bg-primary-500 text-white' : 'bg-gray-800 text-gray-400'
+              }`}
+            >
+              {option.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {season && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-1">
+            <h2 className="text-white font-semibold">{season.name}</h2>
+            <span className={`text-xs px-2 py-0.5 rounded-full ${
+              season.state === 'active' ? 'bg-green-500/20 text-green-400' : 'bg-gray-700 text-gray-300'
+            }`}>
+              {STATE_LABELS[season.state]}
+            </span>
+          </div>
+          <p className="text-gray-400 text-sm">
+            {formatDate(season.startsAt)} - {formatDate(season.endsAt)}
+            {season.totalPlayers !== null && ` · ${season.totalPlayers.toLocaleString()} players`}
+          </p>
+
+          {/* Reward table */}
+          <div className="mt-3 space-y-1 text-sm">
+            {season.rewards.map((tier, index) => {
+              const from = index === 0 ? 1 : season.rewards[index - 1].maxRank + 1;
+              return (
+                <p key={tier.maxRank} className="flex justify-between">
+                  <span className="text-gray-300">{from === tier.maxRank ? `#${from}` : `#${from}-${tier.maxRank}`}</span>
+                  <span className="text-white">{formatReward(tier)}</span>
+                </p>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Standings */}
+      {data && data.entries.length === 0 && (
+        <p className="text-gray-400 text-center">
+          {data.season.state === 'upcoming' ? `Starts ${formatDate(data.season.startsAt)}` : 'No runs yet - be the first!'}
+        </p>
+      )}
+      {data && data.entries.length > 0 && (
+        <div className="space-y-2">
+          {data.entries.map((entry) => {
+            const isMe = entry.userId === userData?.id;
+            const reward = formatReward(entry.reward);
+            return (
+              <div key={entry.userId} className={`card flex items-center gap-3 ${isMe ? 'border-2 border-primary-500' : ''}`}>
+                <div className="w-8 h-8 rounded-full flex items-center justify-center font-bold bg-gray-700 text-gray-300">
+                  {entry.rank}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className={`font-semibold truncate ${isMe ? 'text-primary-400' : 'text-white'}`}>
+                    {entry.username}
+                    {isMe && <span className="ml-2 text-xs">(You)</span>}
+                  </p>
+                  {reward && <p className="text-xs text-yellow-400">{reward}</p>}
+                </div>
+                <p className="text-white font-bold">{entry.score.toLocaleString()}</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Own placement when outside the listed standings */}
+      {me && !isMeListed && (
+        <div className="card border-2 border-primary-500 flex items-center justify-between">
+          <h3 className="text-white font-semibold">Your rank</h3>
+          <p className="text-primary-400 font-bold">
+            #{me.rank.toLocaleString()}
+            <span className="text-gray-400 text-sm font-normal"> · {me.score.toLocaleString()}</span>
+          </p>
+        </div>
+      )}
+
+      {/* Placement history */}
+      {history.length > 0 && (
+        <div>
+          <h2 className="text-white font-semibold mb-2">Your past seasons</h2>
+          <div className="space-y-2">
+            {history.map((placement) => (
+              <button
+                key={placement.season.id}
+                onClick={() => setActiveId(placement.season.id)}
+                className="card w-full flex items-center gap-3 text-left"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-white font-semibold truncate">{placement.season.name}</p>
+                  <p className="text-xs text-gray-400">
+                    {placement.score.toLocaleString()} points
+                    {formatReward(placement.reward) && ` · ${formatReward(placement.reward)}`}
+                  </p>
+                </div>
+                <p className="text-primary-400 font-bold">
+                  #{placement.rank.toLocaleString()}
+                  {placement.season.totalPlayers !== null && (
+                    <span className="text-gray-400 text-sm font-normal"> of {placement.season.totalPlayers.toLocaleString()}</span>
+                  )}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
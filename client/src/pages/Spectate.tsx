@@ -0,0 +1,248 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import GameScene, { SpectateView } from '@/components/game/GameScene';
+import RaceStandings from '@/components/ui/RaceStandings';
+import { useGame } from '@/context';
+import { runnerApi } from '@/services/api';
+import {
+  spectateRace,
+  leaveSpectate,
+  onSpectateRoom,
+  onSpectateClosed,
+  onGameFinish
+} from '@/services/socket';
+import type { RaceSpectateState, ReplayRun } from '@shared/types/game.types';
+
+// Replays hold on the final position for a moment before ending
+const REPLAY_END_HOLD = 1.5;
+
+const STATUS_LABELS: Record<RaceSpectateState['status'], string> = {
+  lobby: 'Waiting for racers',
+  countdown: 'Starting...',
+  racing: '🔴 Live',
+  finished: 'Finished'
+};
+
+// Read-only view of a public race room (/spectate/race/:id) or a run's replay (/spectate/replay/:id)
+export default function Spectate() {
+  const { kind, id = '' } = useParams<{ kind: string; id: string }>();
+  const navigate = useNavigate();
+  const { reset } = useGame();
+
+  const [room, setRoom] = useState<RaceSpectateState | null>(null);
+  const [replay, setReplay] = useState<ReplayRun | null>(null);
+  const [replayTime, setReplayTime] = useState(0);
+  const [replayRun, setReplayRun] = useState(0); // Bumped to watch again
+  const [followId, setFollowId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isRace = kind === 'race';
+
+  // Race: join the room's spectator channel and follow its state
+  useEffect(() => {
+    if (!isRace) return;
+
+    const offRoom = onSpectateRoom((data) => {
+      if (data.roomId === id.toUpperCase()) setRoom(data);
+    });
+    const offClosed = onSpectateClosed((data) => {
+      if (data.roomId === id.toUpperCase()) setError('This race room has closed');
+    });
+    const offFinish = onGameFinish((data) => {
+      if (data.roomId !== id.toUpperCase()) return;
+      setRoom(prev => (prev ? { ...prev, status: 'finished', standings: data.standings } : prev));
+    });
+
+    spectateRace(id)
+      .then(response => {
+        if (!response.success || !response.data) {
+          throw new Error(response.error || 'Failed to watch race');
+        }
+        setRoom(response.data);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to watch race'));
+
+    return () => {
+      offRoom();
+      offClosed();
+      offFinish();
+      leaveSpectate().catch(err => console.error('Leave spectate error:', err));
+    };
+  }, [isRace, id]);
+
+  // Replay: load the run and follow it by default
+  useEffect(() => {
+    if (isRace) return;
+
+    runnerApi.getReplay(id)
+      .then(response => {
+        if (!response.data) {
+          throw new Error(response.error || 'Failed to load replay');
+        }
+        setReplay(response.data);
+        setFollowId(response.data.gameId);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load replay'));
+  }, [isRace, id]);
+
+  // Replay clock
+  const replayEnd = replay ? replay.timeTaken + REPLAY_END_HOLD : 0;
+  useEffect(() => {
+    if (!replay) return;
+
+    let lastTime = performance.now();
+    let animationId: number;
+
+    setReplayTime(0);
+    const tick = () => {
+      const now = performance.now();
+      const delta = (now - lastTime) / 1000;
+      lastTime = now;
+
+      setReplayTime(prev => Math.min(prev + delta, replayEnd));
+      animationId = requestAnimationFrame(tick);
+    };
+
+    animationId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animationId);
+  }, [replay, replayEnd, replayRun]);
+
+  // Clear the watched track and runners when leaving
+  useEffect(() => reset, [reset]);
+
+  const view = useMemo((): SpectateView | null => {
+    if (replay) {
+      return {
+        trackSeed: replay.trackSeed,
+        difficulty: replay.difficulty,
+        replay,
+        replayTime,
+        followId
+      };
+    }
+    if (room?.trackSeed) {
+      return { trackSeed: room.trackSeed, difficulty: room.difficulty, roomId: room.roomId, followId };
+    }
+    return null;
+  }, [replay, replayTime, room, followId]);
+
+  const replayOver = replay !== null && replayTime >= replayEnd;
+
+  return (
+    <div className="w-full h-screen bg-gray-900 overflow-hidden touch-none no-select relative">
+      {view && <GameScene mode="spectate" spectate={view} />}
+
+      {/* Top bar */}
+      <div className="absolute top-0 inset-x-0 p-4 flex items-start justify-between gap-2 pointer-events-none">
+        <div className="bg-black/50 rounded-lg px-3 py-2 pointer-events-auto">
+          <p className="text-white/70 text-xs">👁 Spectating</p>
+          {room && (
+            <p className="text-white font-semibold">
+              Room <span className="font-mono">{room.roomId}</span> · {STATUS_LABELS[room.status]}
+            </p>
+          )}
+          {replay && (
+            <p className="text-white font-semibold">
+              {replay.username} · {replay.score.toLocaleString()} pts
+            </p>
+          )}
+          {room && <p className="text-white/60 text-xs">{room.spectatorCount} watching</p>}
+          {replay && (
+            <p className="text-white/60 text-xs font-mono">
+              {Math.min(replayTime, replay.timeTaken).toFixed(1)}s / {replay.timeTaken.toFixed(1)}s
+            </p>
+          )}
+        </div>
+
+        <button
+          onClick={() => navigate(-1)}
+          className="btn-secondary pointer-events-auto"
+        >
+          Exit
+        </button>
+      </div>
+
+      {/* Camera: follow a runner or look around freely */}
+      {view && (
+        <div className="absolute bottom-0 inset-x-0 p-4 flex flex-wrap gap-2 justify-center">
+          <button
+            onClick={() => setFollowId(null)}
+            className={`px-3 py-1 rounded-full text-sm ${followId === null ? 'bg-white text-gray-900' : 'bg-black/50 text-white'}`}
+          >
+            🎥 Free cam
+          </button>
+          {replay && (
+            <button
+              onClick={() => setFollowId(replay.gameId)}
+              className={`px-3 py-1 rounded-full text-sm ${followId === replay.gameId ? 'bg-white text-gray-900' : 'bg-black/50 text-white'}`}
+            >
+              {replay.username}
+            </button>
+          )}
+          {room?.players.filter(player => player.state !== 'forfeit').map(player => (
+            <button
+              key={player.userId}
+              onClick={() => setFollowId(player.userId)}
+              className={`px-3 py-1 rounded-full text-sm ${followId === player.userId ? 'bg-white text-gray-900' : 'bg-black/50 text-white'}`}
+            >
+              {player.username}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Before the start: the seed is only revealed once the race is running */}
+      {!view && !error && (
+        <div className="absolute inset-0 flex items-center justify-center p-4">
+          <div className="card w-80 text-center space-y-2">
+            {room ? (
+              <>
+                <p className="text-white font-semibold">{STATUS_LABELS[room.status]}</p>
+                <p className="text-gray-400 text-sm">
+                  {room.players.map(player => player.username).join(', ')}
+                </p>
+              </>
+            ) : (
+              <div className="spinner mx-auto" />
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Results */}
+      {(room?.standings || replayOver) && (
+        <div className="absolute inset-0 bg-black/70 flex items-center justify-center z-40 p-4">
+          <div className="bg-gray-800 rounded-2xl p-6 w-80 space-y-4">
+            <h2 className="text-2xl font-bold text-white text-center">
+              {room?.standings ? 'Race over' : 'Replay over'}
+            </h2>
+            {room?.standings && <RaceStandings standings={room.standings} />}
+            {replayOver && (
+              <button
+                onClick={() => setReplayRun(prev => prev + 1)}
+                className="w-full btn-primary"
+              >
+                ↺ Watch Again
+              </button>
+            )}
+            <button onClick={() => navigate(-1)} className="w-full btn-secondary">
+              Exit
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="absolute inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-800 rounded-2xl p-6 w-80 text-center">
+            <h2 className="text-2xl font-bold text-white mb-2">Can't watch</h2>
+            <p className="text-gray-400 mb-6">{error}</p>
+            <button onClick={() => navigate(-1)} className="w-full btn-secondary">
+              Back
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
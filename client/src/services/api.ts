@@ -1,4 +1,34 @@
 import { CLIENT_CONSTANTS } from '@/utils/constants';
+import type { BalanceConfig } from '@shared/config/balance';
+import type {
+  ApiResponse,
+  ChallengeBox,
+  ChallengePage,
+  ChallengeStartData,
+  ChallengeSummary,
+  DailyChallengeInfo,
+  DailyChallengeStartData,
+  FriendsData,
+  GameResult,
+  GhostCandidates,
+  GhostRun,
+  LeaderboardData,
+  LeaderboardMetric,
+  LeaderboardPeriod,
+  LeaderboardScope,
+  PlayerStatsData,
+  ReferralInfo,
+  ReplayRun,
+  RunInput,
+  SeasonPlacement,
+  SeasonStandingsData,
+  SeasonSummary,
+  SoloGameStartData,
+  SoloGameFinishData,
+  TransactionPage,
+  TransactionQuery,
+  WalletBalance
+} from '@shared/types/game.types';
 
 const API_BASE = CLIENT_CONSTANTS.API_BASE_URL;
 
@@ -34,9 +64,36 @@ async function apiRequest<T>(endpoint: string, options: ApiOptions = {}): Promis
   return data;
 }
 
-// Get token from localStorage
+// Build "?a=1&b=2" from defined values
+function toQueryString(params: object): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '') {
+      search.set(key, String(value));
+    }
+  }
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
+// Get token from the auth session persisted by AuthContext
 function getToken(): string | null {
-  return localStorage.getItem('token');
+  const stored = localStorage.getItem('coinrun-auth');
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored).token || null;
+  } catch {
+    return null;
+  }
+}
+
+// Random key identifying one logical request across retries
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
 }
 
 // Auth API
@@ -71,26 +128,170 @@ export const authApi = {
     })
 };
 
+// Config API
+export const configApi = {
+  get: () => apiRequest<ApiResponse<BalanceConfig>>('/config')
+};
+
 // Runner Game API
 export const runnerApi = {
-  startSolo: () =>
-    apiRequest('/runner/solo', {
+  // With ghostGameId the run uses that run's seed so its ghost can be raced
+  startSolo: (ghostGameId?: string) =>
+    apiRequest<ApiResponse<SoloGameStartData>>('/runner/solo', {
       method: 'POST',
+      body: ghostGameId ? { ghostGameId } : undefined,
       token: getToken() || undefined
     }),
 
-  finishSolo: (gameId: string, result: Record<string, unknown>) =>
-    apiRequest('/runner/solo/finish', {
+  // Reuse the same idempotencyKey when retrying so the run is only paid once
+  finishSolo: (gameId: string, runToken: string, result: GameResult, inputs: RunInput[], idempotencyKey: string) =>
+    apiRequest<ApiResponse<SoloGameFinishData>>('/runner/solo/finish', {
       method: 'POST',
-      body: { gameId, result },
+      body: { gameId, runToken, result, inputs, idempotencyKey },
+      token: getToken() || undefined
+    }),
+
+  // Token optional: signed-in players also get their own rank
+  getLeaderboard: (type: LeaderboardPeriod = 'daily', metric: LeaderboardMetric = 'score', scope: LeaderboardScope = 'global') =>
+    apiRequest<ApiResponse<LeaderboardData>>(`/runner/leaderboard${toQueryString({ type, metric, scope })}`, {
+      token: getToken() || undefined
+    }),
+
+  // Daily challenge: shared seed and preset, finished with finishSolo
+  getDailyChallenge: () =>
+    apiRequest<ApiResponse<DailyChallengeInfo>>('/runner/daily', {
+      token: getToken() || undefined
+    }),
+
+  startDaily: () =>
+    apiRequest<ApiResponse<DailyChallengeStartData>>('/runner/daily', {
+      method: 'POST',
+      token: getToken() || undefined
+    }),
+
+  getGhosts: () =>
+    apiRequest<ApiResponse<GhostCandidates>>('/runner/ghosts', {
       token: getToken() || undefined
     }),
 
-  getLeaderboard: (type: 'daily' | 'weekly' | 'alltime' = 'daily') =>
-    apiRequest(`/runner/leaderboard?type=${type}`),
+  getGhost: (gameId: string) =>
+    apiRequest<ApiResponse<GhostRun>>(`/runner/ghosts/${gameId}`, {
+      token: getToken() || undefined
+    }),
+
+  getReplay: (gameId: string) =>
+    apiRequest<ApiResponse<ReplayRun>>(`/runner/replays/${gameId}`, {
+      token: getToken() || undefined
+    }),
+
+  getDailyLeaderboard: (date?: string) =>
+    apiRequest(`/runner/daily/leaderboard${toQueryString({ date })}`, {
+      token: getToken() || undefined
+    }),
 
   getStats: () =>
-    apiRequest('/runner/stats', {
+    apiRequest<ApiResponse<PlayerStatsData>>('/runner/stats', {
+      token: getToken() || undefined
+    })
+};
+
+// Challenges API (async friend challenges)
+export const challengesApi = {
+  list: (box: ChallengeBox = 'inbox', page = 1) =>
+    apiRequest<ApiResponse<ChallengePage>>(`/challenges${toQueryString({ box, page })}`, {
+      token: getToken() || undefined
+    }),
+
+  // Challenge a player to beat one of your finished solo runs
+  create: (gameId: string, opponent: string) =>
+    apiRequest<ApiResponse<ChallengeSummary>>('/challenges', {
+      method: 'POST',
+      body: { gameId, opponent },
+      token: getToken() || undefined
+    }),
+
+  // Start an attempt; finished with runnerApi.finishSolo
+  start: (challengeId: string) =>
+    apiRequest<ApiResponse<ChallengeStartData>>(`/challenges/${challengeId}/start`, {
+      method: 'POST',
+      token: getToken() || undefined
+    }),
+
+  decline: (challengeId: string) =>
+    apiRequest<ApiResponse<void>>(`/challenges/${challengeId}/decline`, {
+      method: 'POST',
+      token: getToken() || undefined
+    })
+};
+
+// Friends API: every call answers with the caller's updated FriendsData
+export const friendsApi = {
+  get: () =>
+    apiRequest<ApiResponse<FriendsData>>('/friends', {
+      token: getToken() || undefined
+    }),
+
+  // By username or referral code
+  sendRequest: (target: { username: string } | { referralCode: string }) =>
+    apiRequest<ApiResponse<FriendsData>>('/friends/requests', {
+      method: 'POST',
+      body: target,
+      token: getToken() || undefined
+    }),
+
+  accept: (requestId: string) =>
+    apiRequest<ApiResponse<FriendsData>>(`/friends/requests/${requestId}/accept`, {
+      method: 'POST',
+      token: getToken() || undefined
+    }),
+
+  decline: (requestId: string) =>
+    apiRequest<ApiResponse<FriendsData>>(`/friends/requests/${requestId}/decline`, {
+      method: 'POST',
+      token: getToken() || undefined
+    }),
+
+  cancel: (requestId: string) =>
+    apiRequest<ApiResponse<FriendsData>>(`/friends/requests/${requestId}/cancel`, {
+      method: 'POST',
+      token: getToken() || undefined
+    }),
+
+  remove: (friendId: string) =>
+    apiRequest<ApiResponse<FriendsData>>(`/friends/${friendId}`, {
+      method: 'DELETE',
+      token: getToken() || undefined
+    })
+};
+
+// Referrals API
+export const referralsApi = {
+  get: () =>
+    apiRequest<ApiResponse<ReferralInfo>>('/referrals', {
+      token: getToken() || undefined
+    }),
+
+  redeem: (code: string) =>
+    apiRequest<ApiResponse<ReferralInfo>>('/referrals/redeem', {
+      method: 'POST',
+      body: { code },
+      token: getToken() || undefined
+    })
+};
+
+// Seasons API
+export const seasonsApi = {
+  list: () =>
+    apiRequest<ApiResponse<SeasonSummary[]>>('/seasons'),
+
+  // Live standings while the season runs, final ones once it closed
+  get: (seasonId: string) =>
+    apiRequest<ApiResponse<SeasonStandingsData>>(`/seasons/${seasonId}`, {
+      token: getToken() || undefined
+    }),
+
+  history: () =>
+    apiRequest<ApiResponse<SeasonPlacement[]>>('/seasons/history', {
       token: getToken() || undefined
     })
 };
@@ -161,19 +362,35 @@ export const dailyApi = {
 // Wallet API
 export const walletApi = {
   getBalance: () =>
-    apiRequest('/wallet/balance', {
+    apiRequest<ApiResponse<WalletBalance>>('/wallet/balance', {
       token: getToken() || undefined
     }),
 
-  getTransactions: () =>
-    apiRequest('/wallet/transactions', {
+  getTransactions: (query: TransactionQuery = {}) =>
+    apiRequest<ApiResponse<TransactionPage>>(`/wallet/transactions${toQueryString(query)}`, {
       token: getToken() || undefined
-    })
+    }),
+
+  // Download the filtered history as a file (page and limit are ignored)
+  exportTransactions: async (format: 'csv' | 'json', query: TransactionQuery = {}): Promise<Blob> => {
+    const token = getToken();
+    const response = await fetch(`${API_BASE}/wallet/transactions/export${toQueryString({ ...query, format })}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Export failed');
+    }
+
+    return response.blob();
+  }
 };
 
 export default {
   auth: authApi,
   runner: runnerApi,
+  challenges: challengesApi,
   upgrades: upgradesApi,
   shop: shopApi,
   daily: dailyApi,
@@ -35,6 +35,8 @@ export interface AuthUserData {
     totalCoinsCollected: number;
     highestArmy: number;
     bestScore: number;
+    challengesWon: number;
+    challengesLost: number;
   };
   settings: any;
   dailyMissions: any[];
@@ -1,5 +1,19 @@
 import { io, Socket } from 'socket.io-client';
 import { CLIENT_CONSTANTS } from '@/utils/constants';
+import type {
+  FriendPresenceData,
+  LeaderboardRankData,
+  LeaderboardUpdateData,
+  MatchmakingGhostData,
+  MatchmakingSearchingData,
+  RaceAck,
+  RaceCountdownData,
+  RaceFinishData,
+  RaceProgressData,
+  RaceRoomState,
+  RaceRoomSummary,
+  RaceSpectateState
+} from '@shared/types/game.types';
 
 let socket: Socket | null = null;
 
@@ -38,78 +52,157 @@ export function disconnectSocket() {
   }
 }
 
-// Betting events
-export function joinBettingQueue(betAmount: number) {
-  getSocket().emit('betting:queue', { betAmount });
+// Race room events (acknowledged with the REST response shape)
+function request<T = undefined>(event: string, payload?: Record<string, unknown>): Promise<RaceAck<T>> {
+  return new Promise((resolve) => {
+    getSocket().emit(event, payload ?? {}, (response: RaceAck<T>) => resolve(response));
+  });
 }
 
-export function leaveBettingQueue() {
-  getSocket().emit('betting:leave');
+// Public rooms are listed for spectators
+export function createRaceRoom(isPublic = false) {
+  return request<RaceRoomState>('race:create', { isPublic });
 }
 
-// Game events
-export function sendReady(matchId: string) {
-  getSocket().emit('game:ready', { matchId });
+export function joinRaceRoom(roomId: string) {
+  return request<RaceRoomState>('race:join', { roomId });
 }
 
-export function sendInput(matchId: string, input: { direction: string; timestamp: number }) {
-  getSocket().emit('game:input', { matchId, input });
+// Room the player is in, if any (e.g. back on the lobby page after a race)
+export function getCurrentRaceRoom() {
+  return request<RaceRoomState | null>('race:current');
 }
 
-export function sendProgress(matchId: string, progress: number, armyCount: number) {
-  getSocket().emit('game:progress', { matchId, progress, armyCount });
+export function leaveRaceRoom() {
+  return request('race:leave');
 }
 
-export function sendFinish(matchId: string, result: Record<string, unknown>) {
-  getSocket().emit('game:finish', { matchId, result });
+// Matchmaking: a race with players of similar power level and score rating
+export function joinMatchmaking() {
+  return request<MatchmakingSearchingData>('matchmaking:join');
 }
 
-export function quitGame(matchId: string) {
-  getSocket().emit('game:quit', { matchId });
+export function leaveMatchmaking() {
+  return request('matchmaking:leave');
 }
 
-// Event listeners
-export function onMatchFound(callback: (data: { matchId: string; opponent: unknown; trackSeed: string }) => void) {
-  getSocket().on('betting:match_found', callback);
-  return () => getSocket().off('betting:match_found', callback);
+// Spectating: watch a public room read-only
+export function listSpectateRooms() {
+  return request<RaceRoomSummary[]>('spectate:list');
+}
+
+export function spectateRace(roomId: string) {
+  return request<RaceSpectateState>('spectate:join', { roomId });
+}
+
+export function leaveSpectate() {
+  return request('spectate:leave');
+}
+
+// Leaderboard: live diffs of the top boards and the player's own rank
+export function subscribeLeaderboard() {
+  getSocket().emit('leaderboard:subscribe');
+}
+
+export function unsubscribeLeaderboard() {
+  getSocket().emit('leaderboard:unsubscribe');
+}
+
+// Game events
+export function sendReady(roomId: string, ready = true) {
+  return request<RaceRoomState>('game:ready', { roomId, ready });
+}
+
+export function sendProgress(roomId: string, progress: number, x: number, armyCount: number) {
+  getSocket().emit('game:progress', { roomId, progress, x, armyCount });
+}
+
+// Leaving a started race forfeits it
+export function quitGame(roomId: string) {
+  return request('game:quit', { roomId });
 }
 
-export function onSearching(callback: (data: { queuePosition: number }) => void) {
-  getSocket().on('betting:searching', callback);
-  return () => getSocket().off('betting:searching', callback);
+// Event listeners
+export function onSearching(callback: (data: MatchmakingSearchingData) => void) {
+  getSocket().on('matchmaking:searching', callback);
+  return () => getSocket().off('matchmaking:searching', callback);
 }
 
 export function onQueueTimeout(callback: () => void) {
-  getSocket().on('betting:queue_timeout', callback);
-  return () => getSocket().off('betting:queue_timeout', callback);
+  getSocket().on('matchmaking:timeout', callback);
+  return () => getSocket().off('matchmaking:timeout', callback);
+}
+
+// No racer found in time: race a similar run's ghost instead
+export function onMatchGhost(callback: (data: MatchmakingGhostData) => void) {
+  getSocket().on('matchmaking:ghost', callback);
+  return () => getSocket().off('matchmaking:ghost', callback);
+}
+
+export function onLeaderboardUpdate(callback: (data: LeaderboardUpdateData) => void) {
+  getSocket().on('leaderboard:update', callback);
+  return () => getSocket().off('leaderboard:update', callback);
+}
+
+export function onLeaderboardRank(callback: (data: LeaderboardRankData) => void) {
+  getSocket().on('leaderboard:rank', callback);
+  return () => getSocket().off('leaderboard:rank', callback);
+}
+
+// A friend came online or went offline
+export function onFriendPresence(callback: (data: FriendPresenceData) => void) {
+  getSocket().on('friends:presence', callback);
+  return () => getSocket().off('friends:presence', callback);
+}
+
+// A friend request or friendship changed: reload the friends list
+export function onFriendsChanged(callback: () => void) {
+  getSocket().on('friends:changed', callback);
+  return () => getSocket().off('friends:changed', callback);
+}
+
+export function onRaceRoom(callback: (data: RaceRoomState) => void) {
+  getSocket().on('race:room', callback);
+  return () => getSocket().off('race:room', callback);
+}
+
+export function onSpectateRoom(callback: (data: RaceSpectateState) => void) {
+  getSocket().on('spectate:room', callback);
+  return () => getSocket().off('spectate:room', callback);
+}
+
+// The watched room closed (every racer left)
+export function onSpectateClosed(callback: (data: { roomId: string }) => void) {
+  getSocket().on('spectate:closed', callback);
+  return () => getSocket().off('spectate:closed', callback);
 }
 
-export function onGameCountdown(callback: (data: { seconds: number }) => void) {
+export function onGameCountdown(callback: (data: RaceCountdownData) => void) {
   getSocket().on('game:countdown', callback);
   return () => getSocket().off('game:countdown', callback);
 }
 
-export function onGameStart(callback: (data: { trackSeed: string; startTime: number }) => void) {
+export function onGameStart(callback: (data: { roomId: string; trackSeed: string; startTime: number }) => void) {
   getSocket().on('game:start', callback);
   return () => getSocket().off('game:start', callback);
 }
 
-export function onOpponentProgress(callback: (data: { progress: number; armyCount: number }) => void) {
+export function onOpponentProgress(callback: (data: RaceProgressData) => void) {
   getSocket().on('game:opponent_progress', callback);
   return () => getSocket().off('game:opponent_progress', callback);
 }
 
-export function onGameFinish(callback: (data: { winnerId: string; results: Record<string, unknown> }) => void) {
+export function onGameFinish(callback: (data: RaceFinishData) => void) {
   getSocket().on('game:finish', callback);
   return () => getSocket().off('game:finish', callback);
 }
 
-export function onOpponentDisconnect(callback: () => void) {
+export function onOpponentDisconnect(callback: (data: { roomId: string; userId: string }) => void) {
   getSocket().on('game:opponent_disconnect', callback);
   return () => getSocket().off('game:opponent_disconnect', callback);
 }
 
-export function onOpponentForfeit(callback: () => void) {
+export function onOpponentForfeit(callback: (data: { roomId: string; userId: string }) => void) {
   getSocket().on('game:opponent_forfeit', callback);
   return () => getSocket().off('game:opponent_forfeit', callback);
 }
@@ -117,16 +210,28 @@ export function onOpponentForfeit(callback: () => void) {
 export default {
   getSocket,
   disconnectSocket,
-  joinBettingQueue,
-  leaveBettingQueue,
+  createRaceRoom,
+  joinRaceRoom,
+  getCurrentRaceRoom,
+  leaveRaceRoom,
+  joinMatchmaking,
+  leaveMatchmaking,
+  listSpectateRooms,
+  spectateRace,
+  leaveSpectate,
+  subscribeLeaderboard,
+  unsubscribeLeaderboard,
   sendReady,
-  sendInput,
   sendProgress,
-  sendFinish,
   quitGame,
-  onMatchFound,
   onSearching,
   onQueueTimeout,
+  onMatchGhost,
+  onLeaderboardUpdate,
+  onLeaderboardRank,
+  onRaceRoom,
+  onSpectateRoom,
+  onSpectateClosed,
   onGameCountdown,
   onGameStart,
   onOpponentProgress,
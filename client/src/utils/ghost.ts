@@ -0,0 +1,26 @@
+import type { GhostTrack } from '@shared/types/game.types';
+
+export interface GhostSample {
+  x: number;
+  z: number;
+  army: number;
+}
+
+// Ghost position at a run time (seconds), interpolated between samples.
+// Past the last sample the ghost stays where its run ended.
+export function sampleGhost(ghost: GhostTrack, time: number): GhostSample {
+  const last = ghost.z.length - 1;
+  const position = Math.max(0, (time * 1000) / ghost.interval);
+  const index = Math.floor(position);
+
+  if (index >= last) {
+    return { x: ghost.x[last], z: ghost.z[last], army: ghost.army[last] };
+  }
+
+  const t = position - index;
+  return {
+    x: ghost.x[index] + (ghost.x[index + 1] - ghost.x[index]) * t,
+    z: ghost.z[index] + (ghost.z[index + 1] - ghost.z[index]) * t,
+    army: ghost.army[index]
+  };
+}
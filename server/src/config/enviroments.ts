@@ -8,6 +8,7 @@ export const CONFIG = {
     GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID || '',
     GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET || '',
     GOOGLE_REDIRECT_URI: process.env.GOOGLE_REDIRECT_URI || '',
+    RUN_TOKEN_SECRET: process.env.RUN_TOKEN_SECRET || process.env.JWT_SECRET || 'your-secret-key-change-in-production',
 
 }; 
 
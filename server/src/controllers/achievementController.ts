@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
+import { ClientSession } from 'mongoose';
 import { Achievement } from '../models/Achievement.js';
 import { User } from '../models/Users.js';
-import { Transaction } from '../models/Transactions.js';
+import * as WalletService from '../service/walletService.js';
 
 /**
  * Get all achievements with user progress
@@ -51,6 +52,9 @@ export async function getAchievements(req: Request, res: Response) {
 
 /**
  * Update achievement progress (called internally from game/upgrade controllers)
+ * referrals: the player's rewarded referrals (service/referralService.ts)
+ * Pass the caller's session to make progress and rewards part of its
+ * transaction; errors are then rethrown so the transaction aborts as a whole.
  */
 export async function updateAchievementProgress(userId: string, updateData: {
   gamesPlayed?: number;
@@ -61,13 +65,14 @@ export async function updateAchievementProgress(userId: string, updateData: {
   bestScore?: number;
   upgradeType?: string;
   upgradeLevel?: number;
-}) {
+  referrals?: number;
+}, session?: ClientSession) {
   try {
-    const user = await User.findById(userId);
+    const user = await User.findById(userId).session(session ?? null);
     if (!user) return;
 
     // Get all active achievements
-    const achievements = await Achievement.find({ active: true });
+    const achievements = await Achievement.find({ active: true }).session(session ?? null);
 
     const newlyUnlocked: any[] = [];
 
@@ -124,6 +129,11 @@ export async function updateAchievementProgress(userId: string, updateData: {
             newProgress = updateData.upgradeLevel;
           }
           break;
+        case 'referrals':
+          if (updateData.referrals !== undefined) {
+            newProgress = updateData.referrals;
+          }
+          break;
       }
 
       userAchievement.progress = newProgress;
@@ -136,45 +146,25 @@ export async function updateAchievementProgress(userId: string, updateData: {
       }
     }
 
-    await user.save();
+    await user.save({ session });
 
     // Give rewards for newly unlocked achievements
     for (const achievement of newlyUnlocked) {
-      if (achievement.reward.coins) {
-        user.coins += achievement.reward.coins;
-        await Transaction.create({
-          userId: user._id,
-          type: 'achievement_reward',
-          currency: 'coins',
-          amount: achievement.reward.coins,
-          balanceBefore: user.coins - achievement.reward.coins,
-          balanceAfter: user.coins,
-          description: `Achievement unlocked: ${achievement.name}`,
-          relatedAchievementId: achievement.achievementId
-        });
-      }
-
-      if (achievement.reward.gems) {
-        user.gems += achievement.reward.gems;
-        await Transaction.create({
-          userId: user._id,
-          type: 'achievement_reward',
-          currency: 'gems',
-          amount: achievement.reward.gems,
-          balanceBefore: user.gems - achievement.reward.gems,
-          balanceAfter: user.gems,
-          description: `Achievement unlocked: ${achievement.name}`,
-          relatedAchievementId: achievement.achievementId
-        });
-      }
-
-      await user.save();
+      await WalletService.credit(user._id, {
+        coins: achievement.reward.coins,
+        gems: achievement.reward.gems
+      }, {
+        type: 'achievement_reward',
+        description: `Achievement unlocked: ${achievement.name}`,
+        relatedAchievementId: achievement.achievementId
+      }, session);
       console.log(`Achievement unlocked for user ${userId}: ${achievement.name}`);
     }
 
     return newlyUnlocked;
   } catch (error) {
     console.error('Update achievement progress error:', error);
+    if (session) throw error;
     return [];
   }
 }
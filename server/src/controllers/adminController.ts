@@ -0,0 +1,100 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest } from '../middleware/authMiddleware.js';
+import { CheatFlag } from '../models/CheatFlag.js';
+import { reviewCheatFlag } from '../service/cheatFlagService.js';
+
+const FLAG_STATUSES = ['open', 'cleared', 'confirmed'];
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * List cheat flags for review (newest first)
+ * Query: status (default open), userId, page, limit
+ */
+export async function getCheatFlags(req: AuthRequest, res: Response) {
+  try {
+    const { status = 'open', userId } = req.query;
+
+    if (!FLAG_STATUSES.includes(String(status))) {
+      return res.status(400).json({ success: false, error: 'Invalid status' });
+    }
+
+    const filter: Record<string, unknown> = { status };
+    if (userId !== undefined) {
+      if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({ success: false, error: 'Invalid user ID' });
+      }
+      filter.userId = userId;
+    }
+
+    const page = Math.max(1, Math.floor(Number(req.query.page) || 1));
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(Number(req.query.limit) || DEFAULT_PAGE_SIZE)));
+
+    const [flags, total] = await Promise.all([
+      CheatFlag.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('userId', 'username trustScore gamesPlayed'),
+      CheatFlag.countDocuments(filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        flags,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get cheat flags error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get cheat flags' });
+  }
+}
+
+/**
+ * Clear (false positive) or confirm a cheat flag
+ * Body: { action: 'clear' | 'confirm', note? }
+ */
+export async function reviewFlag(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const { flagId } = req.params;
+    const { action, note } = req.body;
+
+    if (!mongoose.isValidObjectId(flagId)) {
+      return res.status(400).json({ success: false, error: 'Invalid flag ID' });
+    }
+
+    if (action !== 'clear' && action !== 'confirm') {
+      return res.status(400).json({ success: false, error: 'Action must be clear or confirm' });
+    }
+
+    if (note !== undefined && typeof note !== 'string') {
+      return res.status(400).json({ success: false, error: 'Note must be a string' });
+    }
+
+    const reviewed = await reviewCheatFlag(flagId, action, user._id, note);
+    if (!reviewed) {
+      return res.status(404).json({ success: false, error: 'Flag not found' });
+    }
+
+    res.json({
+      success: true,
+      data: reviewed
+    });
+  } catch (error) {
+    console.error('Review cheat flag error:', error);
+    res.status(500).json({ success: false, error: 'Failed to review flag' });
+  }
+}
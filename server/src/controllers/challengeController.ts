@@ -0,0 +1,165 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/authMiddleware.js';
+import { RunnerGame } from '../models/RunnerGame.js';
+import { runStartData } from './runnerController.js';
+import { cancelOpenRuns, saveNewRun } from '../service/runLifecycleService.js';
+import {
+  ChallengeError,
+  ChallengeErrorCode,
+  createChallenge as createChallengeForRun,
+  declineChallenge as declinePendingChallenge,
+  getChallengeSummary,
+  getOpenChallenge,
+  countAttempt,
+  listChallenges
+} from '../service/challengeService.js';
+
+const CHALLENGE_BOXES = ['inbox', 'sent', 'history'] as const;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+const CHALLENGE_ERROR_STATUS: Record<ChallengeErrorCode, number> = {
+  game_not_found: 404,
+  opponent_not_found: 404,
+  self_challenge: 400,
+  already_challenged: 409,
+  too_many_pending: 429,
+  challenge_not_found: 404,
+  challenge_closed: 409
+};
+
+/**
+ * List challenges
+ * Query: box (inbox | sent | history, default inbox), page, limit
+ */
+export async function getChallenges(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const box = String(req.query.box ?? 'inbox');
+    if (!CHALLENGE_BOXES.includes(box as typeof CHALLENGE_BOXES[number])) {
+      return res.status(400).json({ success: false, error: 'Invalid box' });
+    }
+
+    const page = Math.max(1, Math.floor(Number(req.query.page) || 1));
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(Number(req.query.limit) || DEFAULT_PAGE_SIZE)));
+
+    res.json({
+      success: true,
+      data: await listChallenges(user._id, box as typeof CHALLENGE_BOXES[number], page, limit)
+    });
+  } catch (error) {
+    console.error('Get challenges error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get challenges' });
+  }
+}
+
+/**
+ * Challenge another player to beat one of your finished solo runs
+ * Body: { gameId, opponent (username) }
+ */
+export async function createChallenge(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const { gameId, opponent } = req.body;
+    if (typeof gameId !== 'string' || typeof opponent !== 'string' || !opponent.trim()) {
+      return res.status(400).json({ success: false, error: 'gameId and opponent are required' });
+    }
+
+    res.json({
+      success: true,
+      data: await createChallengeForRun(user._id, gameId, opponent.trim())
+    });
+  } catch (error) {
+    if (error instanceof ChallengeError) {
+      return res.status(CHALLENGE_ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+    }
+    console.error('Create challenge error:', error);
+    res.status(500).json({ success: false, error: 'Failed to create challenge' });
+  }
+}
+
+/**
+ * Start an attempt at a received challenge: the challenger's seed and
+ * difficulty with your own upgrades. Finished via /runner/solo/finish.
+ */
+export async function startChallengeGame(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const challenge = await getOpenChallenge(req.params.challengeId, user._id);
+
+    await cancelOpenRuns(user._id);
+
+    const game = new RunnerGame({
+      gameType: 'challenge',
+      challengeId: challenge._id,
+      userId: user._id,
+      trackSeed: challenge.trackSeed,
+      trackDifficulty: challenge.trackDifficulty,
+      upgradeLevels: {
+        capacity: user.upgrades.capacity,
+        addWarrior: user.upgrades.addWarrior,
+        warriorUpgrade: user.upgrades.warriorUpgrade,
+        income: user.upgrades.income,
+        speed: user.upgrades.speed,
+        jump: user.upgrades.jump,
+        bulletPower: user.upgrades.bulletPower,
+        magnetRadius: user.upgrades.magnetRadius
+      },
+      status: 'in_progress'
+    });
+
+    if (!(await saveNewRun(game))) {
+      return res.status(409).json({ success: false, error: 'A run is already in progress' });
+    }
+
+    await countAttempt(challenge._id);
+
+    res.json({
+      success: true,
+      data: {
+        ...runStartData(game),
+        challenge: await getChallengeSummary(challenge._id)
+      }
+    });
+  } catch (error) {
+    if (error instanceof ChallengeError) {
+      return res.status(CHALLENGE_ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+    }
+    console.error('Start challenge game error:', error);
+    res.status(500).json({ success: false, error: 'Failed to start challenge' });
+  }
+}
+
+/**
+ * Decline a received challenge (no result is recorded)
+ */
+export async function declineChallenge(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const declined = await declinePendingChallenge(req.params.challengeId, user._id);
+    if (!declined) {
+      return res.status(404).json({ success: false, error: 'Challenge not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Decline challenge error:', error);
+    res.status(500).json({ success: false, error: 'Failed to decline challenge' });
+  }
+}
@@ -0,0 +1,18 @@
+import { Request, Response } from 'express';
+import { BALANCE } from '@shared/config/balance.js';
+
+/**
+ * Get game balance config
+ * Clients compare `version` with their bundled copy before starting a run
+ */
+export async function getConfig(_req: Request, res: Response) {
+  try {
+    res.json({
+      success: true,
+      data: BALANCE
+    });
+  } catch (error) {
+    console.error('Get config error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get config' });
+  }
+}
@@ -0,0 +1,150 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/authMiddleware.js';
+import {
+  FriendError,
+  FriendErrorCode,
+  acceptFriendRequest,
+  closeFriendRequest,
+  getFriends as getFriendsData,
+  removeFriend as removeFriendship,
+  sendFriendRequest as sendRequest
+} from '../service/friendService.js';
+
+const FRIEND_ERROR_STATUS: Record<FriendErrorCode, number> = {
+  user_not_found: 404,
+  self_request: 400,
+  already_friends: 409,
+  already_requested: 409,
+  too_many_pending: 429,
+  too_many_friends: 409,
+  request_not_found: 404,
+  not_friends: 404
+};
+
+/**
+ * Friends with online presence, and pending requests both ways
+ */
+export async function getFriends(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    res.json({ success: true, data: await getFriendsData(user._id) });
+  } catch (error) {
+    if (error instanceof FriendError) {
+      return res.status(FRIEND_ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+    }
+    console.error('Get friends error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get friends' });
+  }
+}
+
+/**
+ * Send a friend request
+ * Body: { username } or { referralCode }
+ */
+export async function sendFriendRequest(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const { username, referralCode } = req.body;
+    if (typeof username === 'string' && username.trim()) {
+      return res.json({ success: true, data: await sendRequest(user._id, { username: username.trim() }) });
+    }
+    if (typeof referralCode === 'string' && referralCode.trim()) {
+      return res.json({ success: true, data: await sendRequest(user._id, { referralCode: referralCode.trim() }) });
+    }
+    res.status(400).json({ success: false, error: 'username or referralCode is required' });
+  } catch (error) {
+    if (error instanceof FriendError) {
+      return res.status(FRIEND_ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+    }
+    console.error('Send friend request error:', error);
+    res.status(500).json({ success: false, error: 'Failed to send friend request' });
+  }
+}
+
+/**
+ * Accept a received friend request
+ */
+export async function acceptRequest(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    res.json({ success: true, data: await acceptFriendRequest(req.params.requestId, user._id) });
+  } catch (error) {
+    if (error instanceof FriendError) {
+      return res.status(FRIEND_ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+    }
+    console.error('Accept friend request error:', error);
+    res.status(500).json({ success: false, error: 'Failed to accept friend request' });
+  }
+}
+
+/**
+ * Decline a received friend request
+ */
+export async function declineRequest(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    res.json({ success: true, data: await closeFriendRequest(req.params.requestId, user._id, 'declined') });
+  } catch (error) {
+    if (error instanceof FriendError) {
+      return res.status(FRIEND_ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+    }
+    console.error('Decline friend request error:', error);
+    res.status(500).json({ success: false, error: 'Failed to decline friend request' });
+  }
+}
+
+/**
+ * Cancel a sent friend request
+ */
+export async function cancelRequest(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    res.json({ success: true, data: await closeFriendRequest(req.params.requestId, user._id, 'cancelled') });
+  } catch (error) {
+    if (error instanceof FriendError) {
+      return res.status(FRIEND_ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+    }
+    console.error('Cancel friend request error:', error);
+    res.status(500).json({ success: false, error: 'Failed to cancel friend request' });
+  }
+}
+
+/**
+ * Remove a friend (on both sides)
+ */
+export async function removeFriend(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    res.json({ success: true, data: await removeFriendship(user._id, req.params.friendId) });
+  } catch (error) {
+    if (error instanceof FriendError) {
+      return res.status(FRIEND_ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+    }
+    console.error('Remove friend error:', error);
+    res.status(500).json({ success: false, error: 'Failed to remove friend' });
+  }
+}
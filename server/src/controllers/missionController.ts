@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
+import { ClientSession } from 'mongoose';
 import { Mission } from '../models/Mission.js';
 import { User } from '../models/Users.js';
-import { Transaction } from '../models/Transactions.js';
+import { withTransaction, TxResult } from '../db/db.js';
+import * as WalletService from '../service/walletService.js';
 
 /**
  * Get all missions (daily and weekly) with user progress
@@ -86,72 +88,55 @@ export async function claimMission(req: Request, res: Response) {
       return res.status(404).json({ success: false, error: 'Mission not found' });
     }
 
-    // Find user mission
-    const missionArray = mission.type === 'daily' ? user.dailyMissions : user.weeklyMissions;
-    const userMission = missionArray.find((m: any) => m.missionId === missionId);
-
-    if (!userMission) {
-      return res.status(404).json({ success: false, error: 'Mission not started' });
-    }
+    // Claim flag, balances and ledger entries commit together
+    const outcome = await withTransaction(async (session): Promise<TxResult<WalletService.Balance>> => {
+      const player = await User.findById(user._id).session(session);
+      if (!player) {
+        return { ok: false, status: 404, error: 'User not found' };
+      }
 
-    if (!userMission.completed) {
-      return res.status(400).json({ success: false, error: 'Mission not completed' });
-    }
+      // Find user mission
+      const missionArray = mission.type === 'daily' ? player.dailyMissions : player.weeklyMissions;
+      const userMission = missionArray.find((m: any) => m.missionId === missionId);
 
-    if (userMission.claimed) {
-      return res.status(400).json({ success: false, error: 'Reward already claimed' });
-    }
+      if (!userMission) {
+        return { ok: false, status: 404, error: 'Mission not started' };
+      }
 
-    // Give rewards
-    const coinsBefore = user.coins;
-    const gemsBefore = user.gems;
+      if (!userMission.completed) {
+        return { ok: false, status: 400, error: 'Mission not completed' };
+      }
 
-    if (mission.reward.coins) {
-      user.coins += mission.reward.coins;
-    }
-    if (mission.reward.gems) {
-      user.gems += mission.reward.gems;
-    }
+      if (userMission.claimed) {
+        return { ok: false, status: 400, error: 'Reward already claimed' };
+      }
 
-    // Mark as claimed
-    userMission.claimed = true;
-    await user.save();
+      // Mark as claimed
+      userMission.claimed = true;
+      await player.save({ session });
 
-    // Create transaction records
-    if (mission.reward.coins) {
-      await Transaction.create({
-        userId: user._id,
+      // Give rewards
+      const { balance } = await WalletService.credit(player._id, {
+        coins: mission.reward.coins,
+        gems: mission.reward.gems
+      }, {
         type: 'mission_reward',
-        currency: 'coins',
-        amount: mission.reward.coins,
-        balanceBefore: coinsBefore,
-        balanceAfter: user.coins,
         description: `Mission reward: ${mission.title}`,
         relatedMissionId: missionId
-      });
-    }
+      }, session);
 
-    if (mission.reward.gems) {
-      await Transaction.create({
-        userId: user._id,
-        type: 'mission_reward',
-        currency: 'gems',
-        amount: mission.reward.gems,
-        balanceBefore: gemsBefore,
-        balanceAfter: user.gems,
-        description: `Mission reward: ${mission.title}`,
-        relatedMissionId: missionId
-      });
+      return { ok: true, data: balance };
+    });
+
+    if (!outcome.ok) {
+      return res.status(outcome.status).json({ success: false, error: outcome.error });
     }
 
     res.json({
       success: true,
       data: {
         reward: mission.reward,
-        balance: {
-          coins: user.coins,
-          gems: user.gems
-        }
+        balance: outcome.data
       }
     });
   } catch (error) {
@@ -162,6 +147,8 @@ export async function claimMission(req: Request, res: Response) {
 
 /**
  * Update mission progress (called internally from game controller)
+ * Pass the caller's session to make the update part of its transaction;
+ * errors are then rethrown so the transaction aborts as a whole.
  */
 export async function updateMissionProgress(userId: string, updateData: {
   gamesPlayed?: number;
@@ -170,13 +157,13 @@ export async function updateMissionProgress(userId: string, updateData: {
   didFinish?: boolean;
   timeTaken?: number;
   totalCoins?: number;
-}) {
+}, session?: ClientSession) {
   try {
-    const user = await User.findById(userId);
+    const user = await User.findById(userId).session(session ?? null);
     if (!user) return;
 
     // Get all active missions
-    const missions = await Mission.find({ active: true });
+    const missions = await Mission.find({ active: true }).session(session ?? null);
 
     // Update daily missions
     for (const userMission of user.dailyMissions) {
@@ -266,9 +253,10 @@ export async function updateMissionProgress(userId: string, updateData: {
       }
     }
 
-    await user.save();
+    await user.save({ session });
   } catch (error) {
     console.error('Update mission progress error:', error);
+    if (session) throw error;
   }
 }
 
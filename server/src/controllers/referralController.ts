@@ -0,0 +1,59 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/authMiddleware.js';
+import {
+  ReferralError,
+  ReferralErrorCode,
+  getReferralInfo,
+  redeemReferralCode
+} from '../service/referralService.js';
+
+const REFERRAL_ERROR_STATUS: Record<ReferralErrorCode, number> = {
+  invalid_code: 404,
+  self_referral: 400,
+  circular_referral: 400,
+  already_referred: 409,
+  grace_period_over: 403
+};
+
+/**
+ * The player's referral code, their referrals, and the code they redeemed
+ */
+export async function getReferrals(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    res.json({ success: true, data: await getReferralInfo(user._id) });
+  } catch (error) {
+    console.error('Get referrals error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get referrals' });
+  }
+}
+
+/**
+ * Redeem another player's referral code (new accounts only)
+ * Body: { code }
+ */
+export async function redeemReferral(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const { code } = req.body;
+    if (typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ success: false, error: 'code is required' });
+    }
+
+    res.json({ success: true, data: await redeemReferralCode(user._id, code) });
+  } catch (error) {
+    if (error instanceof ReferralError) {
+      return res.status(REFERRAL_ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+    }
+    console.error('Redeem referral error:', error);
+    res.status(500).json({ success: false, error: 'Failed to redeem referral code' });
+  }
+}
@@ -1,17 +1,70 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/authMiddleware.js';
 import { User } from '../models/Users.js';
-import { RunnerGame } from '../models/RunnerGame.js';
-import { Transaction } from '../models/Transactions.js';
+import { RunnerGame, IRunnerGame } from '../models/RunnerGame.js';
+import { withTransaction, TxResult } from '../db/db.js';
 import { updateMissionProgress } from './missionController.js';
 import { updateAchievementProgress } from './achievementController.js';
+import { parseRunInputs, replayRun } from '../service/runValidationService.js';
+import * as WalletService from '../service/walletService.js';
+import { cancelOpenRuns, cancelRun, isRunExpired, saveNewRun } from '../service/runLifecycleService.js';
+import { issueRunToken, verifyRunToken, checkElapsedTime } from '../service/runTokenService.js';
+import { recordCheatFlag } from '../service/cheatFlagService.js';
+import {
+  LEADERBOARD_METRICS,
+  LEADERBOARD_PERIODS,
+  getTopEntries,
+  recordLeaderboardRun
+} from '../service/leaderboardService.js';
+import {
+  LIVE_BOARD_SIZE,
+  getBoardStanding,
+  getPlayerRank,
+  publishFinishedRun
+} from '../service/leaderboardLiveService.js';
+import {
+  getChallengeDate,
+  getOrCreateDailyChallenge,
+  getDailyChallengeInfo,
+  getDailyLeaderboard as getDailyChallengeLeaderboard,
+  releaseAttempt,
+  reserveAttempt
+} from '../service/dailyChallengeService.js';
+import { findGhostGame, getGhostRun, getGhostCandidates, getReplayRun } from '../service/ghostService.js';
+import { recordChallengeRun } from '../service/challengeService.js';
+import { recordReferralRun } from '../service/referralService.js';
+import { recordRaceRun } from '../service/raceRoomService.js';
+import { calculateScoreBreakdown, calculateCoinReward, ScoringStats } from '@shared/game/scoring.js';
+import { BALANCE } from '@shared/config/balance.js';
+import { getMaxArmy, getPlayerSpeed } from '@shared/types/game.types.js';
+import type { LeaderboardData, LeaderboardMetric, LeaderboardPeriod } from '@shared/types/game.types.js';
 
 // Game constants for anti-cheat validation
-const TRACK_LENGTH = 800; // meters
-const PLAYER_BASE_SPEED = 50; // m/s
-const MAX_SPEED_MULTIPLIER = 3; // Max realistic speed boost
-const MAX_ARMY_BASE = 30; // Base max army
-const MAX_COINS_PER_METER = 2; // Generous estimate
+const TRACK_LENGTH = BALANCE.track.LENGTH; // meters
+const { MAX_SPEED_MULTIPLIER, MAX_COINS_PER_METER } = BALANCE.antiCheat;
+
+const RUN_REWARD_DESCRIPTIONS: Record<IRunnerGame['gameType'], string> = {
+  solo: 'Solo game reward',
+  daily: 'Daily challenge run reward',
+  challenge: 'Challenge run reward',
+  race: 'Race run reward'
+};
+
+// Client-generated key sent with each finish request (reused on retries)
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+
+/**
+ * Start response shared by solo, daily and challenge runs
+ */
+export function runStartData(game: IRunnerGame) {
+  return {
+    gameId: game._id,
+    runToken: issueRunToken(game),
+    trackSeed: game.trackSeed,
+    difficulty: game.trackDifficulty,
+    upgrades: game.upgradeLevels
+  };
+}
 
 /**
  * Start solo game
@@ -23,11 +76,21 @@ export async function startSoloGame(req: AuthRequest, res: Response) {
       return res.status(401).json({ success: false, error: 'Not authenticated' });
     }
 
+    // Racing a ghost: same seed and difficulty as the ghost's run
+    const { ghostGameId } = req.body ?? {};
+    const ghostGame = ghostGameId !== undefined ? await findGhostGame(String(ghostGameId), user._id) : null;
+    if (ghostGameId !== undefined && !ghostGame) {
+      return res.status(404).json({ success: false, error: 'Ghost not found' });
+    }
+
+    // One open run per player: starting a new one closes the previous (counts as played)
+    const cancelledRuns = await cancelOpenRuns(user._id);
+
     // Generate track seed
-    const trackSeed = `${Date.now()}-${user._id}-${Math.random().toString(36).substring(2, 9)}`;
+    const trackSeed = ghostGame?.trackSeed ?? `${Date.now()}-${user._id}-${Math.random().toString(36).substring(2, 9)}`;
 
     // Calculate difficulty based on user stats
-    const difficulty = Math.min(1 + user.gamesPlayed / 20, 5);
+    const difficulty = ghostGame?.trackDifficulty ?? Math.min(1 + (user.gamesPlayed + cancelledRuns) / 20, 5);
 
     // Snapshot of current upgrade levels (for anti-cheat)
     const upgradeLevels = {
@@ -48,19 +111,17 @@ export async function startSoloGame(req: AuthRequest, res: Response) {
       trackSeed,
       trackDifficulty: difficulty,
       upgradeLevels,
+      ghostGameId: ghostGame?._id,
       status: 'in_progress'
     });
 
-    await game.save();
+    if (!(await saveNewRun(game))) {
+      return res.status(409).json({ success: false, error: 'A run is already in progress' });
+    }
 
     res.json({
       success: true,
-      data: {
-        gameId: game._id,
-        trackSeed,
-        difficulty,
-        upgrades: upgradeLevels
-      }
+      data: runStartData(game)
     });
   } catch (error) {
     console.error('Start solo game error:', error);
@@ -71,39 +132,57 @@ export async function startSoloGame(req: AuthRequest, res: Response) {
 /**
  * Validate game results for anti-cheat
  */
-function validateGameResults(result: any, upgradeLevels: any): { valid: boolean; reason?: string } {
-  // Max coins based on track length
-  const maxCoins = TRACK_LENGTH * MAX_COINS_PER_METER;
-  if (result.coinsCollected > maxCoins) {
-    return { valid: false, reason: 'Coins collected exceeds maximum possible' };
+function validateGameResults(result: any, upgradeLevels: any): { valid: boolean; reason?: string; expected?: Record<string, number> } {
+  const maxSpeed = getPlayerSpeed(upgradeLevels.speed) * MAX_SPEED_MULTIPLIER;
+  const bounds = {
+    maxCoins: TRACK_LENGTH * MAX_COINS_PER_METER,  // Max coins based on track length
+    maxDistance: TRACK_LENGTH * 1.1,               // 10% buffer for overshooting
+    minTime: (TRACK_LENGTH / maxSpeed) * 0.8,      // Max possible speed, 20% buffer
+    maxArmy: getMaxArmy(upgradeLevels.capacity)    // Capacity upgrade
+  };
+
+  if (result.coinsCollected > bounds.maxCoins) {
+    return { valid: false, reason: 'Coins collected exceeds maximum possible', expected: bounds };
   }
 
-  // Max distance is track length
-  if (result.distanceTraveled > TRACK_LENGTH * 1.1) { // 10% buffer for overshooting
-    return { valid: false, reason: 'Distance exceeds track length' };
+  if (result.distanceTraveled > bounds.maxDistance) {
+    return { valid: false, reason: 'Distance exceeds track length', expected: bounds };
   }
 
-  // Minimum time based on max possible speed
-  const maxSpeed = PLAYER_BASE_SPEED * MAX_SPEED_MULTIPLIER;
-  const minTime = TRACK_LENGTH / maxSpeed;
-  if (result.didFinish && result.timeTaken < minTime * 0.8) { // 20% buffer
-    return { valid: false, reason: 'Completion time too fast' };
+  if (result.didFinish && result.timeTaken < bounds.minTime) {
+    return { valid: false, reason: 'Completion time too fast', expected: bounds };
   }
 
-  // Max army based on capacity upgrade
-  const maxArmy = MAX_ARMY_BASE + upgradeLevels.capacity * 2;
-  if (result.maxArmy > maxArmy) {
-    return { valid: false, reason: 'Max army exceeds capacity' };
+  if (result.maxArmy > bounds.maxArmy) {
+    return { valid: false, reason: 'Max army exceeds capacity', expected: bounds };
   }
 
   // Negative values check
   if (result.coinsCollected < 0 || result.distanceTraveled < 0 || result.timeTaken < 0 || result.maxArmy < 0) {
-    return { valid: false, reason: 'Negative values detected' };
+    return { valid: false, reason: 'Negative values detected', expected: bounds };
   }
 
   return { valid: true };
 }
 
+/**
+ * Close a run that failed an anti-cheat check, so it can't be resubmitted.
+ * Conditional transition: returns false when a concurrent finish closed it first.
+ */
+async function rejectRun(game: IRunnerGame, fields: Record<string, unknown> = {}): Promise<boolean> {
+  const rejected = await RunnerGame.findOneAndUpdate(
+    { _id: game._id, status: 'in_progress' },
+    { $set: { ...fields, status: 'rejected', finishedAt: new Date() } }
+  );
+  if (!rejected) return false;
+
+  // A rejected race run has no result in the standings
+  if (game.gameType === 'race') {
+    recordRaceRun(game, null);
+  }
+  return true;
+}
+
 /**
  * Finish solo game
  */
@@ -114,16 +193,25 @@ export async function finishSoloGame(req: AuthRequest, res: Response) {
       return res.status(401).json({ success: false, error: 'Not authenticated' });
     }
 
-    const { gameId, result } = req.body;
+    const { gameId, result, idempotencyKey } = req.body;
 
     // Validate required fields
-    if (!result || typeof result.finalScore !== 'number') {
+    if (!result || typeof result.timeTaken !== 'number') {
       return res.status(400).json({ success: false, error: 'Invalid result data' });
     }
 
+    if (typeof idempotencyKey !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+      return res.status(400).json({ success: false, error: 'Invalid idempotency key' });
+    }
+
+    const inputs = parseRunInputs(req.body.inputs);
+    if (!inputs) {
+      return res.status(400).json({ success: false, error: 'Invalid input log' });
+    }
+
     // Find game
     const game = await RunnerGame.findById(gameId);
-    if (!game || game.status !== 'in_progress') {
+    if (!game) {
       return res.status(400).json({ success: false, error: 'Invalid game' });
     }
 
@@ -132,10 +220,77 @@ export async function finishSoloGame(req: AuthRequest, res: Response) {
       return res.status(400).json({ success: false, error: 'Unauthorized' });
     }
 
+    // Retried request that already finished the run
+    if (game.finishIdempotencyKey === idempotencyKey && game.finishResponse) {
+      return res.json({ success: true, data: game.finishResponse });
+    }
+
+    if (game.status === 'cancelled') {
+      return res.status(409).json({ success: false, error: 'Game expired' });
+    }
+
+    if (game.status !== 'in_progress') {
+      return res.status(409).json({ success: false, error: 'Game already finished' });
+    }
+
+    // Past the deadline but not swept yet
+    if (isRunExpired(game)) {
+      await cancelRun(game, 'expired');
+      return res.status(409).json({ success: false, error: 'Game expired' });
+    }
+
+    // Every anti-cheat hit is recorded for review and lowers the player's trust score
+    const submitted = { result, inputCount: inputs.length };
+
+    // Run token from startSoloGame: same game, player, seed and upgrades
+    const token = verifyRunToken(req.body.runToken, game);
+    if (!token.valid) {
+      console.warn(`Run token rejected for user ${user._id}: ${token.reason}`);
+      if (!(await rejectRun(game))) {
+        return res.status(409).json({ success: false, error: 'Game already finished' });
+      }
+      await recordCheatFlag({ userId: user._id, gameId: game._id, rule: 'run_token', reason: token.reason, payload: submitted });
+      return res.status(400).json({ success: false, error: 'Invalid run token', details: token.reason });
+    }
+
+    // Claimed run time must fit the real time since the run started
+    const runStart = token.issuedAt > game.startedAt ? token.issuedAt : game.startedAt;
+    const timeMismatch = checkElapsedTime(result.timeTaken, runStart);
+    if (timeMismatch) {
+      console.warn(`Elapsed time check failed for user ${user._id}: ${timeMismatch.reason}`);
+      if (!(await rejectRun(game))) {
+        return res.status(409).json({ success: false, error: 'Game already finished' });
+      }
+      await recordCheatFlag({
+        userId: user._id,
+        gameId: game._id,
+        rule: 'elapsed_time',
+        reason: timeMismatch.reason,
+        payload: submitted,
+        expected: timeMismatch.expected
+      });
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid game results',
+        details: timeMismatch.reason
+      });
+    }
+
     // Anti-cheat validation
     const validation = validateGameResults(result, game.upgradeLevels);
     if (!validation.valid) {
       console.warn(`Anti-cheat triggered for user ${user._id}: ${validation.reason}`);
+      if (!(await rejectRun(game))) {
+        return res.status(409).json({ success: false, error: 'Game already finished' });
+      }
+      await recordCheatFlag({
+        userId: user._id,
+        gameId: game._id,
+        rule: 'result_bounds',
+        reason: validation.reason || 'Invalid game results',
+        payload: submitted,
+        expected: validation.expected
+      });
       return res.status(400).json({
         success: false,
         error: 'Invalid game results',
@@ -143,94 +298,204 @@ export async function finishSoloGame(req: AuthRequest, res: Response) {
       });
     }
 
-    // Update game record
-    game.finalScore = result.finalScore || 0;
-    game.coinsCollected = result.coinsCollected || 0;
-    game.maxArmy = result.maxArmy || 0;
-    game.distanceTraveled = result.distanceTraveled || 0;
-    game.timeTaken = result.timeTaken || 0;
-    game.didFinish = result.didFinish || false;
-    game.enemiesKilled = result.enemiesKilled || 0;
-    game.perfectGates = result.perfectGates || 0;
-    game.status = 'finished';
-    game.finishedAt = new Date();
-    game.duration = result.timeTaken;
-
-    await game.save();
-
-    // Calculate rewards with income multiplier
-    const incomeMultiplier = 1 + game.upgradeLevels.income * 0.01; // 1% per level
-    const baseReward = 50 +
-      result.coinsCollected +
-      result.maxArmy * 2 +
-      Math.max(0, (120 - result.timeTaken) * 2) +
-      (result.enemiesKilled || 0) * 5;
-
-    const coinReward = Math.floor(baseReward * incomeMultiplier);
-
-    // Update user stats
-    const previousCoins = user.coins;
-    user.gamesPlayed += 1;
-    if (result.didFinish) {
-      user.gamesWon += 1;
-    }
-    user.totalDistance += result.distanceTraveled;
-    user.totalCoinsCollected += result.coinsCollected;
-    user.highestArmy = Math.max(user.highestArmy, result.maxArmy);
-    user.bestScore = Math.max(user.bestScore, result.finalScore);
-    user.coins += coinReward;
-
-    await user.save();
-
-    // Create transaction record
-    await Transaction.create({
-      userId: user._id,
-      type: 'game_reward',
-      currency: 'coins',
-      amount: coinReward,
-      balanceBefore: previousCoins,
-      balanceAfter: user.coins,
-      description: `Solo game reward`,
-      relatedGameId: game._id
-    });
+    // Replay the run against its seeded track
+    const replay = replayRun(game, result, inputs);
+    const replayRecord = {
+      inputLog: inputs,
+      validation: {
+        status: replay.status,
+        reason: replay.reason,
+        claimed: replay.claimed,
+        simulated: replay.simulated
+      },
+      finishIdempotencyKey: idempotencyKey
+    };
 
-    // Update mission progress
-    await updateMissionProgress(user._id.toString(), {
-      gamesPlayed: 1,
-      coinsCollected: result.coinsCollected,
-      maxArmy: result.maxArmy,
-      didFinish: result.didFinish,
-      timeTaken: result.timeTaken,
-      totalCoins: user.totalCoinsCollected
-    });
+    if (replay.status === 'rejected') {
+      console.warn(`Replay mismatch for user ${user._id}: ${replay.reason}`);
+      if (!(await rejectRun(game, replayRecord))) {
+        return res.status(409).json({ success: false, error: 'Game already finished' });
+      }
 
-    // Update achievement progress
-    const unlockedAchievements = await updateAchievementProgress(user._id.toString(), {
-      gamesPlayed: user.gamesPlayed,
-      gamesWon: user.gamesWon,
-      totalCoins: user.totalCoinsCollected,
-      totalDistance: user.totalDistance,
-      highestArmy: user.highestArmy,
-      bestScore: user.bestScore
-    });
+      await recordCheatFlag({
+        userId: user._id,
+        gameId: game._id,
+        rule: 'replay_mismatch',
+        reason: replay.reason || 'Replay mismatch',
+        payload: submitted,
+        expected: { ...replay.simulated }
+      });
 
-    res.json({
-      success: true,
-      data: {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid game results',
+        details: replay.reason
+      });
+    }
+
+    // Server-authoritative stats from here on. Kills and perfect gates
+    // aren't part of the replay yet, so client values are not trusted.
+    const stats: ScoringStats = {
+      ...replay.stats,
+      enemiesKilled: 0,
+      perfectGates: 0
+    };
+
+    // Score and reward come from validated stats only
+    const score = calculateScoreBreakdown(stats);
+    const coinReward = calculateCoinReward(stats, game.upgradeLevels.income);
+
+    // Game result, user stats, reward, ledger entry, missions and achievements
+    // commit together. Only the request that moves the run out of
+    // in_progress gets past the first update.
+    const outcome = await withTransaction(async (session): Promise<TxResult<Record<string, unknown>>> => {
+      const finished = await RunnerGame.findOneAndUpdate(
+        { _id: game._id, status: 'in_progress' },
+        {
+          $set: {
+            ...replayRecord,
+            finalScore: score.total,
+            scoreBreakdown: score,
+            coinsCollected: stats.coinsCollected,
+            maxArmy: stats.maxArmy,
+            distanceTraveled: stats.distanceTraveled,
+            timeTaken: stats.timeTaken,
+            didFinish: stats.didFinish,
+            enemiesKilled: stats.enemiesKilled,
+            perfectGates: stats.perfectGates,
+            ghost: replay.ghost,
+            status: 'finished',
+            finishedAt: new Date(),
+            duration: stats.timeTaken
+          }
+        },
+        { new: true, session }
+      );
+      if (!finished) {
+        return { ok: false, status: 409, error: 'Game already finished' };
+      }
+
+      const player = await User.findById(user._id).session(session);
+      if (!player) {
+        return { ok: false, status: 404, error: 'User not found' };
+      }
+
+      // Update user stats
+      player.gamesPlayed += 1;
+      if (stats.didFinish) {
+        player.gamesWon += 1;
+      }
+      player.totalDistance += stats.distanceTraveled;
+      player.totalCoinsCollected += stats.coinsCollected;
+      player.highestArmy = Math.max(player.highestArmy, stats.maxArmy);
+      player.bestScore = Math.max(player.bestScore, score.total);
+
+      await player.save({ session });
+
+      // Pay the reward
+      await WalletService.credit(player._id, { coins: coinReward }, {
+        type: 'game_reward',
+        description: RUN_REWARD_DESCRIPTIONS[finished.gameType],
+        relatedGameId: finished._id
+      }, session);
+
+      // Update mission progress
+      await updateMissionProgress(player._id.toString(), {
+        gamesPlayed: 1,
+        coinsCollected: stats.coinsCollected,
+        maxArmy: stats.maxArmy,
+        didFinish: stats.didFinish,
+        timeTaken: stats.timeTaken,
+        totalCoins: player.totalCoinsCollected
+      }, session);
+
+      // Update achievement progress
+      const unlockedAchievements = await updateAchievementProgress(player._id.toString(), {
+        gamesPlayed: player.gamesPlayed,
+        gamesWon: player.gamesWon,
+        totalCoins: player.totalCoinsCollected,
+        totalDistance: player.totalDistance,
+        highestArmy: player.highestArmy,
+        bestScore: player.bestScore
+      }, session);
+
+      // Referred players: the qualifying run pays both sides of the referral
+      const referral = await recordReferralRun(player, session);
+      if (referral) {
+        await updateAchievementProgress(referral.referrerId.toString(), {
+          referrals: referral.referrerRewarded
+        }, session);
+      }
+
+      // Solo runs: raise the player's leaderboard entries
+      await recordLeaderboardRun(finished, session);
+
+      // Challenge runs: beating the challenger's score settles the challenge
+      const challenge = finished.gameType === 'challenge'
+        ? await recordChallengeRun(finished, score.total, session)
+        : null;
+
+      // Read last: achievement rewards may have changed the balance
+      const newBalance = await WalletService.getBalance(player._id, session);
+
+      const data = {
+        score,
         reward: {
           coins: coinReward
         },
-        newBalance: {
-          coins: user.coins,
-          gems: user.gems
-        },
+        newBalance,
         stats: {
-          gamesPlayed: user.gamesPlayed,
-          gamesWon: user.gamesWon,
-          bestScore: user.bestScore
+          gamesPlayed: player.gamesPlayed,
+          gamesWon: player.gamesWon,
+          bestScore: player.bestScore
         },
-        unlockedAchievements: unlockedAchievements || []
+        unlockedAchievements: unlockedAchievements || [],
+        ...(challenge && { challenge }),
+        ...(referral && { referralReward: referral.reward })
+      };
+
+      // Stored for retries with the same idempotency key
+      finished.finishResponse = JSON.parse(JSON.stringify(data));
+      await finished.save({ session });
+
+      return { ok: true, data };
+    });
+
+    if (!outcome.ok) {
+      // Lost the race to a retry of this same request: answer with its result
+      const current = await RunnerGame.findById(game._id).select('finishIdempotencyKey finishResponse');
+      if (current?.finishIdempotencyKey === idempotencyKey && current.finishResponse) {
+        return res.json({ success: true, data: current.finishResponse });
       }
+      return res.status(outcome.status).json({ success: false, error: outcome.error });
+    }
+
+    // Race runs rank on the validated result
+    if (game.gameType === 'race') {
+      recordRaceRun(game, {
+        score: score.total,
+        timeTaken: stats.timeTaken,
+        distance: stats.distanceTraveled,
+        didFinish: stats.didFinish
+      });
+    }
+
+    // Live leaderboard diffs for subscribers
+    publishFinishedRun({
+      _id: game._id,
+      userId: game.userId,
+      gameType: game.gameType,
+      didFinish: stats.didFinish,
+      finalScore: score.total,
+      distanceTraveled: stats.distanceTraveled,
+      maxArmy: stats.maxArmy,
+      coinsCollected: stats.coinsCollected,
+      timeTaken: stats.timeTaken
+    });
+
+    res.json({
+      success: true,
+      data: outcome.data
     });
   } catch (error) {
     console.error('Finish solo game error:', error);
@@ -239,74 +504,231 @@ export async function finishSoloGame(req: AuthRequest, res: Response) {
 }
 
 /**
- * Get leaderboard
+ * Get today's daily challenge with the player's attempts and standing
  */
-export async function getLeaderboard(req: AuthRequest, res: Response) {
+export async function getDailyChallenge(req: AuthRequest, res: Response) {
   try {
-    const { type = 'daily', limit = 100 } = req.query;
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
 
-    let dateFilter = {};
-    const now = new Date();
+    const challenge = await getOrCreateDailyChallenge();
 
-    switch (type) {
-      case 'daily':
-        dateFilter = {
-          finishedAt: {
-            $gte: new Date(now.getFullYear(), now.getMonth(), now.getDate())
-          }
-        };
-        break;
-      case 'weekly':
-        const weekAgo = new Date(now);
-        weekAgo.setDate(weekAgo.getDate() - 7);
-        dateFilter = { finishedAt: { $gte: weekAgo } };
-        break;
-      // 'alltime' has no date filter
-    }
-
-    // Aggregate top scores
-    const leaderboard = await RunnerGame.aggregate([
-      { $match: { status: 'finished', gameType: 'solo', ...dateFilter } },
-      {
-        $group: {
-          _id: '$userId',
-          highScore: { $max: '$finalScore' },
-          totalGames: { $sum: 1 },
-          totalWins: { $sum: { $cond: ['$didFinish', 1, 0] } }
-        }
-      },
-      { $sort: { highScore: -1 } },
-      { $limit: Number(limit) },
-      {
-        $lookup: {
-          from: 'users',
-          localField: '_id',
-          foreignField: '_id',
-          as: 'user'
-        }
-      },
-      { $unwind: '$user' },
-      {
-        $project: {
-          _id: 1,
-          username: '$user.username',
-          score: '$highScore',
-          skin: '$user.currentSkin',
-          totalGames: 1,
-          winRate: { $multiply: [{ $divide: ['$totalWins', '$totalGames'] }, 100] }
-        }
+    res.json({
+      success: true,
+      data: await getDailyChallengeInfo(challenge, user._id)
+    });
+  } catch (error) {
+    console.error('Get daily challenge error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get daily challenge' });
+  }
+}
+
+/**
+ * Start a daily challenge attempt: same seed, difficulty and upgrade preset
+ * for every player, limited attempts per day. Finished via finishSoloGame.
+ */
+export async function startDailyChallenge(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const challenge = await getOrCreateDailyChallenge();
+
+    if (!(await reserveAttempt(user._id, challenge.date))) {
+      return res.status(403).json({ success: false, error: 'No daily challenge attempts left' });
+    }
+
+    const game = new RunnerGame({
+      gameType: 'daily',
+      challengeDate: challenge.date,
+      userId: user._id,
+      trackSeed: challenge.trackSeed,
+      trackDifficulty: challenge.difficulty,
+      upgradeLevels: challenge.upgradeLevels,
+      status: 'in_progress'
+    });
+
+    // The attempt is given back whenever the run isn't created, errors included
+    let saved = false;
+    try {
+      await cancelOpenRuns(user._id);
+      saved = await saveNewRun(game);
+    } finally {
+      if (!saved) await releaseAttempt(user._id, challenge.date);
+    }
+
+    if (!saved) {
+      return res.status(409).json({ success: false, error: 'A run is already in progress' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...runStartData(game),
+        challenge: await getDailyChallengeInfo(challenge, user._id)
       }
-    ]);
+    });
+  } catch (error) {
+    console.error('Start daily challenge error:', error);
+    res.status(500).json({ success: false, error: 'Failed to start daily challenge' });
+  }
+}
+
+/**
+ * Get a daily challenge leaderboard
+ * Query: date (YYYY-MM-DD, default today), limit
+ */
+export async function getDailyLeaderboard(req: AuthRequest, res: Response) {
+  try {
+    const { date = getChallengeDate(), limit = 100 } = req.query;
+
+    if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return res.status(400).json({ success: false, error: 'Invalid date' });
+    }
+
+    const leaderboard = await getDailyChallengeLeaderboard(
+      date,
+      Math.min(Math.max(Number(limit) || 100, 1), 100),
+      req.user?._id
+    );
+
+    res.json({
+      success: true,
+      data: leaderboard
+    });
+  } catch (error) {
+    console.error('Get daily leaderboard error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get daily leaderboard' });
+  }
+}
 
-    // Add ranks
-    const rankedLeaderboard = leaderboard.map((entry, index) => ({
-      rank: index + 1,
-      ...entry
-    }));
+/**
+ * Get suggested ghosts to race (own best and leader)
+ */
+export async function getGhosts(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    res.json({
+      success: true,
+      data: await getGhostCandidates(user._id)
+    });
+  } catch (error) {
+    console.error('Get ghosts error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get ghosts' });
+  }
+}
+
+/**
+ * Get a run's ghost (replayed path and seed) by game id
+ */
+export async function getGhost(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const ghost = await getGhostRun(req.params.gameId, user._id);
+    if (!ghost) {
+      return res.status(404).json({ success: false, error: 'Ghost not found' });
+    }
+
+    res.json({
+      success: true,
+      data: ghost
+    });
+  } catch (error) {
+    console.error('Get ghost error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get ghost' });
+  }
+}
+
+/**
+ * Get a finished run's replay to watch as a spectator
+ */
+export async function getReplay(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const replay = await getReplayRun(req.params.gameId, user._id);
+    if (!replay) {
+      return res.status(404).json({ success: false, error: 'Replay not available' });
+    }
+
+    res.json({
+      success: true,
+      data: replay
+    });
+  } catch (error) {
+    console.error('Get replay error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get replay' });
+  }
+}
+
+/**
+ * Get leaderboard
+ * Query: type (daily, weekly, alltime), metric (score, distance, army, coins,
+ * fastest), scope (global, or friends: the caller and their friends only),
+ * limit (at most LIVE_BOARD_SIZE)
+ */
+export async function getLeaderboard(req: AuthRequest, res: Response) {
+  try {
+    const { type = 'daily', metric: metricParam = 'score', limit = LIVE_BOARD_SIZE } = req.query;
+    const period = LEADERBOARD_PERIODS.includes(type as LeaderboardPeriod) ? type as LeaderboardPeriod : 'alltime';
+    const metric = LEADERBOARD_METRICS.includes(metricParam as LeaderboardMetric)
+      ? metricParam as LeaderboardMetric
+      : 'score';
+
+    // Friends boards are small: all of them, ranked among themselves
+    if (req.query.scope === 'friends') {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ success: false, error: 'Not authenticated' });
+      }
+
+      const members = [user._id, ...user.friends];
+      const entries = await getTopEntries(metric, period, members.length, user._id, members);
+      const data: LeaderboardData = {
+        metric,
+        period,
+        scope: 'friends',
+        entries,
+        me: getBoardStanding(entries, user._id)
+      };
+      return res.json({ success: true, data });
+    }
+
+    // Top entries of the metric's board in the period's current bucket, capped at the live board size
+    const entries = await getTopEntries(
+      metric,
+      period,
+      Math.min(Math.max(Number(limit) || LIVE_BOARD_SIZE, 1), LIVE_BOARD_SIZE),
+      req.user?._id
+    );
+
+    // The caller's rank, percentile and neighbours, also when outside the top
+    const data: LeaderboardData = {
+      metric,
+      period,
+      scope: 'global',
+      entries,
+      me: req.user ? await getPlayerRank(metric, period, req.user._id) : null
+    };
 
     res.json({
       success: true,
-      data: rankedLeaderboard
+      data
     });
   } catch (error) {
     console.error('Get leaderboard error:', error);
@@ -343,7 +765,9 @@ export async function getPlayerStats(req: AuthRequest, res: Response) {
           totalDistance: user.totalDistance,
           totalCoinsCollected: user.totalCoinsCollected,
           highestArmy: user.highestArmy,
-          bestScore: user.bestScore
+          bestScore: user.bestScore,
+          challengesWon: user.challengesWon,
+          challengesLost: user.challengesLost
         },
         recentGames: recentGames.map(game => ({
           gameId: game._id,
@@ -0,0 +1,112 @@
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middleware/authMiddleware.js';
+import {
+  SeasonError,
+  SeasonErrorCode,
+  createSeason as scheduleSeason,
+  getPlacementHistory,
+  getSeasonStandings,
+  listSeasons
+} from '../service/seasonService.js';
+
+const DEFAULT_STANDINGS_LIMIT = 100;
+const MAX_STANDINGS_LIMIT = 100;
+
+const SEASON_ERROR_STATUS: Record<SeasonErrorCode, number> = {
+  season_not_found: 404,
+  invalid_season: 400,
+  overlapping_season: 409
+};
+
+/**
+ * List every season, newest first
+ */
+export async function getSeasons(req: Request, res: Response) {
+  try {
+    res.json({ success: true, data: await listSeasons() });
+  } catch (error) {
+    console.error('Get seasons error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get seasons' });
+  }
+}
+
+/**
+ * A season's standings: live while it runs, final once closed
+ * Query: limit (default 100, max 100)
+ */
+export async function getSeason(req: AuthRequest, res: Response) {
+  try {
+    const limit = Math.min(
+      MAX_STANDINGS_LIMIT,
+      Math.max(1, Math.floor(Number(req.query.limit) || DEFAULT_STANDINGS_LIMIT))
+    );
+
+    res.json({ success: true, data: await getSeasonStandings(req.params.seasonId, limit, req.user?._id) });
+  } catch (error) {
+    if (error instanceof SeasonError) {
+      return res.status(SEASON_ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+    }
+    console.error('Get season error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get season' });
+  }
+}
+
+/**
+ * The caller's final placements in past seasons
+ */
+export async function getSeasonHistory(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    res.json({ success: true, data: await getPlacementHistory(user._id) });
+  } catch (error) {
+    console.error('Get season history error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get season history' });
+  }
+}
+
+/**
+ * Schedule a season (admin)
+ * Body: { name, startsAt, endsAt, rewards? } with ISO dates;
+ * rewards: [{ maxRank, coins, gems }] by increasing maxRank
+ */
+export async function createSeason(req: AuthRequest, res: Response) {
+  try {
+    const { name, startsAt, endsAt, rewards } = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ success: false, error: 'name is required' });
+    }
+
+    const start = new Date(startsAt);
+    const end = new Date(endsAt);
+    if (typeof startsAt !== 'string' || typeof endsAt !== 'string' || isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return res.status(400).json({ success: false, error: 'startsAt and endsAt must be ISO dates' });
+    }
+
+    if (rewards !== undefined && !Array.isArray(rewards)) {
+      return res.status(400).json({ success: false, error: 'rewards must be an array' });
+    }
+
+    const season = await scheduleSeason({
+      name: name.trim(),
+      startsAt: start,
+      endsAt: end,
+      rewards: rewards?.map((tier: { maxRank?: unknown; coins?: unknown; gems?: unknown }) => ({
+        maxRank: Number(tier?.maxRank),
+        coins: Number(tier?.coins ?? 0),
+        gems: Number(tier?.gems ?? 0)
+      }))
+    });
+    res.json({ success: true, data: season });
+  } catch (error) {
+    if (error instanceof SeasonError) {
+      return res.status(SEASON_ERROR_STATUS[error.code]).json({ success: false, error: error.message });
+    }
+    console.error('Create season error:', error);
+    res.status(500).json({ success: false, error: 'Failed to create season' });
+  }
+}
@@ -1,7 +1,8 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/authMiddleware.js';
 import { User } from '../models/Users.js';
-import { Transaction } from '../models/Transactions.js';
+import { withTransaction, TxResult } from '../db/db.js';
+import * as WalletService from '../service/walletService.js';
 
 // Skins data
 const SKINS = {
@@ -50,56 +51,51 @@ export async function buySkin(req: AuthRequest, res: Response) {
       return res.status(400).json({ success: false, error: 'Invalid skin' });
     }
 
-    if (user.ownedSkins.includes(skinId)) {
-      return res.status(400).json({ success: false, error: 'Skin already owned' });
-    }
+    // Charge, ownership and ledger entry commit together
+    const outcome = await withTransaction(async (session): Promise<TxResult<WalletService.Balance>> => {
+      const player = await User.findById(user._id).session(session);
+      if (!player) {
+        return { ok: false, status: 404, error: 'User not found' };
+      }
 
-    // Check currency and deduct
-    if (skin.price.gems) {
-      if (user.gems < skin.price.gems) {
-        return res.status(400).json({ success: false, error: 'Insufficient gems' });
+      if (player.ownedSkins.includes(skinId)) {
+        return { ok: false, status: 400, error: 'Skin already owned' };
       }
-      const prevGems = user.gems;
-      user.gems -= skin.price.gems;
 
-      await Transaction.create({
-        userId: user._id,
-        type: 'shop_purchase',
-        currency: 'gems',
-        amount: -skin.price.gems,
-        balanceBefore: prevGems,
-        balanceAfter: user.gems,
-        description: `Purchased skin: ${skin.name}`,
-        relatedItemId: skinId
-      });
-    } else if (skin.price.coins) {
-      if (user.coins < skin.price.coins) {
-        return res.status(400).json({ success: false, error: 'Insufficient coins' });
+      // Check currency
+      if (skin.price.gems) {
+        if (player.gems < skin.price.gems) {
+          return { ok: false, status: 400, error: 'Insufficient gems' };
+        }
+      } else if (skin.price.coins) {
+        if (player.coins < skin.price.coins) {
+          return { ok: false, status: 400, error: 'Insufficient coins' };
+        }
       }
-      const prevCoins = user.coins;
-      user.coins -= skin.price.coins;
 
-      await Transaction.create({
-        userId: user._id,
+      // Deduct price
+      const { balance } = await WalletService.debit(player._id, skin.price, {
         type: 'shop_purchase',
-        currency: 'coins',
-        amount: -skin.price.coins,
-        balanceBefore: prevCoins,
-        balanceAfter: user.coins,
         description: `Purchased skin: ${skin.name}`,
         relatedItemId: skinId
-      });
-    }
+      }, session);
 
-    // Add skin to owned
-    user.ownedSkins.push(skinId);
-    await user.save();
+      // Add skin to owned
+      player.ownedSkins.push(skinId);
+      await player.save({ session });
+
+      return { ok: true, data: balance };
+    });
+
+    if (!outcome.ok) {
+      return res.status(outcome.status).json({ success: false, error: outcome.error });
+    }
 
     res.json({
       success: true,
       data: {
         skin: { ...skin, owned: true },
-        balance: { coins: user.coins, gems: user.gems }
+        balance: outcome.data
       }
     });
   } catch (error) {
@@ -156,64 +152,62 @@ export async function buyLootbox(req: AuthRequest, res: Response) {
       return res.status(400).json({ success: false, error: 'Invalid lootbox type' });
     }
 
-    if (user.gems < lootbox.price) {
-      return res.status(400).json({ success: false, error: 'Insufficient gems' });
-    }
-
-    // Deduct gems
-    const prevGems = user.gems;
-    user.gems -= lootbox.price;
-
-    // Generate reward
-    let reward: { type: 'coins' | 'skin'; value: number | string };
+    // Charge, reward and ledger entry commit together
+    const outcome = await withTransaction(async (session): Promise<TxResult<{
+      reward: { type: 'coins' | 'skin'; value: number | string };
+      balance: { coins: number; gems: number };
+    }>> => {
+      const player = await User.findById(user._id).session(session);
+      if (!player) {
+        return { ok: false, status: 404, error: 'User not found' };
+      }
 
-    if (Math.random() < lootbox.skinChance) {
-      // Win a skin
-      const skinsByRarity = Object.values(SKINS).filter(
-        s => s.rarity === lootbox.skinRarity && !user.ownedSkins.includes(s.id)
-      );
+      if (player.gems < lootbox.price) {
+        return { ok: false, status: 400, error: 'Insufficient gems' };
+      }
 
-      if (skinsByRarity.length > 0) {
-        const wonSkin = skinsByRarity[Math.floor(Math.random() * skinsByRarity.length)];
-        user.ownedSkins.push(wonSkin.id);
+      // Deduct gems
+      let { balance } = await WalletService.debit(player._id, { gems: lootbox.price }, {
+        type: 'shop_purchase',
+        description: `Opened ${type} lootbox`,
+        relatedItemId: `lootbox_${type}`
+      }, session);
+
+      // Generate reward
+      let reward: { type: 'coins' | 'skin'; value: number | string };
+      const wonSkins = Math.random() < lootbox.skinChance
+        ? Object.values(SKINS).filter(s => s.rarity === lootbox.skinRarity && !player.ownedSkins.includes(s.id))
+        : [];
+
+      if (wonSkins.length > 0) {
+        // Win a skin
+        const wonSkin = wonSkins[Math.floor(Math.random() * wonSkins.length)];
+        player.ownedSkins.push(wonSkin.id);
+        await player.save({ session });
         reward = { type: 'skin', value: wonSkin.id };
       } else {
-        // No skins available, give coins instead
+        // Win coins (also when no skins of that rarity are left)
         const coinAmount = Math.floor(
           Math.random() * (lootbox.coinRange[1] - lootbox.coinRange[0]) + lootbox.coinRange[0]
         );
-        user.coins += coinAmount;
+        ({ balance } = await WalletService.credit(player._id, { coins: coinAmount }, {
+          type: 'lootbox_reward',
+          description: `${type} lootbox reward`,
+          relatedItemId: `lootbox_${type}`
+        }, session));
         reward = { type: 'coins', value: coinAmount };
       }
-    } else {
-      // Win coins
-      const coinAmount = Math.floor(
-        Math.random() * (lootbox.coinRange[1] - lootbox.coinRange[0]) + lootbox.coinRange[0]
-      );
-      user.coins += coinAmount;
-      reward = { type: 'coins', value: coinAmount };
-    }
 
-    await user.save();
-
-    // Create transaction
-    await Transaction.create({
-      userId: user._id,
-      type: 'shop_purchase',
-      currency: 'gems',
-      amount: -lootbox.price,
-      balanceBefore: prevGems,
-      balanceAfter: user.gems,
-      description: `Opened ${type} lootbox`,
-      relatedItemId: `lootbox_${type}`
+      return { ok: true, data: { reward, balance } };
     });
 
+    if (!outcome.ok) {
+      return res.status(outcome.status).json({ success: false, error: outcome.error });
+    }
+
     res.json({
       success: true,
-      data: {
-        reward,
-        balance: { coins: user.coins, gems: user.gems }
-      }
+      data: outcome.data
     });
   } catch (error) {
     console.error('Buy lootbox error:', error);
@@ -0,0 +1,185 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest } from '../middleware/authMiddleware.js';
+import { Transaction, ITransaction, TRANSACTION_TYPES, CURRENCIES } from '../models/Transactions.js';
+import * as WalletService from '../service/walletService.js';
+import { csvField } from '../utils/csv.js';
+import type { WalletTransaction } from '@shared/types/game.types.js';
+
+// History paging and export limits
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_EXPORT_ROWS = 10000;
+
+const CSV_COLUMNS: Array<keyof WalletTransaction> = [
+  'createdAt', 'type', 'currency', 'amount', 'balanceBefore', 'balanceAfter', 'description',
+  'relatedGameId', 'relatedMissionId', 'relatedAchievementId', 'relatedItemId', 'id'
+];
+
+/**
+ * Build the Mongo filter for the current user's transactions from query params
+ * (type, currency, from, to, gameId, missionId, achievementId).
+ */
+function buildTransactionFilter(userId: mongoose.Types.ObjectId, query: AuthRequest['query']):
+  { filter: Record<string, unknown>; error?: undefined } | { error: string } {
+  const filter: Record<string, unknown> = { userId };
+  const { type, currency, from, to, gameId, missionId, achievementId } = query;
+
+  if (type !== undefined) {
+    if (!TRANSACTION_TYPES.includes(type as ITransaction['type'])) return { error: 'Invalid transaction type' };
+    filter.type = type;
+  }
+
+  if (currency !== undefined) {
+    if (!CURRENCIES.includes(currency as ITransaction['currency'])) return { error: 'Invalid currency' };
+    filter.currency = currency;
+  }
+
+  if (from !== undefined || to !== undefined) {
+    const range: Record<string, Date> = {};
+    if (from !== undefined) {
+      const date = new Date(String(from));
+      if (isNaN(date.getTime())) return { error: 'Invalid from date' };
+      range.$gte = date;
+    }
+    if (to !== undefined) {
+      const date = new Date(String(to));
+      if (isNaN(date.getTime())) return { error: 'Invalid to date' };
+      range.$lte = date;
+    }
+    filter.createdAt = range;
+  }
+
+  if (gameId !== undefined) {
+    if (!mongoose.isValidObjectId(gameId)) return { error: 'Invalid game ID' };
+    filter.relatedGameId = gameId;
+  }
+
+  if (missionId !== undefined) filter.relatedMissionId = String(missionId);
+  if (achievementId !== undefined) filter.relatedAchievementId = String(achievementId);
+
+  return { filter };
+}
+
+function formatTransaction(tx: ITransaction): WalletTransaction {
+  return {
+    id: tx._id.toString(),
+    type: tx.type,
+    currency: tx.currency,
+    amount: tx.amount,
+    balanceBefore: tx.balanceBefore,
+    balanceAfter: tx.balanceAfter,
+    description: tx.description,
+    relatedGameId: tx.relatedGameId?.toString(),
+    relatedMissionId: tx.relatedMissionId,
+    relatedAchievementId: tx.relatedAchievementId,
+    relatedItemId: tx.relatedItemId,
+    createdAt: tx.createdAt.toISOString()
+  };
+}
+
+/**
+ * Get coin and gem balance
+ */
+export async function getWalletBalance(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const balance = await WalletService.getBalance(user._id);
+
+    res.json({
+      success: true,
+      data: balance
+    });
+  } catch (error) {
+    console.error('Get wallet balance error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get balance' });
+  }
+}
+
+/**
+ * Get transaction history (newest first, paginated and filterable)
+ */
+export async function getTransactions(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const parsed = buildTransactionFilter(user._id, req.query);
+    if (parsed.error !== undefined) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+
+    const page = Math.max(1, Math.floor(Number(req.query.page) || 1));
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(Number(req.query.limit) || DEFAULT_PAGE_SIZE)));
+
+    const [transactions, total] = await Promise.all([
+      Transaction.find(parsed.filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Transaction.countDocuments(parsed.filter)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        transactions: transactions.map(formatTransaction),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get transactions error:', error);
+    res.status(500).json({ success: false, error: 'Failed to get transactions' });
+  }
+}
+
+/**
+ * Export transaction history as JSON or CSV (same filters as the history)
+ */
+export async function exportTransactions(req: AuthRequest, res: Response) {
+  try {
+    const user = req.user;
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not authenticated' });
+    }
+
+    const format = req.query.format ?? 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      return res.status(400).json({ success: false, error: 'Format must be csv or json' });
+    }
+
+    const parsed = buildTransactionFilter(user._id, req.query);
+    if (parsed.error !== undefined) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+
+    const transactions = (await Transaction.find(parsed.filter)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(MAX_EXPORT_ROWS))
+      .map(formatTransaction);
+
+    const filename = `coinrun-transactions-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'json') {
+      return res.json(transactions);
+    }
+
+    const rows = transactions.map(tx => CSV_COLUMNS.map(column => csvField(tx[column])).join(','));
+    res.type('text/csv').send([CSV_COLUMNS.join(','), ...rows].join('\r\n'));
+  } catch (error) {
+    console.error('Export transactions error:', error);
+    res.status(500).json({ success: false, error: 'Failed to export transactions' });
+  }
+}
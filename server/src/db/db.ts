@@ -1,12 +1,24 @@
-import mongoose from 'mongoose';
+import mongoose, { ClientSession } from 'mongoose';
 import { CONFIG } from '../config/enviroments';
 import { LOGGER } from '../log/logger';
 
-
+// Wallet, run and reward writes all use transactions, which a standalone
+// server rejects at the first write; refuse to start instead
+const assertReplicaSet = async (): Promise<void> => {
+  const hello = await mongoose.connection.db!.admin().command({ hello: 1 });
+  if (!hello.setName) {
+    await mongoose.disconnect();
+    throw new Error(
+      'MongoDB is not running as a replica set, but transactions require one. '
+      + 'See server/README.md to run a single-node replica set locally.'
+    );
+  }
+};
 
 export const connectToMongo = async (): Promise<void> => {
   try {
     await mongoose.connect(CONFIG.MONGO_URI);
+    await assertReplicaSet();
     LOGGER.info('[DB] Connected to MongoDB');
   } catch (error) {
     throw LOGGER.error('[DB] Connection failed:' + error);
@@ -20,3 +32,17 @@ export const disconnectFromMongo = async (): Promise<void> => {
   } catch (error) {
     throw LOGGER.error('[DB] Disconnection failed:' + error);}
 };
+
+// Result of a unit of work that can end in a client error without throwing
+export type TxResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; status: number; error: string; data?: unknown };
+
+/**
+ * Run fn inside a MongoDB transaction (requires a replica set).
+ * Writes made with `session` commit together or not at all. Mongoose retries
+ * fn on transient errors (e.g. write conflicts), so fn must re-read any
+ * document it modifies instead of reusing one loaded outside.
+ */
+export const withTransaction = <T>(fn: (session: ClientSession) => Promise<T>): Promise<T> =>
+  mongoose.connection.transaction(fn);
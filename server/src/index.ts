@@ -13,6 +13,14 @@ import { connectToMongo, disconnectFromMongo } from './db/db.js';
 import { CONFIG } from './config/enviroments.js';
 import { LOGGER } from './log/logger.js';
 import { corsOptions } from './helpers/cors.js';
+import { startRunSweeper, stopRunSweeper } from './service/runLifecycleService.js';
+import { startDailyChallengeScheduler, stopDailyChallengeScheduler } from './service/dailyChallengeService.js';
+import { startChallengeResolver, stopChallengeResolver } from './service/challengeService.js';
+import { startSeasonScheduler, stopSeasonScheduler } from './service/seasonService.js';
+import { startTrustRecovery, stopTrustRecovery } from './service/cheatFlagService.js';
+import { ensureReferralAchievement } from './service/referralService.js';
+import { stopRaceRooms } from './service/raceRoomService.js';
+import { stopMatchmaking } from './service/matchmakingService.js';
 
 const app = express();
 const server = http.createServer(app);
@@ -35,6 +43,12 @@ setupRunnerSocket(io);
 const startServer = async () => {
   try {
     await connectToMongo();
+    await ensureReferralAchievement();
+    startRunSweeper();
+    startDailyChallengeScheduler();
+    startChallengeResolver();
+    startSeasonScheduler();
+    startTrustRecovery();
     server.listen(CONFIG.PORT);
     LOGGER.info(`Server running on port ${CONFIG.PORT} in ${CONFIG.NODE_ENV} mode`);
   } catch (error) {
@@ -45,6 +59,13 @@ const startServer = async () => {
 
 const shutdown = async () => {
   LOGGER.info('Shutting down...');
+  stopRunSweeper();
+  stopDailyChallengeScheduler();
+  stopChallengeResolver();
+  stopSeasonScheduler();
+  stopTrustRecovery();
+  stopMatchmaking();
+  stopRaceRooms();
   server.close(async () => {
     await disconnectFromMongo();
     process.exit(0);
@@ -38,6 +38,14 @@ export async function authMiddleware(req: AuthRequest, res: Response, next: Next
   }
 }
 
+// Admin only - use after authMiddleware
+export function adminMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+  if (req.user?.role !== 'admin') {
+    return res.status(403).json({ success: false, error: 'Admin access required' });
+  }
+  next();
+}
+
 export function generateToken(userId: string): string {
   return jwt.sign({ userId }, JWT_SECRET, { expiresIn: '7d' });
 }
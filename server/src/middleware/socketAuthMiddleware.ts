@@ -7,33 +7,39 @@ export interface AuthenticatedSocket extends Socket {
   userId?: string;
 }
 
-export function setupSocketAuth(io: Server) {
-  io.use(async (socket: AuthenticatedSocket, next) => {
-    try {
-      const token = socket.handshake.auth.token || socket.handshake.query.token;
+/**
+ * Attach the token's user to the socket. Middleware registered with io.use
+ * only covers the main namespace, so each namespace registers it too.
+ */
+export async function authenticateSocket(socket: AuthenticatedSocket, next: (err?: Error) => void) {
+  try {
+    const token = socket.handshake.auth.token || socket.handshake.query.token;
+
+    if (!token) {
+      // Allow guest connections for now
+      return next();
+    }
 
-      if (!token) {
-        // Allow guest connections for now
-        return next();
-      }
+    const decoded = verifyToken(token as string);
 
-      const decoded = verifyToken(token as string);
+    if (!decoded) {
+      return next(new Error('Invalid token'));
+    }
 
-      if (!decoded) {
-        return next(new Error('Invalid token'));
-      }
+    const user = await User.findById(decoded.userId);
 
-      const user = await User.findById(decoded.userId);
+    if (!user) {
+      return next(new Error('User not found'));
+    }
 
-      if (!user) {
-        return next(new Error('User not found'));
-      }
+    socket.user = user;
+    socket.userId = decoded.userId;
+    next();
+  } catch (error) {
+    next(new Error('Authentication error'));
+  }
+}
 
-      socket.user = user;
-      socket.userId = decoded.userId;
-      next();
-    } catch (error) {
-      next(new Error('Authentication error'));
-    }
-  });
+export function setupSocketAuth(io: Server) {
+  io.use(authenticateSocket);
 }
@@ -6,7 +6,7 @@ export interface IAchievement extends Document {
   description: string;
   icon: string;
   requirement: {
-    type: 'games_played' | 'games_won' | 'total_coins' | 'total_distance' | 'highest_army' | 'best_score' | 'upgrade_level';
+    type: 'games_played' | 'games_won' | 'total_coins' | 'total_distance' | 'highest_army' | 'best_score' | 'upgrade_level' | 'referrals';
     target: number;
     upgradeType?: string; // For upgrade_level type
   };
@@ -29,7 +29,7 @@ const achievementSchema = new Schema<IAchievement>({
   requirement: {
     type: {
       type: String,
-      enum: ['games_played', 'games_won', 'total_coins', 'total_distance', 'highest_army', 'best_score', 'upgrade_level'],
+      enum: ['games_played', 'games_won', 'total_coins', 'total_distance', 'highest_army', 'best_score', 'upgrade_level', 'referrals'],
       required: true
     },
     target: { type: Number, required: true, min: 1 },
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IChallenge extends Document {
+  // Challenger's finished solo run: its seed and score are the target
+  challengerId: mongoose.Types.ObjectId;
+  challengerGameId: mongoose.Types.ObjectId;
+  challengerScore: number;
+  trackSeed: string;
+  trackDifficulty: number;
+
+  opponentId: mongoose.Types.ObjectId;
+
+  // Opponent's attempts on the seed (any number until expiresAt)
+  attempts: number;
+  opponentBestScore?: number;
+  opponentGameId?: mongoose.Types.ObjectId; // Run with opponentBestScore
+
+  // pending until the opponent beats the score (opponent wins), the time
+  // runs out (challenger wins), or the opponent declines (no result)
+  status: 'pending' | 'completed' | 'declined';
+  winner?: 'challenger' | 'opponent';
+  expiresAt: Date;
+  completedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const challengeSchema = new Schema<IChallenge>({
+  challengerId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  challengerGameId: { type: Schema.Types.ObjectId, ref: 'RunnerGame', required: true },
+  challengerScore: { type: Number, required: true },
+  trackSeed: { type: String, required: true },
+  trackDifficulty: { type: Number, required: true },
+
+  opponentId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+
+  attempts: { type: Number, default: 0, min: 0 },
+  opponentBestScore: { type: Number },
+  opponentGameId: { type: Schema.Types.ObjectId, ref: 'RunnerGame' },
+
+  status: { type: String, enum: ['pending', 'completed', 'declined'], default: 'pending' },
+  winner: { type: String, enum: ['challenger', 'opponent'] },
+  expiresAt: { type: Date, required: true },
+  completedAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+// Indexes
+challengeSchema.index({ opponentId: 1, status: 1, createdAt: -1 }); // Inbox and history
+challengeSchema.index({ challengerId: 1, status: 1, createdAt: -1 }); // Sent and history
+challengeSchema.index({ status: 1, expiresAt: 1 }); // Resolving expired challenges
+// One challenge per run and opponent
+challengeSchema.index({ challengerGameId: 1, opponentId: 1 }, { unique: true });
+
+export const Challenge = mongoose.model<IChallenge>('Challenge', challengeSchema);
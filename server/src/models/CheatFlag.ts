@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export type CheatRule = 'run_token' | 'elapsed_time' | 'result_bounds' | 'replay_mismatch';
+
+export interface ICheatFlag extends Document {
+  userId: mongoose.Types.ObjectId;
+  gameId?: mongoose.Types.ObjectId;
+  rule: CheatRule;
+  reason: string;
+
+  // What the client sent and what the server expected
+  payload: Record<string, unknown>;
+  expected?: Record<string, unknown>;
+
+  // Review
+  status: 'open' | 'cleared' | 'confirmed';
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  reviewNote?: string;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const cheatFlagSchema = new Schema<ICheatFlag>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  gameId: { type: Schema.Types.ObjectId, ref: 'RunnerGame' },
+  rule: {
+    type: String,
+    enum: ['run_token', 'elapsed_time', 'result_bounds', 'replay_mismatch'],
+    required: true
+  },
+  reason: { type: String, required: true },
+
+  payload: { type: Schema.Types.Mixed, default: {} },
+  expected: { type: Schema.Types.Mixed },
+
+  status: { type: String, enum: ['open', 'cleared', 'confirmed'], default: 'open' },
+  reviewedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  reviewedAt: { type: Date },
+  reviewNote: { type: String, maxlength: 500 }
+}, {
+  timestamps: true
+});
+
+// Indexes
+cheatFlagSchema.index({ userId: 1, createdAt: -1 }); // Trust score window
+cheatFlagSchema.index({ status: 1, createdAt: -1 }); // Review queue
+
+export const CheatFlag = mongoose.model<ICheatFlag>('CheatFlag', cheatFlagSchema);
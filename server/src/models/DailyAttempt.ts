@@ -0,0 +1,23 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IDailyAttempt extends Document {
+  userId: mongoose.Types.ObjectId;
+  date: string; // UTC day, YYYY-MM-DD
+  attempts: number; // Reserved before each daily run is created
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dailyAttemptSchema = new Schema<IDailyAttempt>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  date: { type: String, required: true },
+  attempts: { type: Number, default: 0, min: 0 }
+}, {
+  timestamps: true
+});
+
+// Indexes
+dailyAttemptSchema.index({ userId: 1, date: 1 }, { unique: true }); // One counter per player per day
+
+export const DailyAttempt = mongoose.model<IDailyAttempt>('DailyAttempt', dailyAttemptSchema);
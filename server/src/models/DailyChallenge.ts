@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IDailyChallenge extends Document {
+  date: string; // UTC day, YYYY-MM-DD
+  trackSeed: string;
+  difficulty: number;
+
+  // Upgrade preset every player runs with (BALANCE.dailyChallenge.PRESETS)
+  preset: string;
+  upgradeLevels: {
+    capacity: number;
+    addWarrior: number;
+    warriorUpgrade: number;
+    income: number;
+    speed: number;
+    jump: number;
+    bulletPower: number;
+    magnetRadius: number;
+  };
+
+  // Closed once the day is over and rewards are paid
+  status: 'open' | 'closed';
+  closedAt?: Date;
+  winners: Array<{
+    userId: mongoose.Types.ObjectId;
+    rank: number;
+    score: number;
+    reward: { coins: number; gems: number };
+  }>;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dailyChallengeSchema = new Schema<IDailyChallenge>({
+  date: { type: String, required: true, unique: true },
+  trackSeed: { type: String, required: true },
+  difficulty: { type: Number, required: true },
+
+  preset: { type: String, required: true },
+  upgradeLevels: {
+    capacity: { type: Number, default: 0 },
+    addWarrior: { type: Number, default: 0 },
+    warriorUpgrade: { type: Number, default: 0 },
+    income: { type: Number, default: 0 },
+    speed: { type: Number, default: 0 },
+    jump: { type: Number, default: 0 },
+    bulletPower: { type: Number, default: 0 },
+    magnetRadius: { type: Number, default: 0 }
+  },
+
+  status: { type: String, enum: ['open', 'closed'], default: 'open' },
+  closedAt: { type: Date },
+  winners: [{
+    _id: false,
+    userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    rank: { type: Number, required: true },
+    score: { type: Number, required: true },
+    reward: {
+      coins: { type: Number, default: 0 },
+      gems: { type: Number, default: 0 }
+    }
+  }]
+}, {
+  timestamps: true
+});
+
+// Indexes
+dailyChallengeSchema.index({ status: 1, date: 1 }); // Closing past days
+
+export const DailyChallenge = mongoose.model<IDailyChallenge>('DailyChallenge', dailyChallengeSchema);
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IFriendRequest extends Document {
+  fromId: mongoose.Types.ObjectId;
+  toId: mongoose.Types.ObjectId;
+
+  // pending until the recipient accepts or declines, or the sender cancels
+  status: 'pending' | 'accepted' | 'declined' | 'cancelled';
+  respondedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const friendRequestSchema = new Schema<IFriendRequest>({
+  fromId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  toId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+
+  status: { type: String, enum: ['pending', 'accepted', 'declined', 'cancelled'], default: 'pending' },
+  respondedAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+// Indexes
+friendRequestSchema.index({ toId: 1, status: 1, createdAt: -1 }); // Incoming
+friendRequestSchema.index({ fromId: 1, status: 1, createdAt: -1 }); // Outgoing
+// One pending request per sender and recipient
+friendRequestSchema.index(
+  { fromId: 1, toId: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+export const FriendRequest = mongoose.model<IFriendRequest>('FriendRequest', friendRequestSchema);
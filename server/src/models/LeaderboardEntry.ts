@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import type { LeaderboardMetric, LeaderboardPeriod } from '@shared/types/game.types.js';
+
+/**
+ * A player's best solo run on one metric in one leaderboard bucket, upserted
+ * when a run finishes so boards are read by index instead of aggregated from
+ * the runs.
+ */
+export interface ILeaderboardEntry extends Document {
+  metric: LeaderboardMetric;
+  period: LeaderboardPeriod;
+  // UTC day (YYYY-MM-DD), ISO week (YYYY-Www) or 'all'
+  bucket: string;
+  userId: mongoose.Types.ObjectId;
+
+  // Best run in the bucket and its metric value (lowest timeTaken for 'fastest')
+  score: number;
+  gameId: mongoose.Types.ObjectId;
+  achievedAt: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const leaderboardEntrySchema = new Schema<ILeaderboardEntry>({
+  metric: { type: String, enum: ['score', 'distance', 'army', 'coins', 'fastest'], required: true },
+  period: { type: String, enum: ['daily', 'weekly', 'alltime'], required: true },
+  bucket: { type: String, required: true },
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+
+  score: { type: Number, required: true },
+  gameId: { type: Schema.Types.ObjectId, ref: 'RunnerGame', required: true },
+  achievedAt: { type: Date, required: true }
+}, {
+  timestamps: true
+});
+
+// Indexes
+leaderboardEntrySchema.index({ metric: 1, period: 1, bucket: 1, userId: 1 }, { unique: true }); // One entry per player
+leaderboardEntrySchema.index({ metric: 1, period: 1, bucket: 1, score: -1, userId: 1 }); // Highest-first boards
+leaderboardEntrySchema.index({ metric: 1, period: 1, bucket: 1, score: 1, userId: 1 }); // Fastest finish
+
+export const LeaderboardEntry = mongoose.model<ILeaderboardEntry>('LeaderboardEntry', leaderboardEntrySchema);
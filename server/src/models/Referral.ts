@@ -0,0 +1,33 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IReferral extends Document {
+  referrerId: mongoose.Types.ObjectId; // Owner of the redeemed code
+  refereeId: mongoose.Types.ObjectId; // New account that redeemed it
+  code: string;
+  runsCompleted: number; // Runs finished since redeeming; only the finish transaction counts them
+
+  // pending until the referee has finished enough runs for both rewards
+  status: 'pending' | 'rewarded';
+  rewardedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const referralSchema = new Schema<IReferral>({
+  referrerId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  refereeId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  code: { type: String, required: true },
+  runsCompleted: { type: Number, default: 0, min: 0 },
+
+  status: { type: String, enum: ['pending', 'rewarded'], default: 'pending' },
+  rewardedAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+// Indexes
+referralSchema.index({ refereeId: 1 }, { unique: true }); // One referral per account
+referralSchema.index({ referrerId: 1, status: 1 }); // Referrer's counts
+
+export const Referral = mongoose.model<IReferral>('Referral', referralSchema);
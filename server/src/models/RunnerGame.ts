@@ -1,7 +1,20 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import type { GhostTrack, ScoreBreakdown } from '@shared/types/game.types.js';
+
+// Stats compared during server replay
+export interface IRunStats {
+  coinsCollected: number;
+  maxArmy: number;
+  distanceTraveled: number;
+  timeTaken: number;
+  didFinish: boolean;
+}
 
 export interface IRunnerGame extends Document {
-  gameType: 'solo'; // Only solo mode - 1v1 betting removed
+  gameType: 'solo' | 'daily' | 'challenge' | 'race'; // No wagering - 1v1 betting removed
+  challengeDate?: string; // Daily challenge day (YYYY-MM-DD, UTC) for 'daily' runs
+  challengeId?: mongoose.Types.ObjectId; // Async friend challenge for 'challenge' runs
+  raceId?: string; // Race room code for 'race' runs (one run per racer)
 
   // Single player result (solo only)
   userId: mongoose.Types.ObjectId;
@@ -13,6 +26,7 @@ export interface IRunnerGame extends Document {
   didFinish: boolean;
   enemiesKilled: number;
   perfectGates: number;
+  scoreBreakdown?: ScoreBreakdown;
 
   // Snapshot of upgrade levels at game start
   upgradeLevels: {
@@ -29,18 +43,60 @@ export interface IRunnerGame extends Document {
   trackSeed: string;
   trackDifficulty: number;
 
+  // Recorded horizontal inputs (ms of run time), replayed on finish
+  inputLog: Array<{
+    direction: 'left' | 'right' | 'stop';
+    timestamp: number;
+  }>;
+
+  // Outcome of the server replay
+  validation?: {
+    status: 'valid' | 'corrected' | 'rejected';
+    reason?: string;
+    claimed: IRunStats;
+    simulated: IRunStats;
+  };
+
+  // Replayed path for ghost racing (accepted runs only); not selected by default
+  ghost?: GhostTrack;
+  ghostGameId?: mongoose.Types.ObjectId; // Ghost raced in this run
+
+  // Client key of the finish request that closed the run, and the response
+  // it got, so a retried finish returns the same result instead of paying twice
+  finishIdempotencyKey?: string;
+  finishResponse?: Record<string, unknown>;
+
   startedAt: Date;
   finishedAt?: Date;
   duration?: number;
 
-  status: 'pending' | 'in_progress' | 'finished' | 'cancelled';
+  status: 'pending' | 'in_progress' | 'finished' | 'cancelled' | 'rejected';
+  cancelReason?: 'expired' | 'replaced' | 'forfeit'; // Deadline passed, a new run was started, or the racer left
 
   createdAt: Date;
   updatedAt: Date;
 }
 
+const runStatsSchema = new Schema<IRunStats>({
+  coinsCollected: { type: Number, default: 0 },
+  maxArmy: { type: Number, default: 0 },
+  distanceTraveled: { type: Number, default: 0 },
+  timeTaken: { type: Number, default: 0 },
+  didFinish: { type: Boolean, default: false }
+}, { _id: false });
+
+const ghostTrackSchema = new Schema<GhostTrack>({
+  interval: { type: Number, required: true },
+  x: [Number],
+  z: [Number],
+  army: [Number]
+}, { _id: false });
+
 const runnerGameSchema = new Schema<IRunnerGame>({
-  gameType: { type: String, enum: ['solo'], default: 'solo', required: true },
+  gameType: { type: String, enum: ['solo', 'daily', 'challenge', 'race'], default: 'solo', required: true },
+  challengeDate: { type: String },
+  challengeId: { type: Schema.Types.ObjectId, ref: 'Challenge' },
+  raceId: { type: String },
 
   // Solo player data
   userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
@@ -52,6 +108,15 @@ const runnerGameSchema = new Schema<IRunnerGame>({
   didFinish: { type: Boolean, default: false },
   enemiesKilled: { type: Number, default: 0 },
   perfectGates: { type: Number, default: 0 },
+  scoreBreakdown: {
+    distance: { type: Number },
+    coins: { type: Number },
+    army: { type: Number },
+    timeBonus: { type: Number },
+    enemies: { type: Number },
+    perfectGates: { type: Number },
+    total: { type: Number }
+  },
 
   // Snapshot of upgrade levels at game start (for anti-cheat)
   upgradeLevels: {
@@ -68,11 +133,31 @@ const runnerGameSchema = new Schema<IRunnerGame>({
   trackSeed: { type: String, required: true },
   trackDifficulty: { type: Number, default: 1 },
 
+  // Replay data (for anti-cheat)
+  inputLog: [{
+    _id: false,
+    direction: { type: String, enum: ['left', 'right', 'stop'], required: true },
+    timestamp: { type: Number, required: true }
+  }],
+  validation: {
+    status: { type: String, enum: ['valid', 'corrected', 'rejected'] },
+    reason: { type: String },
+    claimed: runStatsSchema,
+    simulated: runStatsSchema
+  },
+  ghost: { type: ghostTrackSchema, select: false },
+  ghostGameId: { type: Schema.Types.ObjectId, ref: 'RunnerGame' },
+
+  // Finish idempotency
+  finishIdempotencyKey: { type: String },
+  finishResponse: { type: Schema.Types.Mixed },
+
   startedAt: { type: Date, default: Date.now },
   finishedAt: { type: Date },
   duration: { type: Number },
 
-  status: { type: String, enum: ['pending', 'in_progress', 'finished', 'cancelled'], default: 'pending' }
+  status: { type: String, enum: ['pending', 'in_progress', 'finished', 'cancelled', 'rejected'], default: 'pending' },
+  cancelReason: { type: String, enum: ['expired', 'replaced', 'forfeit'] }
 }, {
   timestamps: true
 });
@@ -82,5 +167,11 @@ runnerGameSchema.index({ userId: 1 });
 runnerGameSchema.index({ userId: 1, startedAt: -1 }); // For user game history
 runnerGameSchema.index({ startedAt: -1 });
 runnerGameSchema.index({ status: 1 });
+runnerGameSchema.index({ status: 1, startedAt: 1 }); // Stale run sweeper
+runnerGameSchema.index({ challengeDate: 1, userId: 1 }, { sparse: true }); // Daily attempts and leaderboard
+runnerGameSchema.index({ gameType: 1, status: 1, finalScore: -1 }); // Ghost candidates (best runs)
+runnerGameSchema.index({ gameType: 1, status: 1, finishedAt: 1 }); // Season standings
+// At most one open run per player
+runnerGameSchema.index({ userId: 1, status: 1 }, { unique: true, partialFilterExpression: { status: 'in_progress' } });
 
 export const RunnerGame = mongoose.model<IRunnerGame>('RunnerGame', runnerGameSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ISeasonRewardTier {
+  maxRank: number; // Inclusive
+  coins: number;
+  gems: number;
+}
+
+export interface ISeason extends Document {
+  name: string;
+  // Solo runs finished in [startsAt, endsAt) count
+  startsAt: Date;
+  endsAt: Date;
+
+  // Copied from BALANCE.season.REWARDS unless set when created
+  rewards: ISeasonRewardTier[];
+
+  // closing once the final standings are archived (SeasonResult), closed
+  // once their rewards are paid
+  status: 'open' | 'closing' | 'closed';
+  closedAt?: Date;
+  totalPlayers?: number;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const seasonSchema = new Schema<ISeason>({
+  name: { type: String, required: true, trim: true, maxlength: 50 },
+  startsAt: { type: Date, required: true },
+  endsAt: { type: Date, required: true },
+
+  rewards: [{
+    _id: false,
+    maxRank: { type: Number, required: true, min: 1 },
+    coins: { type: Number, default: 0, min: 0 },
+    gems: { type: Number, default: 0, min: 0 }
+  }],
+
+  status: { type: String, enum: ['open', 'closing', 'closed'], default: 'open' },
+  closedAt: { type: Date },
+  totalPlayers: { type: Number, min: 0 }
+}, {
+  timestamps: true
+});
+
+// Indexes
+seasonSchema.index({ startsAt: -1 }); // Listing, newest first
+seasonSchema.index({ status: 1, endsAt: 1 }); // Closing ended seasons
+
+export const Season = mongoose.model<ISeason>('Season', seasonSchema);
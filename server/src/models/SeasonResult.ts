@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A player's final placement in a closed season, frozen when it closes
+export interface ISeasonResult extends Document {
+  seasonId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  rank: number;
+  score: number;
+
+  // As they were at the close
+  username: string;
+  skin: string;
+
+  reward?: { coins: number; gems: number }; // Unset outside the reward tiers
+  paidAt?: Date; // Set in the same transaction that pays the reward
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const seasonResultSchema = new Schema<ISeasonResult>({
+  seasonId: { type: Schema.Types.ObjectId, ref: 'Season', required: true },
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  rank: { type: Number, required: true, min: 1 },
+  score: { type: Number, required: true },
+
+  username: { type: String, required: true },
+  skin: { type: String, default: 'default' },
+
+  reward: {
+    type: {
+      _id: false,
+      coins: { type: Number, default: 0 },
+      gems: { type: Number, default: 0 }
+    },
+    default: undefined
+  },
+  paidAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+// Indexes
+seasonResultSchema.index({ seasonId: 1, rank: 1 }); // Final standings
+seasonResultSchema.index({ seasonId: 1, userId: 1 }, { unique: true });
+seasonResultSchema.index({ userId: 1, createdAt: -1 }); // Placement history
+
+export const SeasonResult = mongoose.model<ISeasonResult>('SeasonResult', seasonResultSchema);
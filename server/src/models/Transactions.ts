@@ -1,9 +1,16 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import type { Currency, TransactionType } from '@shared/types/game.types.js';
+
+export const TRANSACTION_TYPES: TransactionType[] = [
+  'game_reward', 'mission_reward', 'achievement_reward', 'upgrade_purchase',
+  'shop_purchase', 'lootbox_reward', 'daily_challenge_reward', 'season_reward', 'referral', 'transfer'
+];
+export const CURRENCIES: Currency[] = ['coins', 'gems'];
 
 export interface ITransaction extends Document {
   userId: mongoose.Types.ObjectId;
-  type: 'game_reward' | 'mission_reward' | 'achievement_reward' | 'upgrade_purchase' | 'shop_purchase' | 'referral';
-  currency: 'coins' | 'gems'; // VIRTUAL ONLY - NO USDT
+  type: TransactionType;
+  currency: Currency; // VIRTUAL ONLY - NO USDT
   amount: number;
   balanceBefore: number;
   balanceAfter: number;
@@ -21,10 +28,10 @@ const transactionSchema = new Schema<ITransaction>({
   userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   type: {
     type: String,
-    enum: ['game_reward', 'mission_reward', 'achievement_reward', 'upgrade_purchase', 'shop_purchase', 'referral'],
+    enum: TRANSACTION_TYPES,
     required: true
   },
-  currency: { type: String, enum: ['coins', 'gems'], required: true },
+  currency: { type: String, enum: CURRENCIES, required: true },
   amount: { type: Number, required: true },
   balanceBefore: { type: Number, required: true },
   balanceAfter: { type: Number, required: true },
@@ -40,6 +47,7 @@ const transactionSchema = new Schema<ITransaction>({
 
 // Indexes
 transactionSchema.index({ userId: 1, createdAt: -1 });
+transactionSchema.index({ userId: 1, type: 1, createdAt: -1 }); // Filtered wallet history
 transactionSchema.index({ type: 1 });
 transactionSchema.index({ currency: 1 });
 
@@ -45,8 +45,10 @@ export interface IUser extends Document {
   email: string;
   googleId: string;
   avatar?: string;
+  role: 'player' | 'admin';
 
   // Balances (VIRTUAL CURRENCIES ONLY - NO CRYPTO)
+  // Change only through service/walletService.ts so every change is ledgered
   coins: number;
   gems: number;
 
@@ -58,6 +60,13 @@ export interface IUser extends Document {
   highestArmy: number;
   bestScore: number;
 
+  // Async challenge results (service/challengeService.ts)
+  challengesWon: number;
+  challengesLost: number;
+
+  // Anti-cheat: 0-100, recalculated from recent cheat flags (service/cheatFlagService.ts)
+  trustScore: number;
+
   // Upgrades (INFINITE LEVELS - no max)
   upgrades: IUpgrades;
 
@@ -78,10 +87,11 @@ export interface IUser extends Document {
   // Settings
   settings: ISettings;
 
-  // Social (Future feature)
+  // Social: friendships are symmetric (service/friendService.ts)
   friends: mongoose.Types.ObjectId[];
   referralCode: string;
-  referredBy?: string;
+  referredBy?: string; // Referrer's user id, once a code is redeemed (service/referralService.ts)
+  lastSeenAt?: Date; // Last socket disconnect (service/presenceService.ts)
 
   createdAt: Date;
   updatedAt: Date;
@@ -136,6 +146,7 @@ const userSchema = new Schema<IUser>({
   email: { type: String, required: true, lowercase: true, trim: true },
   googleId: { type: String, required: true },
   avatar: { type: String },
+  role: { type: String, enum: ['player', 'admin'], default: 'player' },
 
   // Balances - VIRTUAL ONLY (NO CRYPTO!)
   coins: { type: Number, default: 1000, min: 0 },
@@ -148,6 +159,11 @@ const userSchema = new Schema<IUser>({
   totalCoinsCollected: { type: Number, default: 0, min: 0 },
   highestArmy: { type: Number, default: 0, min: 0 },
   bestScore: { type: Number, default: 0, min: 0 },
+  challengesWon: { type: Number, default: 0, min: 0 },
+  challengesLost: { type: Number, default: 0, min: 0 },
+
+  // Anti-cheat
+  trustScore: { type: Number, default: 100, min: 0, max: 100 },
 
   // Upgrades - INFINITE LEVELS
   upgrades: { type: upgradesSchema, default: () => ({}) },
@@ -169,10 +185,11 @@ const userSchema = new Schema<IUser>({
   // Settings
   settings: { type: settingsSchema, default: () => ({}) },
 
-  // Social (Future)
+  // Social
   friends: [{ type: Schema.Types.ObjectId, ref: 'User' }],
   referralCode: { type: String },
-  referredBy: { type: String }
+  referredBy: { type: String },
+  lastSeenAt: { type: Date }
 }, {
   timestamps: true
 });
@@ -205,5 +222,6 @@ userSchema.index({ username: 1 }, { unique: true });
 userSchema.index({ email: 1 }, { unique: true });
 userSchema.index({ googleId: 1 }, { unique: true });
 userSchema.index({ referralCode: 1 }, { unique: true, sparse: true });
+userSchema.index({ trustScore: 1 });
 
 export const User = mongoose.model<IUser>('User', userSchema);
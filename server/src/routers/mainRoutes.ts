@@ -1,8 +1,19 @@
 import { Router } from 'express';
-import { authMiddleware, optionalAuthMiddleware } from '../middleware/authMiddleware.js';
+import { authMiddleware, optionalAuthMiddleware, adminMiddleware } from '../middleware/authMiddleware.js';
 
 // Runner controllers
-import { startSoloGame, finishSoloGame, getLeaderboard, getPlayerStats } from '../controllers/runnerController.js';
+import {
+  startSoloGame,
+  finishSoloGame,
+  getLeaderboard,
+  getPlayerStats,
+  getDailyChallenge,
+  startDailyChallenge,
+  getDailyLeaderboard,
+  getGhosts,
+  getGhost,
+  getReplay
+} from '../controllers/runnerController.js';
 
 // Upgrade controllers
 import { getUpgrades, purchaseUpgrade } from '../controllers/upgradeController.js';
@@ -16,21 +27,58 @@ import { getMissions, claimMission } from '../controllers/missionController.js';
 // Achievement controllers
 import { getAchievements } from '../controllers/achievementController.js';
 
+// Challenge controllers
+import { getChallenges, createChallenge, startChallengeGame, declineChallenge } from '../controllers/challengeController.js';
+
+// Friend controllers
+import {
+  getFriends,
+  sendFriendRequest,
+  acceptRequest,
+  declineRequest,
+  cancelRequest,
+  removeFriend
+} from '../controllers/friendController.js';
+
+// Referral controllers
+import { getReferrals, redeemReferral } from '../controllers/referralController.js';
+
+// Season controllers
+import { getSeasons, getSeason, getSeasonHistory, createSeason } from '../controllers/seasonController.js';
+
 // Settings controllers
 import { getSettings, updateSettings } from '../controllers/settingsController.js';
 
+// Wallet controllers
+import { getWalletBalance, getTransactions, exportTransactions } from '../controllers/walletController.js';
+
+// Admin controllers
+import { getCheatFlags, reviewFlag } from '../controllers/adminController.js';
+
+// Config controllers
+import { getConfig } from '../controllers/configController.js';
+
 import authRouter from './authRoutes.js';
 
 const router = Router();
 
 router.use('/auth', authRouter);
 
+// ==================== Config Routes ====================
+router.get('/config', getConfig);
 
 // ==================== Runner Game Routes ====================
 router.post('/runner/solo', authMiddleware, startSoloGame);
 router.post('/runner/solo/finish', authMiddleware, finishSoloGame);
 router.get('/runner/leaderboard', optionalAuthMiddleware, getLeaderboard);
 router.get('/runner/stats', authMiddleware, getPlayerStats);
+// Daily challenge runs are finished through /runner/solo/finish
+router.get('/runner/daily', authMiddleware, getDailyChallenge);
+router.post('/runner/daily', authMiddleware, startDailyChallenge);
+router.get('/runner/daily/leaderboard', optionalAuthMiddleware, getDailyLeaderboard);
+router.get('/runner/ghosts', authMiddleware, getGhosts);
+router.get('/runner/ghosts/:gameId', authMiddleware, getGhost);
+router.get('/runner/replays/:gameId', authMiddleware, getReplay);
 
 // ==================== Upgrade Routes ====================
 router.get('/upgrades', authMiddleware, getUpgrades);
@@ -50,8 +98,43 @@ router.post('/missions/claim', authMiddleware, claimMission);
 // ==================== Achievement Routes ====================
 router.get('/achievements', authMiddleware, getAchievements);
 
+// ==================== Wallet Routes ====================
+router.get('/wallet/balance', authMiddleware, getWalletBalance);
+router.get('/wallet/transactions', authMiddleware, getTransactions);
+router.get('/wallet/transactions/export', authMiddleware, exportTransactions);
+
+// ==================== Challenge Routes ====================
+// Challenge runs are finished through /runner/solo/finish
+router.get('/challenges', authMiddleware, getChallenges);
+router.post('/challenges', authMiddleware, createChallenge);
+router.post('/challenges/:challengeId/start', authMiddleware, startChallengeGame);
+router.post('/challenges/:challengeId/decline', authMiddleware, declineChallenge);
+
+// ==================== Friend Routes ====================
+router.get('/friends', authMiddleware, getFriends);
+router.post('/friends/requests', authMiddleware, sendFriendRequest);
+router.post('/friends/requests/:requestId/accept', authMiddleware, acceptRequest);
+router.post('/friends/requests/:requestId/decline', authMiddleware, declineRequest);
+router.post('/friends/requests/:requestId/cancel', authMiddleware, cancelRequest);
+router.delete('/friends/:friendId', authMiddleware, removeFriend);
+
+// ==================== Referral Routes ====================
+// Referral rewards are paid through /runner/solo/finish
+router.get('/referrals', authMiddleware, getReferrals);
+router.post('/referrals/redeem', authMiddleware, redeemReferral);
+
+// ==================== Season Routes ====================
+router.get('/seasons', getSeasons);
+router.get('/seasons/history', authMiddleware, getSeasonHistory);
+router.get('/seasons/:seasonId', optionalAuthMiddleware, getSeason);
+
 // ==================== Settings Routes ====================
 router.get('/settings', authMiddleware, getSettings);
 router.put('/settings', authMiddleware, updateSettings);
 
+// ==================== Admin Routes ====================
+router.get('/admin/cheat-flags', authMiddleware, adminMiddleware, getCheatFlags);
+router.post('/admin/cheat-flags/:flagId/review', authMiddleware, adminMiddleware, reviewFlag);
+router.post('/admin/seasons', authMiddleware, adminMiddleware, createSeason);
+
 export default router;
@@ -0,0 +1,27 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { connectToMongo, disconnectFromMongo } from '../db/db.js';
+import { LOGGER } from '../log/logger.js';
+import { Achievement } from '../models/Achievement.js';
+import { REFERRAL_ACHIEVEMENT } from '../service/referralService.js';
+
+/**
+ * Reset the refer_5 achievement to its definition in referralService. The
+ * server creates it on startup when missing; this also overwrites edits.
+ * Usage: npm run achievements:referral
+ */
+const run = async () => {
+  try {
+    await connectToMongo();
+    const { achievementId, ...definition } = REFERRAL_ACHIEVEMENT;
+    await Achievement.updateOne({ achievementId }, { $set: definition }, { upsert: true });
+    LOGGER.info('[Achievements] refer_5 is up to date');
+    await disconnectFromMongo();
+  } catch (error) {
+    LOGGER.error('[Achievements] refer_5 update failed: ' + error);
+    process.exit(1);
+  }
+}
+
+run();
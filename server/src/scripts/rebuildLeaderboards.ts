@@ -0,0 +1,27 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { connectToMongo, disconnectFromMongo } from '../db/db.js';
+import { LOGGER } from '../log/logger.js';
+import { LeaderboardEntry } from '../models/LeaderboardEntry.js';
+import { rebuildLeaderboards } from '../service/leaderboardService.js';
+
+/**
+ * Regenerate the LeaderboardEntry collection from every finished solo run.
+ * Usage: npm run leaderboard:rebuild
+ */
+const run = async () => {
+  try {
+    await connectToMongo();
+    // Replaces indexes left by older versions of the entry schema
+    await LeaderboardEntry.syncIndexes();
+    const count = await rebuildLeaderboards();
+    LOGGER.info(`[Leaderboard] Rebuilt ${count} entries`);
+    await disconnectFromMongo();
+  } catch (error) {
+    LOGGER.error('[Leaderboard] Rebuild failed: ' + error);
+    process.exit(1);
+  }
+}
+
+run();
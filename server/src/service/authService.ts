@@ -83,7 +83,9 @@ export function formatFullUserResponse(user: IUser) {
             totalDistance: user.totalDistance,
             totalCoinsCollected: user.totalCoinsCollected,
             highestArmy: user.highestArmy,
-            bestScore: user.bestScore
+            bestScore: user.bestScore,
+            challengesWon: user.challengesWon,
+            challengesLost: user.challengesLost
         },
         currentSkin: user.currentSkin,
         ownedSkins: user.ownedSkins,
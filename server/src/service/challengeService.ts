@@ -0,0 +1,269 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Challenge, IChallenge } from '../models/Challenge.js';
+import { RunnerGame, IRunnerGame } from '../models/RunnerGame.js';
+import { User, IUser } from '../models/Users.js';
+import { withTransaction } from '../db/db.js';
+import { LOGGER } from '../log/logger.js';
+import { RUN_DEADLINE_MS } from './runLifecycleService.js';
+import type { ChallengeBox, ChallengePage, ChallengeRunResult, ChallengeSummary } from '@shared/types/game.types.js';
+
+export const CHALLENGE_DURATION_MS = 24 * 60 * 60 * 1000;
+const MAX_PENDING_SENT = 20; // Open challenges a player can have out at once
+const RESOLVE_INTERVAL_MS = 60 * 1000;
+
+let resolveTimer: NodeJS.Timeout | null = null;
+
+export type ChallengeErrorCode =
+    | 'game_not_found'
+    | 'opponent_not_found'
+    | 'self_challenge'
+    | 'already_challenged'
+    | 'too_many_pending'
+    | 'challenge_not_found'
+    | 'challenge_closed';
+
+export class ChallengeError extends Error {
+    constructor(public code: ChallengeErrorCode, message: string) {
+        super(message);
+        this.name = 'ChallengeError';
+    }
+}
+
+type Participant = Pick<IUser, '_id' | 'username'>;
+type PopulatedChallenge = Omit<IChallenge, 'challengerId' | 'opponentId'> & {
+    challengerId: Participant | null;
+    opponentId: Participant | null;
+};
+
+const toParticipant = (user: Participant | null) => ({
+    id: user?._id.toString() ?? '',
+    username: user?.username ?? 'Unknown' // Account may have been deleted
+});
+
+const toSummary = (challenge: PopulatedChallenge): ChallengeSummary => ({
+    id: challenge._id.toString(),
+    challenger: toParticipant(challenge.challengerId),
+    opponent: toParticipant(challenge.opponentId),
+    challengerScore: challenge.challengerScore,
+    opponentBestScore: challenge.opponentBestScore ?? null,
+    attempts: challenge.attempts,
+    status: challenge.status,
+    winner: challenge.winner ?? null,
+    expiresAt: challenge.expiresAt.toISOString(),
+    completedAt: challenge.completedAt?.toISOString() ?? null,
+    createdAt: challenge.createdAt.toISOString()
+});
+
+const toRunResult = (challenge: IChallenge): ChallengeRunResult => ({
+    challengeId: challenge._id.toString(),
+    status: challenge.status,
+    winner: challenge.winner ?? null,
+    challengerScore: challenge.challengerScore,
+    opponentBestScore: challenge.opponentBestScore ?? null
+});
+
+// Win/loss counters on both profiles
+const recordResult = async (challenge: IChallenge, session: ClientSession): Promise<void> => {
+    const [winnerId, loserId] = challenge.winner === 'opponent'
+        ? [challenge.opponentId, challenge.challengerId]
+        : [challenge.challengerId, challenge.opponentId];
+
+    await User.updateOne({ _id: winnerId }, { $inc: { challengesWon: 1 } }, { session });
+    await User.updateOne({ _id: loserId }, { $inc: { challengesLost: 1 } }, { session });
+}
+
+/**
+ * Challenge a player (by username) to beat one of the caller's finished solo runs.
+ */
+export const createChallenge = async (
+    challengerId: mongoose.Types.ObjectId,
+    gameId: string,
+    opponentUsername: string
+): Promise<ChallengeSummary> => {
+    const game = mongoose.isValidObjectId(gameId)
+        ? await RunnerGame.findOne({ _id: gameId, userId: challengerId, gameType: 'solo', status: 'finished' })
+        : null;
+    if (!game) throw new ChallengeError('game_not_found', 'Run not found');
+
+    const opponent = await User.findOne({ username: opponentUsername }).select('_id');
+    if (!opponent) throw new ChallengeError('opponent_not_found', 'Player not found');
+    if (opponent._id.equals(challengerId)) throw new ChallengeError('self_challenge', 'You cannot challenge yourself');
+
+    const pending = await Challenge.countDocuments({ challengerId, status: 'pending' });
+    if (pending >= MAX_PENDING_SENT) {
+        throw new ChallengeError('too_many_pending', `At most ${MAX_PENDING_SENT} open challenges at a time`);
+    }
+
+    let challenge: IChallenge;
+    try {
+        challenge = await Challenge.create({
+            challengerId,
+            challengerGameId: game._id,
+            challengerScore: game.finalScore,
+            trackSeed: game.trackSeed,
+            trackDifficulty: game.trackDifficulty,
+            opponentId: opponent._id,
+            expiresAt: new Date(Date.now() + CHALLENGE_DURATION_MS)
+        });
+    } catch (error) {
+        if ((error as { code?: number }).code === 11000) {
+            throw new ChallengeError('already_challenged', 'This player was already challenged with this run');
+        }
+        throw error;
+    }
+
+    return getChallengeSummary(challenge._id);
+}
+
+export const getChallengeSummary = async (challengeId: mongoose.Types.ObjectId): Promise<ChallengeSummary> => {
+    const challenge = await Challenge.findById(challengeId)
+        .orFail()
+        .populate<{ challengerId: Participant | null; opponentId: Participant | null }>([
+            { path: 'challengerId', select: 'username' },
+            { path: 'opponentId', select: 'username' }
+        ]);
+    return toSummary(challenge);
+}
+
+/**
+ * The opponent's pending challenge, still inside its time window.
+ */
+export const getOpenChallenge = async (challengeId: string, opponentId: mongoose.Types.ObjectId): Promise<IChallenge> => {
+    const challenge = mongoose.isValidObjectId(challengeId)
+        ? await Challenge.findOne({ _id: challengeId, opponentId })
+        : null;
+    if (!challenge) throw new ChallengeError('challenge_not_found', 'Challenge not found');
+
+    if (challenge.status !== 'pending' || challenge.expiresAt <= new Date()) {
+        throw new ChallengeError('challenge_closed', 'Challenge is over');
+    }
+
+    return challenge;
+}
+
+export const countAttempt = (challengeId: mongoose.Types.ObjectId) =>
+    Challenge.updateOne({ _id: challengeId }, { $inc: { attempts: 1 } });
+
+/**
+ * Record a finished challenge run inside the finish transaction. Beating
+ * the challenger's score completes the challenge as an opponent win.
+ */
+export const recordChallengeRun = async (
+    game: IRunnerGame,
+    score: number,
+    session: ClientSession
+): Promise<ChallengeRunResult | null> => {
+    const challenge = await Challenge.findOne({ _id: game.challengeId, opponentId: game.userId }).session(session);
+    if (!challenge) return null;
+    if (challenge.status !== 'pending') return toRunResult(challenge);
+
+    if (challenge.opponentBestScore === undefined || score > challenge.opponentBestScore) {
+        challenge.opponentBestScore = score;
+        challenge.opponentGameId = game._id;
+    }
+
+    if (score > challenge.challengerScore) {
+        challenge.status = 'completed';
+        challenge.winner = 'opponent';
+        challenge.completedAt = new Date();
+        await recordResult(challenge, session);
+    }
+
+    await challenge.save({ session });
+    return toRunResult(challenge);
+}
+
+/**
+ * Decline a pending challenge (no result recorded). Returns false when there
+ * was no pending challenge to decline.
+ */
+export const declineChallenge = async (challengeId: string, opponentId: mongoose.Types.ObjectId): Promise<boolean> => {
+    if (!mongoose.isValidObjectId(challengeId)) return false;
+
+    const declined = await Challenge.findOneAndUpdate(
+        { _id: challengeId, opponentId, status: 'pending' },
+        { $set: { status: 'declined', completedAt: new Date() } }
+    );
+    return declined !== null;
+}
+
+/**
+ * inbox: pending challenges received; sent: pending challenges sent;
+ * history: finished or declined challenges on either side.
+ */
+export const listChallenges = async (
+    userId: mongoose.Types.ObjectId,
+    box: ChallengeBox,
+    page: number,
+    limit: number
+): Promise<ChallengePage> => {
+    const filter = box === 'inbox' ? { opponentId: userId, status: 'pending' }
+        : box === 'sent' ? { challengerId: userId, status: 'pending' }
+        : { $or: [{ challengerId: userId }, { opponentId: userId }], status: { $ne: 'pending' } };
+
+    const [challenges, total] = await Promise.all([
+        Challenge.find(filter)
+            .sort({ createdAt: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .populate<{ challengerId: Participant | null; opponentId: Participant | null }>([
+                { path: 'challengerId', select: 'username' },
+                { path: 'opponentId', select: 'username' }
+            ]),
+        Challenge.countDocuments(filter)
+    ]);
+
+    return {
+        challenges: challenges.map(toSummary),
+        pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit)
+        }
+    };
+}
+
+/**
+ * Challenges nobody beat in time go to the challenger. Waits one run
+ * deadline past expiry so a run started just before it can still finish.
+ */
+export const resolveExpiredChallenges = async (): Promise<number> => {
+    const cutoff = new Date(Date.now() - RUN_DEADLINE_MS);
+    const expired = await Challenge.find({ status: 'pending', expiresAt: { $lt: cutoff } }).select('_id');
+
+    let count = 0;
+    for (const { _id } of expired) {
+        const resolved = await withTransaction(async (session) => {
+            const challenge = await Challenge.findOneAndUpdate(
+                { _id, status: 'pending' },
+                { $set: { status: 'completed', winner: 'challenger', completedAt: new Date() } },
+                { new: true, session }
+            );
+            if (!challenge) return false;
+
+            await recordResult(challenge, session);
+            return true;
+        });
+        if (resolved) count++;
+    }
+
+    if (count > 0) {
+        LOGGER.info(`[Challenges] Resolved ${count} expired challenge(s)`);
+    }
+    return count;
+}
+
+export const startChallengeResolver = (): void => {
+    if (resolveTimer) return;
+
+    const resolve = () => resolveExpiredChallenges().catch(error => LOGGER.error('[Challenges] Resolve failed:' + error));
+    resolve();
+    resolveTimer = setInterval(resolve, RESOLVE_INTERVAL_MS);
+    resolveTimer.unref();
+}
+
+export const stopChallengeResolver = (): void => {
+    if (resolveTimer) clearInterval(resolveTimer);
+    resolveTimer = null;
+}
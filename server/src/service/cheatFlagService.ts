@@ -0,0 +1,120 @@
+import mongoose from 'mongoose';
+import { CheatFlag, CheatRule, ICheatFlag } from '../models/CheatFlag.js';
+import { User } from '../models/Users.js';
+import { LOGGER } from '../log/logger.js';
+
+// Trust score: 100 minus penalties of flags from the last TRUST_WINDOW_DAYS.
+// Cleared flags cost nothing, confirmed ones count double.
+const MAX_TRUST = 100;
+const TRUST_WINDOW_DAYS = 30;
+const CONFIRMED_MULTIPLIER = 2;
+
+// Replay mismatches can come from heavy lag, bound violations can't
+const RULE_PENALTIES: Record<CheatRule, number> = {
+    run_token: 10,
+    elapsed_time: 20,
+    result_bounds: 25,
+    replay_mismatch: 15
+};
+
+// Below this the player still plays normally but is left out of leaderboards
+export const LEADERBOARD_MIN_TRUST = 50;
+// Low scores are rescored this often, so players recover once flags leave the window
+const RECOVERY_INTERVAL_MS = 60 * 60 * 1000;
+
+let recoveryTimer: NodeJS.Timeout | null = null;
+
+interface CheatFlagData {
+    userId: mongoose.Types.ObjectId;
+    gameId?: mongoose.Types.ObjectId;
+    rule: CheatRule;
+    reason: string;
+    payload: Record<string, unknown>;
+    expected?: Record<string, unknown>;
+}
+
+export const recalculateTrustScore = async (userId: mongoose.Types.ObjectId): Promise<number> => {
+    const since = new Date(Date.now() - TRUST_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const flags = await CheatFlag.find({ userId, status: { $ne: 'cleared' }, createdAt: { $gte: since } }).select('rule status');
+
+    const penalty = flags.reduce((sum, flag) =>
+        sum + RULE_PENALTIES[flag.rule] * (flag.status === 'confirmed' ? CONFIRMED_MULTIPLIER : 1), 0);
+    const trustScore = Math.max(0, MAX_TRUST - penalty);
+
+    await User.updateOne({ _id: userId }, { $set: { trustScore } });
+    return trustScore;
+}
+
+/**
+ * Record an anti-cheat violation and lower the player's trust score.
+ * Never throws: a failed record must not change the response to the player.
+ */
+export const recordCheatFlag = async (data: CheatFlagData): Promise<void> => {
+    try {
+        await CheatFlag.create(data);
+        const trustScore = await recalculateTrustScore(data.userId);
+        LOGGER.warn(`[AntiCheat] ${data.rule} for user ${data.userId}: ${data.reason} (trust ${trustScore})`);
+    } catch (error) {
+        LOGGER.error('[AntiCheat] Failed to record cheat flag:' + error);
+    }
+}
+
+/**
+ * Admin review: clear (false positive) or confirm a flag, then rescore the player.
+ */
+export const reviewCheatFlag = async (
+    flagId: string,
+    action: 'clear' | 'confirm',
+    reviewerId: mongoose.Types.ObjectId,
+    note?: string
+): Promise<{ flag: ICheatFlag; trustScore: number } | null> => {
+    const flag = await CheatFlag.findByIdAndUpdate(flagId, {
+        $set: {
+            status: action === 'clear' ? 'cleared' : 'confirmed',
+            reviewedBy: reviewerId,
+            reviewedAt: new Date(),
+            reviewNote: note
+        }
+    }, { new: true });
+    if (!flag) return null;
+
+    const trustScore = await recalculateTrustScore(flag.userId);
+    return { flag, trustScore };
+}
+
+/**
+ * Players hidden from leaderboards. A plain read: scores change when flags
+ * are recorded or reviewed, and recover through the recovery job.
+ */
+export const getShadowExcludedUserIds = (): Promise<mongoose.Types.ObjectId[]> =>
+    User.find({ trustScore: { $lt: LEADERBOARD_MIN_TRUST } }).distinct('_id');
+
+/**
+ * Rescore every player below the leaderboard threshold. Returns how many
+ * got back above it.
+ */
+export const recoverTrustScores = async (): Promise<number> => {
+    const candidates = await User.find({ trustScore: { $lt: LEADERBOARD_MIN_TRUST } }).select('_id');
+
+    let recovered = 0;
+    for (const user of candidates) {
+        if (await recalculateTrustScore(user._id) >= LEADERBOARD_MIN_TRUST) recovered++;
+    }
+    return recovered;
+}
+
+export const startTrustRecovery = (): void => {
+    if (recoveryTimer) return;
+
+    const check = () => recoverTrustScores()
+        .then(count => count > 0 && LOGGER.info(`[AntiCheat] ${count} players recovered trust`))
+        .catch(error => LOGGER.error('[AntiCheat] Trust recovery failed:' + error));
+    check();
+    recoveryTimer = setInterval(check, RECOVERY_INTERVAL_MS);
+    recoveryTimer.unref();
+}
+
+export const stopTrustRecovery = (): void => {
+    if (recoveryTimer) clearInterval(recoveryTimer);
+    recoveryTimer = null;
+}
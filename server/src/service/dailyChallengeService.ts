@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { DailyChallenge, IDailyChallenge } from '../models/DailyChallenge.js';
+import { DailyAttempt } from '../models/DailyAttempt.js';
+import { RunnerGame } from '../models/RunnerGame.js';
+import { withTransaction } from '../db/db.js';
+import { LOGGER } from '../log/logger.js';
+import { aggregateLeaderboard, LeaderboardRow } from './leaderboardService.js';
+import { RUN_DEADLINE_MS } from './runLifecycleService.js';
+import * as WalletService from './walletService.js';
+import { BALANCE, UpgradeType } from '@shared/config/balance.js';
+import type { DailyChallengeInfo } from '@shared/types/game.types.js';
+
+const { ATTEMPTS, DIFFICULTY, PRESETS, REWARDS } = BALANCE.dailyChallenge;
+const CLOSE_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const RANKED_BOARD_SIZE = 100; // Player rank is only reported within this
+
+let closeTimer: NodeJS.Timeout | null = null;
+
+// UTC day of a date, YYYY-MM-DD
+export const getChallengeDate = (now = new Date()): string => now.toISOString().slice(0, 10);
+
+// Milliseconds until the next UTC midnight
+export const getChallengeEndsIn = (now = new Date()): number =>
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime();
+
+export const getRewardForRank = (rank: number): { coins: number; gems: number } | null => {
+    const tier = REWARDS.find(reward => rank <= reward.maxRank);
+    return tier ? { coins: tier.coins, gems: tier.gems } : null;
+}
+
+// Full upgrade snapshot for a preset (unlisted upgrades are 0)
+const presetUpgradeLevels = (preset: keyof typeof PRESETS): IDailyChallenge['upgradeLevels'] => {
+    const levels: Partial<Record<UpgradeType, number>> = PRESETS[preset];
+    return Object.fromEntries(
+        (Object.keys(BALANCE.upgrades.BASE_COSTS) as UpgradeType[]).map(type => [type, levels[type] ?? 0])
+    ) as IDailyChallenge['upgradeLevels'];
+}
+
+/**
+ * The day's challenge, created on first request with a random seed and preset.
+ */
+export const getOrCreateDailyChallenge = async (date = getChallengeDate()): Promise<IDailyChallenge> => {
+    const existing = await DailyChallenge.findOne({ date });
+    if (existing) return existing;
+
+    const presets = Object.keys(PRESETS) as Array<keyof typeof PRESETS>;
+    const preset = presets[crypto.randomInt(presets.length)];
+
+    try {
+        return await DailyChallenge.create({
+            date,
+            trackSeed: `daily-${date}-${crypto.randomBytes(6).toString('hex')}`,
+            difficulty: DIFFICULTY,
+            preset,
+            upgradeLevels: presetUpgradeLevels(preset)
+        });
+    } catch (error) {
+        // A concurrent request created it first
+        if ((error as { code?: number }).code === 11000) {
+            return DailyChallenge.findOne({ date }).orFail();
+        }
+        throw error;
+    }
+}
+
+// Every started attempt counts, including abandoned and rejected ones
+export const countAttempts = async (userId: mongoose.Types.ObjectId, date: string): Promise<number> =>
+    (await DailyAttempt.findOne({ userId, date }).select('attempts'))?.attempts ?? 0;
+
+/**
+ * Take one of the day's attempts before the run is created. The guarded
+ * $inc is atomic, so concurrent starts can't go over the limit.
+ * Returns false when no attempts are left.
+ */
+export const reserveAttempt = async (userId: mongoose.Types.ObjectId, date: string): Promise<boolean> => {
+    const filter = { userId, date, attempts: { $lt: ATTEMPTS } };
+    const update = { $inc: { attempts: 1 } };
+    try {
+        return Boolean(await DailyAttempt.findOneAndUpdate(filter, update, { upsert: true, new: true }));
+    } catch (error) {
+        if ((error as { code?: number }).code !== 11000) throw error;
+        // The counter exists: either at the limit, or a concurrent first start created it
+        return Boolean(await DailyAttempt.findOneAndUpdate(filter, update, { new: true }));
+    }
+}
+
+// Give back an attempt whose run was never created
+export const releaseAttempt = async (userId: mongoose.Types.ObjectId, date: string): Promise<void> => {
+    await DailyAttempt.updateOne({ userId, date, attempts: { $gt: 0 } }, { $inc: { attempts: -1 } });
+}
+
+export const getDailyLeaderboard = (date: string, limit: number, viewerId?: mongoose.Types.ObjectId): Promise<LeaderboardRow[]> =>
+    aggregateLeaderboard({ gameType: 'daily', challengeDate: date }, limit, viewerId);
+
+/**
+ * Challenge details with the player's attempts, best score and rank
+ */
+export const getDailyChallengeInfo = async (
+    challenge: IDailyChallenge,
+    userId: mongoose.Types.ObjectId
+): Promise<DailyChallengeInfo> => {
+    const [attemptsUsed, best, board] = await Promise.all([
+        countAttempts(userId, challenge.date),
+        RunnerGame.findOne({ userId, gameType: 'daily', challengeDate: challenge.date, status: 'finished' })
+            .sort({ finalScore: -1 })
+            .select('finalScore'),
+        getDailyLeaderboard(challenge.date, RANKED_BOARD_SIZE, userId)
+    ]);
+
+    return {
+        date: challenge.date,
+        preset: challenge.preset,
+        upgrades: challenge.upgradeLevels,
+        difficulty: challenge.difficulty,
+        attemptsUsed,
+        attemptsLeft: Math.max(0, ATTEMPTS - attemptsUsed),
+        maxAttempts: ATTEMPTS,
+        bestScore: best?.finalScore ?? null,
+        rank: board.find(row => row._id.equals(userId))?.rank ?? null,
+        endsIn: getChallengeEndsIn(),
+        rewards: [...REWARDS]
+    };
+}
+
+/**
+ * Pay the top finishers of a finished day through the wallet and close it.
+ * Safe to call more than once: only the call that closes the day pays.
+ */
+export const closeDailyChallenge = (date: string): Promise<boolean> =>
+    withTransaction(async (session) => {
+        const challenge = await DailyChallenge.findOneAndUpdate(
+            { date, status: 'open' },
+            { $set: { status: 'closed', closedAt: new Date(), winners: [] } },
+            { session, new: true }
+        );
+        if (!challenge) return false;
+
+        const rewardedRanks = REWARDS[REWARDS.length - 1].maxRank;
+        const top = await getDailyLeaderboard(date, rewardedRanks);
+
+        for (const row of top) {
+            const reward = getRewardForRank(row.rank);
+            if (!reward) continue;
+
+            await WalletService.credit(row._id, reward, {
+                type: 'daily_challenge_reward',
+                description: `Daily challenge ${date}: rank #${row.rank}`,
+                relatedItemId: `daily_${date}`
+            }, session);
+            challenge.winners.push({ userId: row._id, rank: row.rank, score: row.score, reward });
+        }
+
+        await challenge.save({ session });
+        return true;
+    });
+
+/**
+ * Close every past day still open. Waits one run deadline after midnight so
+ * runs started just before it can still finish and count.
+ */
+export const closeFinishedChallenges = async (): Promise<number> => {
+    const lastOpenDate = getChallengeDate(new Date(Date.now() - RUN_DEADLINE_MS));
+    const pending = await DailyChallenge.find({ status: 'open', date: { $lt: lastOpenDate } }).select('date');
+
+    let count = 0;
+    for (const challenge of pending) {
+        if (await closeDailyChallenge(challenge.date)) {
+            LOGGER.info(`[Daily] Closed challenge ${challenge.date}`);
+            count++;
+        }
+    }
+    return count;
+}
+
+export const startDailyChallengeScheduler = (): void => {
+    if (closeTimer) return;
+
+    const check = () => closeFinishedChallenges().catch(error => LOGGER.error('[Daily] Close failed:' + error));
+    check();
+    closeTimer = setInterval(check, CLOSE_CHECK_INTERVAL_MS);
+    closeTimer.unref();
+}
+
+export const stopDailyChallengeScheduler = (): void => {
+    if (closeTimer) clearInterval(closeTimer);
+    closeTimer = null;
+}
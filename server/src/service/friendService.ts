@@ -0,0 +1,224 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { FriendRequest, IFriendRequest } from '../models/FriendRequest.js';
+import { User, IUser } from '../models/Users.js';
+import { withTransaction } from '../db/db.js';
+import { emitToPlayers, isOnline } from './presenceService.js';
+import { normalizeReferralCode } from './referralService.js';
+import type { FriendRequestSummary, FriendSummary, FriendsData } from '@shared/types/game.types.js';
+
+const MAX_FRIENDS = 100;
+const MAX_PENDING_SENT = 50; // Open requests a player can have out at once
+
+export type FriendErrorCode =
+    | 'user_not_found'
+    | 'self_request'
+    | 'already_friends'
+    | 'already_requested'
+    | 'too_many_pending'
+    | 'too_many_friends'
+    | 'request_not_found'
+    | 'not_friends';
+
+export class FriendError extends Error {
+    constructor(public code: FriendErrorCode, message: string) {
+        super(message);
+        this.name = 'FriendError';
+    }
+}
+
+// Who to send a request to: a username, or the player's referral code
+export type FriendTarget = { username: string } | { referralCode: string };
+
+type Participant = Pick<IUser, '_id' | 'username'>;
+type PopulatedRequest = Omit<IFriendRequest, 'fromId' | 'toId'> & {
+    fromId: Participant | null;
+    toId: Participant | null;
+};
+
+const toParticipant = (user: Participant | null) => ({
+    id: user?._id.toString() ?? '',
+    username: user?.username ?? 'Unknown' // Account may have been deleted
+});
+
+const toRequestSummary = (request: PopulatedRequest): FriendRequestSummary => ({
+    id: request._id.toString(),
+    from: toParticipant(request.fromId),
+    to: toParticipant(request.toId),
+    createdAt: request.createdAt.toISOString()
+});
+
+// Tell the players their friends list changed (they reload it)
+const notifyChanged = (...userIds: mongoose.Types.ObjectId[]): void =>
+    emitToPlayers(userIds, 'friends:changed');
+
+/**
+ * The player's friends (online first) with their presence, pending requests
+ * both ways, and the referral code others can add them by.
+ */
+export const getFriends = async (userId: mongoose.Types.ObjectId): Promise<FriendsData> => {
+    const user = await User.findById(userId).select('friends referralCode').orFail();
+
+    const friendUsers = await User.find({ _id: { $in: user.friends } })
+        .select('username currentSkin bestScore lastSeenAt');
+    const friends: FriendSummary[] = friendUsers
+        .map(friend => {
+            const online = isOnline(friend._id.toString());
+            return {
+                userId: friend._id.toString(),
+                username: friend.username,
+                skin: friend.currentSkin,
+                bestScore: friend.bestScore,
+                online,
+                lastSeenAt: online ? null : friend.lastSeenAt?.toISOString() ?? null
+            };
+        })
+        .sort((a, b) => Number(b.online) - Number(a.online) || a.username.localeCompare(b.username));
+
+    const populate = [
+        { path: 'fromId', select: 'username' },
+        { path: 'toId', select: 'username' }
+    ];
+    const [incoming, outgoing] = await Promise.all([
+        FriendRequest.find({ toId: userId, status: 'pending' })
+            .sort({ createdAt: -1 })
+            .populate<{ fromId: Participant | null; toId: Participant | null }>(populate),
+        FriendRequest.find({ fromId: userId, status: 'pending' })
+            .sort({ createdAt: -1 })
+            .populate<{ fromId: Participant | null; toId: Participant | null }>(populate)
+    ]);
+
+    return {
+        referralCode: user.referralCode ?? '',
+        friends,
+        incoming: incoming.map(toRequestSummary),
+        outgoing: outgoing.map(toRequestSummary)
+    };
+}
+
+// Both players become each other's friend, within the friend limit
+const befriend = async (
+    a: mongoose.Types.ObjectId,
+    b: mongoose.Types.ObjectId,
+    session: ClientSession
+): Promise<void> => {
+    const players = await User.find({ _id: { $in: [a, b] } }).select('friends').session(session);
+    if (players.length < 2) throw new FriendError('user_not_found', 'Player not found');
+    if (players.some(player => player.friends.length >= MAX_FRIENDS)) {
+        throw new FriendError('too_many_friends', `At most ${MAX_FRIENDS} friends`);
+    }
+
+    await User.updateOne({ _id: a }, { $addToSet: { friends: b } }, { session });
+    await User.updateOne({ _id: b }, { $addToSet: { friends: a } }, { session });
+
+    // A request the other way is answered by this friendship too
+    await FriendRequest.updateMany(
+        { $or: [{ fromId: a, toId: b }, { fromId: b, toId: a }], status: 'pending' },
+        { $set: { status: 'accepted', respondedAt: new Date() } },
+        { session }
+    );
+}
+
+/**
+ * Accept a pending request sent to the player. Both become friends.
+ */
+export const acceptFriendRequest = async (requestId: string, userId: mongoose.Types.ObjectId): Promise<FriendsData> => {
+    const request = mongoose.isValidObjectId(requestId)
+        ? await FriendRequest.findOne({ _id: requestId, toId: userId, status: 'pending' })
+        : null;
+    if (!request) throw new FriendError('request_not_found', 'Friend request not found');
+
+    await withTransaction(async (session) => {
+        // Re-read: a retry must not accept a request closed meanwhile
+        const pending = await FriendRequest.exists({ _id: request._id, status: 'pending' }).session(session);
+        if (!pending) throw new FriendError('request_not_found', 'Friend request not found');
+
+        await befriend(request.fromId, request.toId, session);
+    });
+
+    notifyChanged(request.fromId);
+    return getFriends(userId);
+}
+
+/**
+ * Send a friend request by username or referral code. If the other player
+ * already asked the caller, they become friends right away.
+ */
+export const sendFriendRequest = async (fromId: mongoose.Types.ObjectId, target: FriendTarget): Promise<FriendsData> => {
+    const [sender, recipient] = await Promise.all([
+        User.findById(fromId).select('friends').orFail(),
+        User.findOne('username' in target ? { username: target.username } : { referralCode: normalizeReferralCode(target.referralCode) })
+            .select('_id')
+    ]);
+    if (!recipient) throw new FriendError('user_not_found', 'Player not found');
+    if (recipient._id.equals(fromId)) throw new FriendError('self_request', 'You cannot add yourself');
+    if (sender.friends.some(id => id.equals(recipient._id))) {
+        throw new FriendError('already_friends', 'You are already friends');
+    }
+
+    const reverse = await FriendRequest.findOne({ fromId: recipient._id, toId: fromId, status: 'pending' });
+    if (reverse) return acceptFriendRequest(reverse._id.toString(), fromId);
+
+    if (sender.friends.length >= MAX_FRIENDS) {
+        throw new FriendError('too_many_friends', `At most ${MAX_FRIENDS} friends`);
+    }
+    const pending = await FriendRequest.countDocuments({ fromId, status: 'pending' });
+    if (pending >= MAX_PENDING_SENT) {
+        throw new FriendError('too_many_pending', `At most ${MAX_PENDING_SENT} open friend requests at a time`);
+    }
+
+    try {
+        await FriendRequest.create({ fromId, toId: recipient._id });
+    } catch (error) {
+        if ((error as { code?: number }).code === 11000) {
+            throw new FriendError('already_requested', 'Friend request already sent');
+        }
+        throw error;
+    }
+
+    notifyChanged(recipient._id);
+    return getFriends(fromId);
+}
+
+/**
+ * Close a pending request: the recipient declines it or the sender cancels it.
+ */
+export const closeFriendRequest = async (
+    requestId: string,
+    userId: mongoose.Types.ObjectId,
+    status: 'declined' | 'cancelled'
+): Promise<FriendsData> => {
+    const party = status === 'declined' ? { toId: userId } : { fromId: userId };
+    const request = mongoose.isValidObjectId(requestId)
+        ? await FriendRequest.findOneAndUpdate(
+            { _id: requestId, ...party, status: 'pending' },
+            { $set: { status, respondedAt: new Date() } },
+            { new: true }
+        )
+        : null;
+    if (!request) throw new FriendError('request_not_found', 'Friend request not found');
+
+    notifyChanged(status === 'declined' ? request.fromId : request.toId);
+    return getFriends(userId);
+}
+
+/**
+ * End a friendship on both sides.
+ */
+export const removeFriend = async (userId: mongoose.Types.ObjectId, friendId: string): Promise<FriendsData> => {
+    if (!mongoose.isValidObjectId(friendId)) throw new FriendError('not_friends', 'Not friends with this player');
+    const friendObjectId = new mongoose.Types.ObjectId(friendId);
+
+    await withTransaction(async (session) => {
+        const removed = await User.updateOne(
+            { _id: userId, friends: friendObjectId },
+            { $pull: { friends: friendObjectId } },
+            { session }
+        );
+        if (removed.modifiedCount === 0) throw new FriendError('not_friends', 'Not friends with this player');
+
+        await User.updateOne({ _id: friendObjectId }, { $pull: { friends: userId } }, { session });
+    });
+
+    notifyChanged(friendObjectId);
+    return getFriends(userId);
+}
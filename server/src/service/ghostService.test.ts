@@ -0,0 +1,58 @@
+import { test, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { RunnerGame } from '../models/RunnerGame.js';
+import { User } from '../models/Users.js';
+import { Challenge } from '../models/Challenge.js';
+import { getChallengeDate } from './dailyChallengeService.js';
+import { findGhostGame, getGhostRun, getReplayRun } from './ghostService.js';
+
+const owner = { _id: new mongoose.Types.ObjectId(), username: 'owner' };
+const viewerId = new mongoose.Types.ObjectId();
+
+const run = (fields: Record<string, unknown>) => ({
+    _id: new mongoose.Types.ObjectId(),
+    userId: owner,
+    trackSeed: 'seed-1',
+    trackDifficulty: 2,
+    finalScore: 1200,
+    ghost: { frames: [] },
+    ...fields
+});
+
+// RunnerGame.findOne(filter).select(...).populate(...) resolving to game
+const stubRun = (game: ReturnType<typeof run>) => mock.method(RunnerGame, 'findOne', () => ({
+    select: () => ({ populate: async () => game })
+}));
+
+afterEach(() => mock.restoreAll());
+
+test('only solo runs can be raced as ghosts', async () => {
+    mock.method(User, 'find', () => ({ distinct: async () => [] }));
+    const findOne = stubRun(run({ gameType: 'solo' }));
+    mock.method(Challenge, 'exists', async () => null);
+
+    await findGhostGame(new mongoose.Types.ObjectId().toString(), viewerId);
+    const [filter] = findOne.mock.calls[0].arguments as [Record<string, unknown>];
+    assert.equal(filter.gameType, 'solo');
+});
+
+test('ghost and replay endpoints withhold a track still in play', async () => {
+    mock.method(User, 'find', () => ({ distinct: async () => [] }));
+    stubRun(run({ gameType: 'daily', challengeDate: getChallengeDate() }));
+    const gameId = new mongoose.Types.ObjectId().toString();
+
+    assert.equal(await getReplayRun(gameId, viewerId), null);
+    assert.equal(await getGhostRun(gameId, viewerId), null);
+
+    mock.restoreAll();
+    mock.method(User, 'find', () => ({ distinct: async () => [] }));
+    stubRun(run({ gameType: 'solo' }));
+    mock.method(Challenge, 'exists', async () => ({ _id: new mongoose.Types.ObjectId() })); // Pending challenge on the seed
+
+    assert.equal(await getGhostRun(gameId, viewerId), null);
+    assert.equal(await getReplayRun(gameId, viewerId), null);
+
+    // The owner can always reach their own run
+    assert.equal((await getGhostRun(gameId, owner._id))?.trackSeed, 'seed-1');
+});
@@ -0,0 +1,145 @@
+import mongoose from 'mongoose';
+import { RunnerGame, IRunnerGame } from '../models/RunnerGame.js';
+import { IUser } from '../models/Users.js';
+import { Challenge } from '../models/Challenge.js';
+import { getShadowExcludedUserIds } from './cheatFlagService.js';
+import { getChallengeDate } from './dailyChallengeService.js';
+import { isRaceLive } from './raceRoomService.js';
+import type { GhostCandidates, GhostOption, GhostRun, ReplayRun } from '@shared/types/game.types.js';
+
+// Accepted runs with a stored replay path
+const GHOSTABLE = { status: 'finished', ghost: { $exists: true } };
+
+type GhostGame = Omit<IRunnerGame, 'userId'> & { userId: Pick<IUser, '_id' | 'username'> };
+
+// Low-trust players' runs are hidden from everyone but themselves, as on the leaderboard
+const hiddenOwners = async (viewerId: mongoose.Types.ObjectId) =>
+    (await getShadowExcludedUserIds()).filter(id => !id.equals(viewerId));
+
+const toOption = (game: GhostGame): GhostOption => ({
+    gameId: game._id.toString(),
+    username: game.userId?.username ?? 'Unknown', // Owner may have been deleted
+    score: game.finalScore
+});
+
+/**
+ * Whether others may still be playing the run's track: today's daily
+ * challenge, a pending friend challenge on its seed, or a race still running.
+ * Watching such a run would show them the line to take.
+ */
+export const isTrackInPlay = async (
+    game: Pick<IRunnerGame, 'gameType' | 'trackSeed' | 'challengeDate' | 'raceId'>
+): Promise<boolean> => {
+    if (game.gameType === 'daily') return game.challengeDate === getChallengeDate();
+    if (game.gameType === 'race') return Boolean(game.raceId && isRaceLive(game.raceId));
+
+    return Boolean(await Challenge.exists({ trackSeed: game.trackSeed, status: 'pending' }));
+}
+
+// A run with a replay path by id, among those matching filter. Other
+// players' runs are withheld while their track is in play; players can
+// always reach their own runs.
+const findRun = async (
+    gameId: string,
+    viewerId: mongoose.Types.ObjectId,
+    filter: Record<string, unknown>,
+    withGhost: boolean
+): Promise<GhostGame | null> => {
+    if (!mongoose.isValidObjectId(gameId)) return null;
+
+    const game = await RunnerGame.findOne({ _id: gameId, ...filter, ...GHOSTABLE, userId: { $nin: await hiddenOwners(viewerId) } })
+        .select(withGhost ? '+ghost' : '')
+        .populate<{ userId: Pick<IUser, '_id' | 'username'> }>('userId', 'username') as GhostGame | null;
+    if (!game) return null;
+
+    return !game.userId?._id.equals(viewerId) && await isTrackInPlay(game) ? null : game;
+}
+
+/**
+ * A raceable run by id. Only solo runs can be raced, so a ghost never
+ * reopens a daily, challenge or race track. The replay path is only
+ * loaded with withGhost.
+ */
+export const findGhostGame = (
+    gameId: string,
+    viewerId: mongoose.Types.ObjectId,
+    withGhost = false
+): Promise<GhostGame | null> =>
+    findRun(gameId, viewerId, { gameType: 'solo' }, withGhost);
+
+/**
+ * Replay path and seed for racing a run's ghost. Returns null when the run
+ * has no replay, or its track is still in play for someone else.
+ */
+export const getGhostRun = async (gameId: string, viewerId: mongoose.Types.ObjectId): Promise<GhostRun | null> => {
+    const game = await findGhostGame(gameId, viewerId, true);
+    if (!game?.ghost) return null;
+
+    return {
+        ...toOption(game),
+        trackSeed: game.trackSeed,
+        difficulty: game.trackDifficulty,
+        ghost: game.ghost
+    };
+}
+
+/**
+ * Replay path, seed and outcome of a run for spectators. Returns null when
+ * the run has no replay, or its track is still in play for someone else.
+ */
+export const getReplayRun = async (gameId: string, viewerId: mongoose.Types.ObjectId): Promise<ReplayRun | null> => {
+    const game = await findRun(gameId, viewerId, {}, true);
+    if (!game?.ghost) return null;
+
+    return {
+        ...toOption(game),
+        trackSeed: game.trackSeed,
+        difficulty: game.trackDifficulty,
+        ghost: game.ghost,
+        timeTaken: game.timeTaken,
+        didFinish: game.didFinish
+    };
+}
+
+/**
+ * Suggested ghosts: the player's own best solo run and the best solo run overall.
+ */
+export const getGhostCandidates = async (userId: mongoose.Types.ObjectId): Promise<GhostCandidates> => {
+    const [personalBest, leader] = await Promise.all([
+        RunnerGame.findOne({ gameType: 'solo', ...GHOSTABLE, userId })
+            .sort({ finalScore: -1, _id: 1 })
+            .populate<{ userId: Pick<IUser, '_id' | 'username'> }>('userId', 'username'),
+        hiddenOwners(userId).then(hidden =>
+            RunnerGame.findOne({ gameType: 'solo', ...GHOSTABLE, userId: { $nin: hidden } })
+                .sort({ finalScore: -1, _id: 1 })
+                .populate<{ userId: Pick<IUser, '_id' | 'username'> }>('userId', 'username')
+        )
+    ]);
+
+    return {
+        personalBest: personalBest ? toOption(personalBest as GhostGame) : null,
+        leader: leader ? toOption(leader as GhostGame) : null
+    };
+}
+
+/**
+ * Someone else's raceable solo run scored closest to a rating: the
+ * matchmaking fallback when no racer is found in time.
+ */
+export const findMatchGhost = async (userId: mongoose.Types.ObjectId, rating: number): Promise<GhostOption | null> => {
+    const filter = { gameType: 'solo', ...GHOSTABLE, userId: { $nin: [...await hiddenOwners(userId), userId] } };
+
+    const [above, below] = await Promise.all([
+        RunnerGame.findOne({ ...filter, finalScore: { $gte: rating } })
+            .sort({ finalScore: 1, _id: 1 })
+            .populate<{ userId: Pick<IUser, '_id' | 'username'> }>('userId', 'username'),
+        RunnerGame.findOne({ ...filter, finalScore: { $lt: rating } })
+            .sort({ finalScore: -1, _id: 1 })
+            .populate<{ userId: Pick<IUser, '_id' | 'username'> }>('userId', 'username')
+    ]);
+
+    const closest = [above, below]
+        .filter(game => game !== null)
+        .sort((a, b) => Math.abs(a.finalScore - rating) - Math.abs(b.finalScore - rating))[0];
+    return closest ? toOption(closest as GhostGame) : null;
+}
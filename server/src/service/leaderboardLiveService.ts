@@ -0,0 +1,328 @@
+import mongoose from 'mongoose';
+import { Namespace } from 'socket.io';
+import { User } from '../models/Users.js';
+import { LOGGER } from '../log/logger.js';
+import {
+    LEADERBOARD_METRICS,
+    LEADERBOARD_PERIODS,
+    LeaderboardRun,
+    METRICS,
+    PlayerScore,
+    getBucketScores,
+    getEntryScore,
+    getPeriodBucket,
+    getRunValue,
+    getTopEntries
+} from './leaderboardService.js';
+import type {
+    LeaderboardEntry,
+    LeaderboardMetric,
+    LeaderboardPeriod,
+    LeaderboardRankData,
+    LeaderboardStanding,
+    LeaderboardUpdateData
+} from '@shared/types/game.types.js';
+
+// Top entries kept live per board (the REST limit cap)
+export const LIVE_BOARD_SIZE = 100;
+// Players shown above and below the caller's own rank
+export const AROUND_ME_SIZE = 5;
+
+export const LEADERBOARD_CHANNEL = 'leaderboard';
+// Each subscriber's own rank goes to their own channel
+export const playerLeaderboardChannel = (userId: string) => `leaderboard:${userId}`;
+
+// Daily and weekly buckets roll over without any new run, so a board this
+// old is reloaded on the next run even if it can't enter
+const BOARD_TTL_MS = 60 * 1000;
+
+interface LiveBoard {
+    entries: LeaderboardEntry[];
+    loadedAt: number;
+}
+
+// One board per metric and period
+type BoardKey = `${LeaderboardMetric}:${LeaderboardPeriod}`;
+const boardKey = (metric: LeaderboardMetric, period: LeaderboardPeriod): BoardKey => `${metric}:${period}`;
+
+// Last pushed top board; loaded on the first finished run
+const boards = new Map<BoardKey, LiveBoard>();
+
+// Own ranks are read from a precomputed ranking of every player's best value
+// in the board's current bucket, patched as runs finish and reloaded when
+// older than this (or when the bucket rolls over)
+const SNAPSHOT_TTL_MS = 5 * 60 * 1000;
+
+interface RankSnapshot {
+    players: PlayerScore[]; // Leaderboard order
+    positions: Map<string, number>;
+    excluded: Set<string>; // Shadow-excluded when built
+    bucket: string;
+    builtAt: number;
+}
+
+const snapshots = new Map<BoardKey, Promise<RankSnapshot>>();
+// Board updates run one at a time so every diff applies to the previous one
+let updates: Promise<void> = Promise.resolve();
+let namespace: Namespace | null = null;
+
+export const attachLeaderboardNamespace = (nsp: Namespace): void => {
+    namespace = nsp;
+}
+
+const loadBoard = (metric: LeaderboardMetric, period: LeaderboardPeriod): Promise<LeaderboardEntry[]> =>
+    getTopEntries(metric, period, LIVE_BOARD_SIZE);
+
+// Does value a rank above value b on the metric's boards
+const isBetter = (metric: LeaderboardMetric, a: number, b: number): boolean =>
+    METRICS[metric].lowerIsBetter ? a < b : a > b;
+
+// Entries that are new or moved, and players no longer on the board
+const diffBoards = (
+    before: LeaderboardEntry[],
+    after: LeaderboardEntry[]
+): Pick<LeaderboardUpdateData, 'entries' | 'removed'> => ({
+    entries: after.filter(entry => {
+        const previous = before.find(candidate => candidate.userId === entry.userId);
+        return !previous || previous.rank !== entry.rank || previous.score !== entry.score
+            || previous.username !== entry.username || previous.skin !== entry.skin;
+    }),
+    removed: before
+        .filter(previous => !after.some(entry => entry.userId === previous.userId))
+        .map(previous => previous.userId)
+});
+
+// Could the run change the board: it isn't full, or the run beats its last entry
+const canEnter = (metric: LeaderboardMetric, board: LeaderboardEntry[], userId: string, value: number): boolean => {
+    const own = board.find(entry => entry.userId === userId);
+    if (own) return isBetter(metric, value, own.score);
+
+    return board.length < LIVE_BOARD_SIZE || isBetter(metric, value, board[board.length - 1].score);
+}
+
+const updateBoard = async (
+    metric: LeaderboardMetric,
+    period: LeaderboardPeriod,
+    userId: string,
+    value: number
+): Promise<void> => {
+    const key = boardKey(metric, period);
+    const board = boards.get(key);
+    let before: LeaderboardEntry[];
+    let after: LeaderboardEntry[];
+
+    if (board) {
+        const isStale = Date.now() - board.loadedAt > BOARD_TTL_MS;
+        if (!isStale && !canEnter(metric, board.entries, userId, value)) return;
+
+        before = board.entries;
+        after = await loadBoard(metric, period);
+    } else {
+        // Without a pushed board yet, the run is already on the loaded one:
+        // diff against it without the player
+        after = await loadBoard(metric, period);
+        before = after
+            .filter(entry => entry.userId !== userId)
+            .map((entry, index) => ({ ...entry, rank: index + 1 }));
+    }
+    boards.set(key, { entries: after, loadedAt: Date.now() });
+
+    const diff = diffBoards(before, after);
+    if (diff.entries.length === 0 && diff.removed.length === 0) return;
+
+    const data: LeaderboardUpdateData = { metric, period, ...diff };
+    namespace?.to(LEADERBOARD_CHANNEL).emit('leaderboard:update', data);
+}
+
+// Better value first, then lower user id (as the boards sort)
+const ranksBefore = (metric: LeaderboardMetric, a: PlayerScore, b: PlayerScore): boolean =>
+    isBetter(metric, a.score, b.score) || (a.score === b.score && a.userId < b.userId);
+
+// Index a player with this value would take (binary search)
+const insertionIndex = (metric: LeaderboardMetric, players: PlayerScore[], player: PlayerScore): number => {
+    let low = 0;
+    let high = players.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (ranksBefore(metric, players[middle], player)) low = middle + 1;
+        else high = middle;
+    }
+    return low;
+}
+
+const indexPositions = (snapshot: RankSnapshot, from = 0): void => {
+    for (let index = from; index < snapshot.players.length; index++) {
+        snapshot.positions.set(snapshot.players[index].userId, index);
+    }
+}
+
+const buildSnapshot = async (metric: LeaderboardMetric, period: LeaderboardPeriod): Promise<RankSnapshot> => {
+    const builtAt = Date.now();
+    const bucket = getPeriodBucket(period, new Date(builtAt));
+    const { scores, excludedUserIds } = await getBucketScores(metric, period, bucket);
+
+    const snapshot: RankSnapshot = {
+        players: scores,
+        positions: new Map(),
+        excluded: new Set(excludedUserIds.map(id => id.toString())),
+        bucket,
+        builtAt
+    };
+    indexPositions(snapshot);
+    return snapshot;
+}
+
+// Daily and weekly ranks restart with a new bucket
+const isCurrent = (snapshot: RankSnapshot, period: LeaderboardPeriod): boolean =>
+    Date.now() - snapshot.builtAt < SNAPSHOT_TTL_MS && snapshot.bucket === getPeriodBucket(period);
+
+// One build per board at a time; concurrent lookups share it
+const getSnapshot = async (metric: LeaderboardMetric, period: LeaderboardPeriod): Promise<RankSnapshot> => {
+    const key = boardKey(metric, period);
+    const pending = snapshots.get(key);
+    const snapshot = pending ? await pending.catch(() => null) : null;
+    if (snapshot && isCurrent(snapshot, period)) return snapshot;
+    if (snapshots.get(key) !== pending) return getSnapshot(metric, period); // Rebuilt while we waited
+
+    const building = buildSnapshot(metric, period);
+    snapshots.set(key, building);
+    building.catch(() => snapshots.delete(key));
+    return building;
+}
+
+/**
+ * Move a player to their new best value in a built snapshot. False when
+ * the run didn't improve on it, so their standing can't have changed.
+ */
+const patchSnapshot = async (
+    metric: LeaderboardMetric,
+    period: LeaderboardPeriod,
+    userId: string,
+    value: number
+): Promise<boolean> => {
+    const snapshot = await snapshots.get(boardKey(metric, period))?.catch(() => null);
+    if (!snapshot || snapshot.excluded.has(userId) || !isCurrent(snapshot, period)) return true;
+
+    const current = snapshot.positions.get(userId);
+    if (current !== undefined) {
+        if (!isBetter(metric, value, snapshot.players[current].score)) return false;
+        snapshot.players.splice(current, 1);
+    }
+
+    const player = { userId, score: value };
+    const index = insertionIndex(metric, snapshot.players, player);
+    snapshot.players.splice(index, 0, player);
+    indexPositions(snapshot, Math.min(index, current ?? index));
+    return true;
+}
+
+// Share of ranked players below the position, to one decimal
+const getPercentile = (position: number, total: number): number =>
+    Math.round((1000 * (total - position - 1)) / total) / 10;
+
+/**
+ * The player's exact rank and percentile on a metric's board for a period,
+ * with up to AROUND_ME_SIZE players above and below. Shadow-excluded players
+ * see themselves ranked among everyone else. Null without a run that counts.
+ */
+export const getPlayerRank = async (
+    metric: LeaderboardMetric,
+    period: LeaderboardPeriod,
+    userId: mongoose.Types.ObjectId
+): Promise<LeaderboardStanding | null> => {
+    const snapshot = await getSnapshot(metric, period);
+    let players = snapshot.players;
+    let position = snapshot.positions.get(userId.toString());
+
+    if (position === undefined) {
+        if (!snapshot.excluded.has(userId.toString())) return null;
+
+        const best = await getEntryScore(metric, period, snapshot.bucket, userId);
+        if (best === null) return null;
+
+        const player = { userId: userId.toString(), score: best };
+        position = insertionIndex(metric, players, player);
+        players = [...players.slice(0, position), player, ...players.slice(position)];
+    }
+
+    const start = Math.max(0, position - AROUND_ME_SIZE);
+    const window = players.slice(start, position + AROUND_ME_SIZE + 1);
+    const users = await User.find({ _id: { $in: window.map(player => player.userId) } }).select('username currentSkin');
+
+    const around: LeaderboardEntry[] = window.map((player, index) => {
+        const user = users.find(candidate => candidate._id.toString() === player.userId);
+        return {
+            rank: start + index + 1,
+            userId: player.userId,
+            username: user?.username ?? 'Unknown', // Account may have been deleted
+            score: player.score,
+            skin: user?.currentSkin ?? 'default'
+        };
+    });
+
+    return {
+        ...around[position - start],
+        percentile: getPercentile(position, players.length),
+        totalPlayers: players.length,
+        around
+    };
+}
+
+/**
+ * The player's standing on a complete small board, such as their friends
+ * board, ranked among its entries only. Null when not on it.
+ */
+export const getBoardStanding = (entries: LeaderboardEntry[], userId: mongoose.Types.ObjectId): LeaderboardStanding | null => {
+    const position = entries.findIndex(entry => entry.userId === userId.toString());
+    if (position === -1) return null;
+
+    return {
+        ...entries[position],
+        percentile: getPercentile(position, entries.length),
+        totalPlayers: entries.length,
+        around: entries.slice(Math.max(0, position - AROUND_ME_SIZE), position + AROUND_ME_SIZE + 1)
+    };
+}
+
+// The player's own standing on the boards the run moved them on, if they are watching
+const sendPlayerRanks = async (
+    userId: mongoose.Types.ObjectId,
+    moved: Array<{ metric: LeaderboardMetric; period: LeaderboardPeriod }>
+): Promise<void> => {
+    const channel = playerLeaderboardChannel(userId.toString());
+    if (!namespace?.adapter.rooms.get(channel)?.size) return;
+
+    for (const { metric, period } of moved) {
+        const data: LeaderboardRankData = { metric, period, me: await getPlayerRank(metric, period, userId) };
+        namespace?.to(channel).emit('leaderboard:rank', data);
+    }
+}
+
+/**
+ * Push leaderboard changes after a finished solo run: diffs of every top
+ * board it changed to subscribers, and the player's own ranks to them.
+ * Also moves the player up in the precomputed ranks.
+ * Runs after the finish commits; failures are logged, never surfaced.
+ */
+export const publishFinishedRun = (run: LeaderboardRun): Promise<void> => {
+    if (run.gameType !== 'solo') return Promise.resolve();
+
+    const userId = run.userId.toString();
+    updates = updates
+        .then(async () => {
+            const moved: Array<{ metric: LeaderboardMetric; period: LeaderboardPeriod }> = [];
+
+            for (const metric of LEADERBOARD_METRICS) {
+                const value = getRunValue(metric, run);
+                if (value === null) continue;
+
+                for (const period of LEADERBOARD_PERIODS) {
+                    if (await patchSnapshot(metric, period, userId, value)) moved.push({ metric, period });
+                    await updateBoard(metric, period, userId, value);
+                }
+            }
+            await sendPlayerRanks(run.userId, moved);
+        })
+        .catch(error => LOGGER.error(`[Leaderboard] Live update failed for run ${run._id}: ` + error));
+    return updates;
+}
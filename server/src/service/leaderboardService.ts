@@ -0,0 +1,305 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { RunnerGame, IRunnerGame } from '../models/RunnerGame.js';
+import { LeaderboardEntry as LeaderboardEntryModel } from '../models/LeaderboardEntry.js';
+import { User } from '../models/Users.js';
+import { getShadowExcludedUserIds } from './cheatFlagService.js';
+import type { LeaderboardEntry, LeaderboardMetric, LeaderboardPeriod } from '@shared/types/game.types.js';
+
+export interface LeaderboardRow {
+    rank: number;
+    _id: mongoose.Types.ObjectId; // User id
+    username: string;
+    score: number;
+    skin: string;
+    totalGames: number;
+    winRate: number;
+}
+
+/**
+ * Best finalScore per player over the finished runs matching `match`.
+ * Low-trust players are shadow-excluded: hidden from everyone but themselves
+ * (pass viewerId), and never included when viewerId is omitted.
+ */
+export const aggregateLeaderboard = async (
+    match: Record<string, unknown>,
+    limit: number,
+    viewerId?: mongoose.Types.ObjectId
+): Promise<LeaderboardRow[]> => {
+    const excludedUserIds = (await getShadowExcludedUserIds())
+        .filter(id => !viewerId || !id.equals(viewerId));
+
+    const leaderboard = await RunnerGame.aggregate([
+        { $match: { ...match, status: 'finished', userId: { $nin: excludedUserIds } } },
+        {
+            $group: {
+                _id: '$userId',
+                highScore: { $max: '$finalScore' },
+                totalGames: { $sum: 1 },
+                totalWins: { $sum: { $cond: ['$didFinish', 1, 0] } }
+            }
+        },
+        { $sort: { highScore: -1, _id: 1 } },
+        { $limit: limit },
+        {
+            $lookup: {
+                from: 'users',
+                localField: '_id',
+                foreignField: '_id',
+                as: 'user'
+            }
+        },
+        { $unwind: '$user' },
+        {
+            $project: {
+                _id: 1,
+                username: '$user.username',
+                score: '$highScore',
+                skin: '$user.currentSkin',
+                totalGames: 1,
+                winRate: { $multiply: [{ $divide: ['$totalWins', '$totalGames'] }, 100] }
+            }
+        }
+    ]);
+
+    // Add ranks
+    return leaderboard.map((entry, index) => ({
+        rank: index + 1,
+        ...entry
+    }));
+}
+
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'alltime'];
+
+type MetricField = 'finalScore' | 'distanceTraveled' | 'maxArmy' | 'coinsCollected' | 'timeTaken';
+
+interface MetricDefinition {
+    field: MetricField; // Run field ranked
+    lowerIsBetter: boolean;
+    finishedOnly: boolean; // Only runs that reached the end count
+}
+
+export const METRICS: Record<LeaderboardMetric, MetricDefinition> = {
+    score: { field: 'finalScore', lowerIsBetter: false, finishedOnly: false },
+    distance: { field: 'distanceTraveled', lowerIsBetter: false, finishedOnly: false },
+    army: { field: 'maxArmy', lowerIsBetter: false, finishedOnly: false },
+    coins: { field: 'coinsCollected', lowerIsBetter: false, finishedOnly: false },
+    fastest: { field: 'timeTaken', lowerIsBetter: true, finishedOnly: true }
+};
+
+export const LEADERBOARD_METRICS = Object.keys(METRICS) as LeaderboardMetric[];
+
+// Board order: best value first, then lower user id
+const getBoardSort = (metric: LeaderboardMetric): Record<string, 1 | -1> =>
+    ({ score: METRICS[metric].lowerIsBetter ? 1 : -1, userId: 1 });
+
+// ISO 8601 week of a UTC date, e.g. 2026-W42 (as MongoDB's %G-W%V)
+const getIsoWeek = (date: Date): string => {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    // The week's Thursday decides its year
+    day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+    const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+    const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+    return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Bucket a run finished at `date` counts in for a period: its UTC day (as
+ * the daily challenge), its ISO week, or 'all'.
+ */
+export const getPeriodBucket = (period: LeaderboardPeriod, date = new Date()): string => {
+    switch (period) {
+        case 'daily':
+            return date.toISOString().slice(0, 10);
+        case 'weekly':
+            return getIsoWeek(date);
+        default:
+            return 'all';
+    }
+}
+
+// The same buckets computed from a run's finishedAt, for rebuilding
+const BUCKET_EXPRESSIONS: Record<LeaderboardPeriod, unknown> = {
+    daily: { $dateToString: { format: '%Y-%m-%d', date: '$finishedAt' } },
+    weekly: { $dateToString: { format: '%G-W%V', date: '$finishedAt' } },
+    alltime: { $literal: 'all' }
+};
+
+export type LeaderboardRun = Pick<IRunnerGame, '_id' | 'userId' | 'gameType' | 'didFinish' | 'finishedAt' | MetricField>;
+
+// The run's value on a metric's boards, or null if it doesn't count there
+export const getRunValue = (metric: LeaderboardMetric, run: LeaderboardRun): number | null =>
+    METRICS[metric].finishedOnly && !run.didFinish ? null : run[METRICS[metric].field];
+
+/**
+ * Improve the player's entry on every metric's board, in every period's
+ * bucket, with the run. Only finished solo runs count. Pass the finish
+ * transaction's session so the entries commit with the run.
+ */
+export const recordLeaderboardRun = async (run: LeaderboardRun, session?: ClientSession): Promise<void> => {
+    if (run.gameType !== 'solo') return;
+
+    const achievedAt = run.finishedAt ?? new Date();
+    for (const metric of LEADERBOARD_METRICS) {
+        const value = getRunValue(metric, run);
+        if (value === null) continue;
+
+        // Pipeline update so the compare-and-set is a single upsert
+        const isBetter = {
+            $or: [
+                { $eq: [{ $type: '$score' }, 'missing'] },
+                { [METRICS[metric].lowerIsBetter ? '$lt' : '$gt']: [value, '$score'] }
+            ]
+        };
+        for (const period of LEADERBOARD_PERIODS) {
+            await LeaderboardEntryModel.updateOne(
+                { metric, period, bucket: getPeriodBucket(period, achievedAt), userId: run.userId },
+                [{
+                    $set: {
+                        score: { $cond: [isBetter, value, '$score'] },
+                        gameId: { $cond: [isBetter, run._id, '$gameId'] },
+                        achievedAt: { $cond: [isBetter, achievedAt, '$achievedAt'] },
+                        createdAt: { $ifNull: ['$createdAt', '$$NOW'] }
+                    }
+                }],
+                { upsert: true, session }
+            );
+        }
+    }
+}
+
+/**
+ * Top `limit` entries of a metric's board in the period's current bucket,
+ * optionally among `userIds` only (a friends board). Shadow-excluded players
+ * are hidden from everyone but themselves (pass viewerId).
+ */
+export const getTopEntries = async (
+    metric: LeaderboardMetric,
+    period: LeaderboardPeriod,
+    limit: number,
+    viewerId?: mongoose.Types.ObjectId,
+    userIds?: mongoose.Types.ObjectId[]
+): Promise<LeaderboardEntry[]> => {
+    const excludedUserIds = (await getShadowExcludedUserIds())
+        .filter(id => !viewerId || !id.equals(viewerId));
+
+    const rows = await LeaderboardEntryModel.find({
+        metric,
+        period,
+        bucket: getPeriodBucket(period),
+        userId: { $nin: excludedUserIds, ...(userIds && { $in: userIds }) }
+    })
+        .sort(getBoardSort(metric))
+        .limit(limit)
+        .select('userId score')
+        .lean();
+
+    const users = await User.find({ _id: { $in: rows.map(row => row.userId) } }).select('username currentSkin');
+
+    // Accounts may have been deleted since
+    return rows.flatMap(row => {
+        const user = users.find(candidate => candidate._id.equals(row.userId));
+        return user ? [{ userId: row.userId.toString(), username: user.username, score: row.score, skin: user.currentSkin }] : [];
+    }).map((entry, index) => ({ rank: index + 1, ...entry }));
+}
+
+export interface PlayerScore {
+    userId: string;
+    score: number;
+}
+
+/**
+ * Every player's best value on a metric's board in a bucket, in board
+ * order, without shadow-excluded players.
+ * Used to precompute ranks; returns the excluded ids alongside.
+ */
+export const getBucketScores = async (
+    metric: LeaderboardMetric,
+    period: LeaderboardPeriod,
+    bucket: string
+): Promise<{ scores: PlayerScore[]; excludedUserIds: mongoose.Types.ObjectId[] }> => {
+    const excludedUserIds = await getShadowExcludedUserIds();
+
+    const rows = await LeaderboardEntryModel.find({ metric, period, bucket, userId: { $nin: excludedUserIds } })
+        .sort(getBoardSort(metric))
+        .select('userId score')
+        .lean();
+
+    return {
+        scores: rows.map(row => ({ userId: row.userId.toString(), score: row.score })),
+        excludedUserIds
+    };
+}
+
+// A single player's best value in a bucket, shadow-excluded or not
+export const getEntryScore = async (
+    metric: LeaderboardMetric,
+    period: LeaderboardPeriod,
+    bucket: string,
+    userId: mongoose.Types.ObjectId
+): Promise<number | null> => {
+    const entry = await LeaderboardEntryModel.findOne({ metric, period, bucket, userId }).select('score').lean();
+    return entry?.score ?? null;
+}
+
+/**
+ * Regenerate every leaderboard entry from the finished solo runs. Entries
+ * are replaced in place, so boards stay readable meanwhile; entries no run
+ * backs any more are removed at the end. Returns the entries left.
+ */
+export const rebuildLeaderboards = async (): Promise<number> => {
+    const rebuiltAt = new Date();
+
+    for (const metric of LEADERBOARD_METRICS) {
+        const { field, lowerIsBetter, finishedOnly } = METRICS[metric];
+
+        for (const period of LEADERBOARD_PERIODS) {
+            await RunnerGame.aggregate([
+                { $match: { gameType: 'solo', status: 'finished', ...(finishedOnly && { didFinish: true }) } },
+                // First run to reach the best value wins ties, as when recorded live
+                { $sort: { [field]: lowerIsBetter ? 1 : -1, finishedAt: 1 } },
+                {
+                    $group: {
+                        _id: { bucket: BUCKET_EXPRESSIONS[period], userId: '$userId' },
+                        score: { $first: `$${field}` },
+                        gameId: { $first: '$_id' },
+                        achievedAt: { $first: '$finishedAt' }
+                    }
+                },
+                {
+                    $project: {
+                        _id: 0,
+                        metric: { $literal: metric },
+                        period: { $literal: period },
+                        bucket: '$_id.bucket',
+                        userId: '$_id.userId',
+                        score: 1,
+                        gameId: 1,
+                        achievedAt: 1,
+                        createdAt: { $literal: rebuiltAt },
+                        updatedAt: { $literal: rebuiltAt }
+                    }
+                },
+                {
+                    $merge: {
+                        into: LeaderboardEntryModel.collection.collectionName,
+                        on: ['metric', 'period', 'bucket', 'userId'],
+                        whenMatched: [{
+                            $set: {
+                                score: '$$new.score',
+                                gameId: '$$new.gameId',
+                                achievedAt: '$$new.achievedAt',
+                                updatedAt: '$$new.updatedAt'
+                            }
+                        }],
+                        whenNotMatched: 'insert'
+                    }
+                }
+            ]).allowDiskUse(true);
+        }
+    }
+
+    // Runs recorded live during the rebuild were written after rebuiltAt
+    await LeaderboardEntryModel.deleteMany({ updatedAt: { $lt: rebuiltAt } });
+    return LeaderboardEntryModel.countDocuments();
+}
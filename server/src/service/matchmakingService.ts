@@ -0,0 +1,178 @@
+import mongoose from 'mongoose';
+import { Socket } from 'socket.io';
+import { RunnerGame } from '../models/RunnerGame.js';
+import { User } from '../models/Users.js';
+import { LOGGER } from '../log/logger.js';
+import { RaceRoomError, RaceUser, isInLiveRace, startMatchedRace } from './raceRoomService.js';
+import { findMatchGhost } from './ghostService.js';
+import { BALANCE } from '@shared/config/balance.js';
+import type { MatchmakingGhostData, MatchmakingSearchingData } from '@shared/types/game.types.js';
+
+const { MATCH_SIZE, FILL_WAIT, RECENT_RUNS, POWER_SPREAD, RATING_SPREAD } = BALANCE.matchmaking;
+const MIN_PLAYERS = BALANCE.race.MIN_PLAYERS;
+const TIMEOUT_MS = BALANCE.timing.MATCHMAKING_TIMEOUT * 1000;
+const FILL_WAIT_MS = FILL_WAIT * 1000;
+const MATCH_INTERVAL_MS = 1000;
+
+interface QueueEntry {
+    userId: string;
+    user: RaceUser;
+    socket: Socket;
+    powerLevel: number;
+    rating: number;
+    joinedAt: number;
+}
+
+// Oldest first; lives in memory on this server process like the race rooms
+const queue: QueueEntry[] = [];
+let matchTimer: NodeJS.Timeout | null = null;
+
+// Average score of the player's recent finished runs (0 for new players)
+const getScoreRating = async (userId: mongoose.Types.ObjectId): Promise<number> => {
+    const runs = await RunnerGame.find({ userId, status: 'finished' })
+        .sort({ startedAt: -1 })
+        .limit(RECENT_RUNS)
+        .select('finalScore');
+    if (runs.length === 0) return 0;
+
+    return Math.round(runs.reduce((sum, run) => sum + run.finalScore, 0) / runs.length);
+}
+
+// Allowed gap grows linearly from BASE to MAX over the queue timeout
+const spread = (range: { BASE: number; MAX: number }, waitedMs: number): number =>
+    range.BASE + (range.MAX - range.BASE) * Math.min(1, waitedMs / TIMEOUT_MS);
+
+// The longer-waiting player's spread applies to the pair
+const isCompatible = (a: QueueEntry, b: QueueEntry, now: number): boolean => {
+    const waited = now - Math.min(a.joinedAt, b.joinedAt);
+    return Math.abs(a.powerLevel - b.powerLevel) <= spread(POWER_SPREAD, waited)
+        && Math.abs(a.rating - b.rating) <= spread(RATING_SPREAD, waited);
+}
+
+// Closest compatible players to the anchor, each compatible with the whole group
+const buildGroup = (anchor: QueueEntry, candidates: QueueEntry[], now: number): QueueEntry[] => {
+    const group = [anchor];
+    const nearest = candidates
+        .filter(entry => entry !== anchor)
+        .sort((a, b) =>
+            Math.abs(a.powerLevel - anchor.powerLevel) - Math.abs(b.powerLevel - anchor.powerLevel)
+            || Math.abs(a.rating - anchor.rating) - Math.abs(b.rating - anchor.rating));
+
+    for (const entry of nearest) {
+        if (group.length >= MATCH_SIZE) break;
+        if (group.every(member => isCompatible(member, entry, now))) group.push(entry);
+    }
+    return group;
+}
+
+const removeEntries = (entries: QueueEntry[]): void => {
+    for (const entry of entries) {
+        const index = queue.indexOf(entry);
+        if (index !== -1) queue.splice(index, 1);
+    }
+}
+
+// Timed out: race the ghost of a similar run, or give up
+const fallBack = async (entry: QueueEntry): Promise<void> => {
+    const ghost = await findMatchGhost(entry.user._id, entry.rating);
+    if (ghost) {
+        const data: MatchmakingGhostData = { ghost };
+        entry.socket.emit('matchmaking:ghost', data);
+    } else {
+        entry.socket.emit('matchmaking:timeout');
+    }
+}
+
+/**
+ * One matchmaking pass: start every group that is full (or has waited
+ * FILL_WAIT with at least MIN_PLAYERS), time out players past
+ * MATCHMAKING_TIMEOUT, and send the rest their queue position.
+ */
+export const runMatchmaking = (now = Date.now()): void => {
+    const groups: QueueEntry[][] = [];
+    const matched = new Set<QueueEntry>();
+
+    for (const anchor of queue) {
+        if (matched.has(anchor)) continue;
+
+        const group = buildGroup(anchor, queue.filter(entry => !matched.has(entry)), now);
+        const isFull = group.length >= MATCH_SIZE;
+        const hasWaited = group.length >= MIN_PLAYERS && now - anchor.joinedAt >= FILL_WAIT_MS;
+        if (!isFull && !hasWaited) continue;
+
+        group.forEach(entry => matched.add(entry));
+        groups.push(group);
+    }
+    removeEntries([...matched]);
+
+    for (const group of groups) {
+        startMatchedRace(group.map(({ user, socket }) => ({ user, socket }))).catch(error => {
+            LOGGER.error('[Matchmaking] Starting a matched race failed: ' + error);
+            group.forEach(entry => entry.socket.emit('matchmaking:timeout'));
+        });
+    }
+
+    const timedOut = queue.filter(entry => now - entry.joinedAt >= TIMEOUT_MS);
+    removeEntries(timedOut);
+    for (const entry of timedOut) {
+        fallBack(entry).catch(error => {
+            LOGGER.error(`[Matchmaking] Fallback failed for ${entry.userId}: ` + error);
+            entry.socket.emit('matchmaking:timeout');
+        });
+    }
+
+    queue.forEach((entry, index) => {
+        const data: MatchmakingSearchingData = { queuePosition: index + 1 };
+        entry.socket.emit('matchmaking:searching', data);
+    });
+
+    if (queue.length === 0) stopMatchmaking();
+}
+
+/**
+ * Queue the player for a matched race. Joining again restarts the wait.
+ */
+export const joinQueue = async (userId: string, socket: Socket): Promise<MatchmakingSearchingData> => {
+    if (isInLiveRace(userId)) {
+        throw new RaceRoomError('already_racing', 'Leave your current race first');
+    }
+
+    const user = await User.findById(userId);
+    if (!user) throw new Error('User not found');
+
+    const rating = await getScoreRating(user._id);
+
+    leaveQueue(userId);
+    queue.push({
+        userId,
+        user,
+        socket,
+        powerLevel: user.getPowerLevel(),
+        rating,
+        joinedAt: Date.now()
+    });
+
+    if (!matchTimer) {
+        matchTimer = setInterval(() => runMatchmaking(), MATCH_INTERVAL_MS);
+        matchTimer.unref();
+    }
+
+    return { queuePosition: queue.length };
+}
+
+/**
+ * Take the player out of the queue. With a socketId, only that connection's
+ * entry is removed (a newer connection may have re-queued).
+ */
+export const leaveQueue = (userId: string, socketId?: string): boolean => {
+    const entry = queue.find(candidate => candidate.userId === userId);
+    if (!entry || (socketId && entry.socket.id !== socketId)) return false;
+
+    removeEntries([entry]);
+    return true;
+}
+
+export const stopMatchmaking = (): void => {
+    if (matchTimer) clearInterval(matchTimer);
+    matchTimer = null;
+}
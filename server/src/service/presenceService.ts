@@ -0,0 +1,70 @@
+import mongoose from 'mongoose';
+import { Namespace, Socket } from 'socket.io';
+import { User } from '../models/Users.js';
+import { LOGGER } from '../log/logger.js';
+import type { FriendPresenceData } from '@shared/types/game.types.js';
+
+// Every signed-in socket joins its player's channel, so pushes reach all their tabs
+export const playerChannel = (userId: string) => `player:${userId}`;
+
+// Open sockets per online player; lives in memory on this server process
+const connections = new Map<string, Set<string>>();
+let namespace: Namespace | null = null;
+
+export const attachPresenceNamespace = (nsp: Namespace): void => {
+    namespace = nsp;
+}
+
+export const isOnline = (userId: string): boolean => connections.has(userId);
+
+// Push an event to every open socket of the given players
+export const emitToPlayers = (userIds: Array<string | mongoose.Types.ObjectId>, event: string, data?: unknown): void => {
+    // An empty room list would broadcast to the whole namespace
+    if (!namespace || userIds.length === 0) return;
+    namespace.to(userIds.map(id => playerChannel(id.toString()))).emit(event, data);
+}
+
+// Tell the player's friends they came online or went offline
+const broadcastPresence = async (userId: string, lastSeenAt: Date | null): Promise<void> => {
+    const user = await User.findById(userId).select('friends');
+    if (!user) return;
+
+    const data: FriendPresenceData = {
+        userId,
+        online: lastSeenAt === null,
+        lastSeenAt: lastSeenAt?.toISOString() ?? null
+    };
+    emitToPlayers(user.friends, 'friends:presence', data);
+}
+
+/**
+ * Track a signed-in socket. The player's first socket brings them online.
+ */
+export const connectPlayer = (userId: string, socket: Socket): void => {
+    socket.join(playerChannel(userId));
+
+    const sockets = connections.get(userId) ?? new Set<string>();
+    const cameOnline = sockets.size === 0;
+    sockets.add(socket.id);
+    connections.set(userId, sockets);
+
+    if (cameOnline) {
+        broadcastPresence(userId, null)
+            .catch(error => LOGGER.error(`[Presence] Online update failed for ${userId}: ` + error));
+    }
+}
+
+/**
+ * Forget a closed socket. Closing the player's last one takes them offline
+ * and records when they were last seen.
+ */
+export const disconnectPlayer = (userId: string, socketId: string): void => {
+    const sockets = connections.get(userId);
+    if (!sockets?.delete(socketId) || sockets.size > 0) return;
+    connections.delete(userId);
+
+    const lastSeenAt = new Date();
+    User.updateOne({ _id: userId }, { $set: { lastSeenAt } })
+        .then(() => broadcastPresence(userId, lastSeenAt))
+        .catch(error => LOGGER.error(`[Presence] Offline update failed for ${userId}: ` + error));
+}
@@ -0,0 +1,696 @@
+import mongoose from 'mongoose';
+import { randomInt } from 'crypto';
+import { Namespace, Socket } from 'socket.io';
+import { RunnerGame, IRunnerGame } from '../models/RunnerGame.js';
+import { User, IUser } from '../models/Users.js';
+import { LOGGER } from '../log/logger.js';
+import { cancelOpenRuns, cancelRun, saveNewRun, RUN_DEADLINE_MS } from './runLifecycleService.js';
+import { issueRunToken } from './runTokenService.js';
+import { BALANCE } from '@shared/config/balance.js';
+import { GAME_CONSTANTS } from '@shared/types/game.types.js';
+import type {
+    RaceCountdownData,
+    RaceFinishData,
+    RacePlayerState,
+    RaceProgressData,
+    RaceRoomState,
+    RaceRoomStatus,
+    RaceRoomSummary,
+    RaceSpectateState,
+    RaceStanding
+} from '@shared/types/game.types.js';
+
+const { MIN_PLAYERS, MAX_PLAYERS, COUNTDOWN, DIFFICULTY } = BALANCE.race;
+const TICK_MS = 1000 / GAME_CONSTANTS.TICK_RATE;
+const RECONNECT_GRACE_MS = GAME_CONSTANTS.RECONNECT_GRACE * 1000;
+const FINISHED_ROOM_TTL_MS = 60 * 1000; // Standings stay available to reconnecting racers
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I
+const ROOM_CODE_LENGTH = 6;
+const MAX_LISTED_ROOMS = 20;
+
+export type RaceRoomErrorCode =
+    | 'room_not_found'
+    | 'room_full'
+    | 'race_started'
+    | 'already_racing'
+    | 'not_in_room'
+    | 'own_room';
+
+export class RaceRoomError extends Error {
+    constructor(public code: RaceRoomErrorCode, message: string) {
+        super(message);
+        this.name = 'RaceRoomError';
+    }
+}
+
+// Validated result of a race run, reported by the finish endpoint
+export interface RaceRunResult {
+    score: number;
+    timeTaken: number;
+    distance: number;
+    didFinish: boolean;
+}
+
+export type RaceUser = Pick<IUser, '_id' | 'username' | 'currentSkin'>;
+
+interface Racer {
+    userId: string;
+    username: string;
+    skin: string;
+    socketId: string | null; // null while disconnected
+    ready: boolean;
+    state: RacePlayerState;
+    gameId: mongoose.Types.ObjectId | null;
+    // Live position reported by the client; only validated results rank
+    progress: number;
+    x: number;
+    armyCount: number;
+    result: RaceRunResult | null;
+    graceTimer: NodeJS.Timeout | null;
+}
+
+interface RaceRoom {
+    id: string;
+    hostId: string;
+    status: RaceRoomStatus;
+    isPublic: boolean;
+    racers: Map<string, Racer>;
+    spectators: Set<string>; // Socket ids
+    trackSeed: string | null;
+    startTime: number | null;
+    standings: RaceStanding[] | null;
+    tickTimer: NodeJS.Timeout | null;
+    timer: NodeJS.Timeout | null; // Start, race deadline or cleanup, depending on status
+}
+
+// Rooms live in memory on this server process
+const rooms = new Map<string, RaceRoom>();
+const roomOfUser = new Map<string, string>();
+const roomOfSpectator = new Map<string, string>(); // Socket id -> room id
+let namespace: Namespace | null = null;
+
+const channel = (roomId: string) => `race:${roomId}`;
+// Spectators get their own channel so racer-only events never reach them
+const watchChannel = (roomId: string) => `race:${roomId}:watch`;
+
+const CLOSED_STATES: RacePlayerState[] = ['finished', 'out', 'dnf', 'forfeit'];
+
+// Standings order: crossed the line, ended early, no validated run, left
+const STATE_RANK: Record<RacePlayerState, number> = {
+    finished: 0,
+    out: 1,
+    racing: 2,
+    waiting: 2,
+    dnf: 2,
+    forfeit: 3
+};
+
+const toState = (room: RaceRoom): RaceRoomState => ({
+    roomId: room.id,
+    hostId: room.hostId,
+    status: room.status,
+    players: [...room.racers.values()].map(racer => ({
+        userId: racer.userId,
+        username: racer.username,
+        skin: racer.skin,
+        ready: racer.ready,
+        connected: racer.socketId !== null,
+        state: racer.state
+    })),
+    minPlayers: MIN_PLAYERS,
+    maxPlayers: MAX_PLAYERS,
+    isPublic: room.isPublic,
+    spectatorCount: room.spectators.size,
+    startTime: room.startTime,
+    standings: room.standings
+});
+
+// The seed is held back until the start so it can't be passed to a racer early
+const toSpectateState = (room: RaceRoom): RaceSpectateState => ({
+    ...toState(room),
+    trackSeed: room.status === 'racing' || room.status === 'finished' ? room.trackSeed : null,
+    difficulty: DIFFICULTY
+});
+
+const broadcastRoom = (room: RaceRoom): void => {
+    namespace?.to(channel(room.id)).emit('race:room', toState(room));
+    namespace?.to(watchChannel(room.id)).emit('spectate:room', toSpectateState(room));
+}
+
+const emitToRacer = (racer: Racer, event: string, data: unknown): void => {
+    if (racer.socketId) namespace?.to(racer.socketId).emit(event, data);
+}
+
+const clearTimers = (room: RaceRoom): void => {
+    if (room.tickTimer) clearInterval(room.tickTimer);
+    if (room.timer) clearTimeout(room.timer);
+    room.tickTimer = null;
+    room.timer = null;
+}
+
+const generateRoomId = (): string => {
+    let id: string;
+    do {
+        id = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)]).join('');
+    } while (rooms.has(id));
+    return id;
+}
+
+const getRoomOf = (userId: string): RaceRoom | undefined => {
+    const roomId = roomOfUser.get(userId);
+    return roomId ? rooms.get(roomId) : undefined;
+}
+
+const addRacer = (room: RaceRoom, user: RaceUser, socket: Socket): void => {
+    const userId = user._id.toString();
+    room.racers.set(userId, {
+        userId,
+        username: user.username,
+        skin: user.currentSkin,
+        socketId: socket.id,
+        ready: false,
+        state: 'waiting',
+        gameId: null,
+        progress: 0,
+        x: 0,
+        armyCount: 0,
+        result: null,
+        graceTimer: null
+    });
+    roomOfUser.set(userId, room.id);
+    stopSpectating(socket.id);
+    socket.join(channel(room.id));
+}
+
+// Drop a racer from the room entirely (lobby or finished room)
+const removeRacer = (room: RaceRoom, racer: Racer): void => {
+    if (racer.graceTimer) clearTimeout(racer.graceTimer);
+    if (racer.socketId) namespace?.in(racer.socketId).socketsLeave(channel(room.id));
+    room.racers.delete(racer.userId);
+    if (roomOfUser.get(racer.userId) === room.id) roomOfUser.delete(racer.userId);
+
+    if (room.racers.size === 0) {
+        closeRoom(room);
+        return;
+    }
+    if (room.hostId === racer.userId) {
+        room.hostId = room.racers.keys().next().value as string;
+    }
+    broadcastRoom(room);
+}
+
+const closeRoom = (room: RaceRoom): void => {
+    clearTimers(room);
+    for (const racer of room.racers.values()) {
+        if (racer.graceTimer) clearTimeout(racer.graceTimer);
+        if (roomOfUser.get(racer.userId) === room.id) roomOfUser.delete(racer.userId);
+    }
+    for (const socketId of room.spectators) roomOfSpectator.delete(socketId);
+    namespace?.to(watchChannel(room.id)).emit('spectate:closed', { roomId: room.id });
+    namespace?.in(channel(room.id)).socketsLeave(channel(room.id));
+    namespace?.in(watchChannel(room.id)).socketsLeave(watchChannel(room.id));
+    rooms.delete(room.id);
+}
+
+/**
+ * A racer leaving mid-race forfeits: their run is cancelled (counts as
+ * played) and they rank last. They stay in the room for the standings.
+ */
+const forfeit = async (room: RaceRoom, racer: Racer): Promise<void> => {
+    if (racer.graceTimer) clearTimeout(racer.graceTimer);
+    racer.graceTimer = null;
+    if (racer.socketId) namespace?.in(racer.socketId).socketsLeave(channel(room.id));
+    racer.socketId = null;
+    if (roomOfUser.get(racer.userId) === room.id) roomOfUser.delete(racer.userId);
+
+    if (CLOSED_STATES.includes(racer.state)) return;
+
+    racer.state = 'forfeit';
+    namespace?.to(channel(room.id)).emit('game:opponent_forfeit', { roomId: room.id, userId: racer.userId });
+    broadcastRoom(room);
+    checkRaceOver(room);
+
+    if (racer.gameId) {
+        await cancelRun({ _id: racer.gameId, userId: new mongoose.Types.ObjectId(racer.userId) }, 'forfeit');
+    }
+}
+
+// A lobby or finished room is left before creating or joining another;
+// a live race has to be left explicitly (forfeit)
+const leaveCurrentRoom = async (userId: string): Promise<void> => {
+    if (isInLiveRace(userId)) {
+        throw new RaceRoomError('already_racing', 'Leave your current race first');
+    }
+    await leaveRoom(userId);
+}
+
+const rankRacers = (room: RaceRoom): RaceStanding[] =>
+    [...room.racers.values()]
+        .sort((a, b) =>
+            STATE_RANK[a.state] - STATE_RANK[b.state]
+            || (a.state === 'finished' && b.state === 'finished'
+                ? a.result!.timeTaken - b.result!.timeTaken
+                : b.progress - a.progress))
+        .map((racer, index) => ({
+            rank: index + 1,
+            userId: racer.userId,
+            username: racer.username,
+            state: racer.state,
+            score: racer.result?.score ?? null,
+            timeTaken: racer.result?.timeTaken ?? null,
+            distance: racer.result?.distance ?? racer.progress
+        }));
+
+const tick = (room: RaceRoom): void => {
+    const data: RaceProgressData = {
+        roomId: room.id,
+        raceTime: Date.now() - room.startTime!,
+        players: [...room.racers.values()].map(racer => ({
+            userId: racer.userId,
+            progress: racer.progress,
+            x: racer.x,
+            armyCount: racer.armyCount,
+            state: racer.state
+        })),
+        spectatorCount: room.spectators.size
+    };
+    namespace?.to([channel(room.id), watchChannel(room.id)]).emit('game:opponent_progress', data);
+}
+
+const endRace = (room: RaceRoom): void => {
+    clearTimers(room);
+    for (const racer of room.racers.values()) {
+        if (racer.state === 'racing') racer.state = 'dnf';
+    }
+
+    room.status = 'finished';
+    room.standings = rankRacers(room);
+
+    const data: RaceFinishData = { roomId: room.id, standings: room.standings };
+    namespace?.to([channel(room.id), watchChannel(room.id)]).emit('game:finish', data);
+    broadcastRoom(room);
+
+    room.timer = setTimeout(() => closeRoom(room), FINISHED_ROOM_TTL_MS);
+    room.timer.unref();
+    LOGGER.info(`[Race] Room ${room.id} finished with ${room.racers.size} racer(s)`);
+}
+
+// The race ends once every run is closed, or at the run deadline
+const checkRaceOver = (room: RaceRoom): void => {
+    if (room.status !== 'racing') return;
+    if ([...room.racers.values()].some(racer => racer.state === 'racing')) return;
+    endRace(room);
+}
+
+const startRace = (room: RaceRoom): void => {
+    room.status = 'racing';
+    namespace?.to(channel(room.id)).emit('game:start', {
+        roomId: room.id,
+        trackSeed: room.trackSeed,
+        startTime: room.startTime
+    });
+    broadcastRoom(room);
+
+    room.tickTimer = setInterval(() => tick(room), TICK_MS);
+    room.tickTimer.unref();
+    room.timer = setTimeout(() => endRace(room), RUN_DEADLINE_MS);
+    room.timer.unref();
+
+    checkRaceOver(room);
+}
+
+/**
+ * Everyone is ready: open one run per racer on a shared seed (each with
+ * their own upgrades) and count down to a common start time. Runs are
+ * finished through /runner/solo/finish like any other run.
+ */
+const startCountdown = async (room: RaceRoom): Promise<void> => {
+    room.status = 'countdown';
+    room.startTime = Date.now() + COUNTDOWN * 1000;
+    room.trackSeed = `${Date.now()}-race-${room.id}-${Math.random().toString(36).substring(2, 9)}`;
+    broadcastRoom(room);
+
+    const racers = [...room.racers.values()];
+    const users = await User.find({ _id: { $in: racers.map(racer => racer.userId) } }).select('upgrades');
+
+    const games: IRunnerGame[] = [];
+    for (const racer of racers) {
+        const user = users.find(candidate => candidate._id.toString() === racer.userId);
+        if (!user || racer.state !== 'waiting') continue; // Deleted, or left during setup
+
+        await cancelOpenRuns(user._id);
+
+        const game = new RunnerGame({
+            gameType: 'race',
+            raceId: room.id,
+            userId: user._id,
+            trackSeed: room.trackSeed,
+            trackDifficulty: DIFFICULTY,
+            upgradeLevels: {
+                capacity: user.upgrades.capacity,
+                addWarrior: user.upgrades.addWarrior,
+                warriorUpgrade: user.upgrades.warriorUpgrade,
+                income: user.upgrades.income,
+                speed: user.upgrades.speed,
+                jump: user.upgrades.jump,
+                bulletPower: user.upgrades.bulletPower,
+                magnetRadius: user.upgrades.magnetRadius
+            },
+            // Elapsed-time checks count from the start, not the countdown
+            startedAt: new Date(room.startTime),
+            status: 'in_progress'
+        });
+        if (!(await saveNewRun(game))) continue;
+
+        // Left while the run was being saved
+        if (racer.state !== 'waiting') {
+            await cancelRun(game, 'forfeit');
+            continue;
+        }
+
+        racer.gameId = game._id;
+        games.push(game);
+    }
+
+    if (games.length < MIN_PLAYERS) {
+        for (const game of games) await cancelRun(game, 'replaced');
+        LOGGER.warn(`[Race] Room ${room.id} could not start: ${games.length} run(s) opened`);
+
+        room.status = 'lobby';
+        room.startTime = null;
+        room.trackSeed = null;
+        for (const racer of room.racers.values()) {
+            racer.ready = false;
+            racer.gameId = null;
+        }
+        broadcastRoom(room);
+        return;
+    }
+
+    for (const racer of room.racers.values()) {
+        const game = games.find(candidate => racer.gameId?.equals(candidate._id));
+        if (!game) {
+            if (racer.state === 'waiting') racer.state = 'dnf';
+            continue;
+        }
+
+        racer.state = 'racing';
+        const data: RaceCountdownData = {
+            roomId: room.id,
+            seconds: Math.max(0, (room.startTime - Date.now()) / 1000),
+            startTime: room.startTime,
+            gameId: game._id.toString(),
+            runToken: issueRunToken(game),
+            trackSeed: game.trackSeed,
+            difficulty: game.trackDifficulty,
+            upgrades: game.upgradeLevels
+        };
+        emitToRacer(racer, 'game:countdown', data);
+    }
+    broadcastRoom(room);
+
+    room.timer = setTimeout(() => startRace(room), Math.max(0, room.startTime - Date.now()));
+    room.timer.unref();
+}
+
+const beginCountdown = (room: RaceRoom): void => {
+    startCountdown(room).catch(error => {
+        LOGGER.error(`[Race] Countdown failed for room ${room.id}: ` + error);
+        closeRoom(room);
+    });
+}
+
+const openRoom = (hostId: string, isPublic: boolean): RaceRoom => {
+    const room: RaceRoom = {
+        id: generateRoomId(),
+        hostId,
+        status: 'lobby',
+        isPublic,
+        racers: new Map(),
+        spectators: new Set(),
+        trackSeed: null,
+        startTime: null,
+        standings: null,
+        tickTimer: null,
+        timer: null
+    };
+    rooms.set(room.id, room);
+    return room;
+}
+
+export const attachRaceNamespace = (nsp: Namespace): void => {
+    namespace = nsp;
+}
+
+/**
+ * Open a new room with the caller as host. Public rooms are listed for spectators.
+ */
+export const createRoom = async (user: RaceUser, socket: Socket, isPublic = false): Promise<RaceRoomState> => {
+    await leaveCurrentRoom(user._id.toString());
+
+    const room = openRoom(user._id.toString(), isPublic);
+    addRacer(room, user, socket);
+
+    return toState(room);
+}
+
+/**
+ * Join a room's lobby by its code.
+ */
+export const joinRoom = async (roomId: string, user: RaceUser, socket: Socket): Promise<RaceRoomState> => {
+    const room = rooms.get(roomId.toUpperCase());
+    if (!room) throw new RaceRoomError('room_not_found', 'Race room not found');
+
+    const userId = user._id.toString();
+    if (room.racers.has(userId) && roomOfUser.get(userId) === room.id) {
+        reconnectRacer(userId, socket);
+        return toState(room);
+    }
+
+    if (room.status !== 'lobby') throw new RaceRoomError('race_started', 'This race has already started');
+    if (room.racers.size >= MAX_PLAYERS) throw new RaceRoomError('room_full', 'This race room is full');
+
+    await leaveCurrentRoom(userId);
+    addRacer(room, user, socket);
+    broadcastRoom(room);
+
+    return toState(room);
+}
+
+/**
+ * Leave the current room. Leaving after the countdown started forfeits the race.
+ */
+export const leaveRoom = async (userId: string): Promise<void> => {
+    const room = getRoomOf(userId);
+    const racer = room?.racers.get(userId);
+    if (!room || !racer) return;
+
+    if (room.status === 'countdown' || room.status === 'racing') {
+        await forfeit(room, racer);
+    } else {
+        removeRacer(room, racer);
+    }
+}
+
+/**
+ * Open a room for a matched group and start its countdown right away.
+ * Matched races are public.
+ */
+export const startMatchedRace = async (entrants: Array<{ user: RaceUser; socket: Socket }>): Promise<RaceRoomState> => {
+    for (const { user } of entrants) await leaveCurrentRoom(user._id.toString());
+
+    const room = openRoom(entrants[0].user._id.toString(), true);
+    for (const { user, socket } of entrants) {
+        addRacer(room, user, socket);
+        room.racers.get(user._id.toString())!.ready = true;
+    }
+    broadcastRoom(room);
+    beginCountdown(room);
+
+    return toState(room);
+}
+
+// Still running in a race that started (finished racers are free to go)
+export const isInLiveRace = (userId: string): boolean => {
+    const room = getRoomOf(userId);
+    const racer = room?.racers.get(userId);
+    return Boolean(room && racer && (room.status === 'countdown' || room.status === 'racing') && !CLOSED_STATES.includes(racer.state));
+}
+
+/**
+ * The caller's current room, if any.
+ */
+export const getCurrentRoom = (userId: string): RaceRoomState | null => {
+    const room = getRoomOf(userId);
+    return room ? toState(room) : null;
+}
+
+/**
+ * Mark the caller ready (or not). The countdown starts once at least
+ * MIN_PLAYERS are in the lobby and all of them are ready.
+ */
+export const setReady = (userId: string, ready: boolean): RaceRoomState => {
+    const room = getRoomOf(userId);
+    const racer = room?.racers.get(userId);
+    if (!room || !racer) throw new RaceRoomError('not_in_room', 'You are not in a race room');
+    if (room.status !== 'lobby') throw new RaceRoomError('race_started', 'This race has already started');
+
+    racer.ready = ready;
+    broadcastRoom(room);
+
+    const racers = [...room.racers.values()];
+    if (racers.length >= MIN_PLAYERS && racers.every(candidate => candidate.ready)) {
+        beginCountdown(room);
+    }
+
+    return toState(room);
+}
+
+/**
+ * Live position from the racer's client, relayed at TICK_RATE. Display only:
+ * clamped to the track and never backwards.
+ */
+export const updateProgress = (userId: string, progress: unknown, x: unknown, armyCount: unknown): void => {
+    const room = getRoomOf(userId);
+    const racer = room?.racers.get(userId);
+    if (!room || !racer || room.status !== 'racing' || racer.state !== 'racing') return;
+
+    if (typeof progress === 'number' && Number.isFinite(progress)) {
+        racer.progress = Math.min(Math.max(racer.progress, progress), BALANCE.track.LENGTH);
+    }
+    if (typeof x === 'number' && Number.isFinite(x)) {
+        racer.x = Math.min(Math.max(x, -BALANCE.track.HALF_WIDTH), BALANCE.track.HALF_WIDTH);
+    }
+    if (typeof armyCount === 'number' && Number.isFinite(armyCount)) {
+        racer.armyCount = Math.max(0, Math.floor(armyCount));
+    }
+}
+
+/**
+ * Record a closed race run: the validated result, or null when the run was
+ * rejected. Called after the finish endpoint commits.
+ */
+export const recordRaceRun = (
+    game: Pick<IRunnerGame, '_id' | 'userId' | 'raceId'>,
+    result: RaceRunResult | null
+): void => {
+    const room = game.raceId ? rooms.get(game.raceId) : undefined;
+    const racer = room?.racers.get(game.userId.toString());
+    if (!room || !racer || !racer.gameId?.equals(game._id) || racer.state !== 'racing') return;
+
+    if (result) {
+        racer.result = result;
+        racer.progress = result.distance;
+        racer.state = result.didFinish ? 'finished' : 'out';
+    } else {
+        racer.state = 'dnf';
+    }
+
+    broadcastRoom(room);
+    checkRaceOver(room);
+}
+
+/**
+ * The racer's socket dropped. They keep their place for RECONNECT_GRACE;
+ * after that they leave the lobby, or forfeit a running race.
+ */
+export const disconnectRacer = (userId: string, socketId: string): void => {
+    const room = getRoomOf(userId);
+    const racer = room?.racers.get(userId);
+    if (!room || !racer || racer.socketId !== socketId) return; // Already rebound to a newer socket
+
+    racer.socketId = null;
+    namespace?.to(channel(room.id)).emit('game:opponent_disconnect', { roomId: room.id, userId });
+    broadcastRoom(room);
+
+    racer.graceTimer = setTimeout(() => {
+        racer.graceTimer = null;
+        if (racer.socketId) return;
+        leaveRoom(userId).catch(error => LOGGER.error(`[Race] Leave after disconnect failed for ${userId}: ` + error));
+    }, RECONNECT_GRACE_MS);
+    racer.graceTimer.unref();
+}
+
+/**
+ * Rebind a returning racer's new socket to their room and send them its state.
+ * Returns false when the player is not in a room.
+ */
+export const reconnectRacer = (userId: string, socket: Socket): boolean => {
+    const room = getRoomOf(userId);
+    const racer = room?.racers.get(userId);
+    if (!room || !racer) return false;
+
+    if (racer.graceTimer) clearTimeout(racer.graceTimer);
+    racer.graceTimer = null;
+    racer.socketId = socket.id;
+    socket.join(channel(room.id));
+
+    socket.emit('race:room', toState(room));
+    broadcastRoom(room);
+    return true;
+}
+
+/**
+ * Public rooms that haven't finished, racing first.
+ */
+export const listPublicRooms = (): RaceRoomSummary[] =>
+    [...rooms.values()]
+        .filter(room => room.isPublic && room.status !== 'finished')
+        .sort((a, b) => Number(b.status === 'racing') - Number(a.status === 'racing') || b.spectators.size - a.spectators.size)
+        .slice(0, MAX_LISTED_ROOMS)
+        .map(room => ({
+            roomId: room.id,
+            status: room.status,
+            usernames: [...room.racers.values()].map(racer => racer.username),
+            spectatorCount: room.spectators.size,
+            startTime: room.startTime
+        }));
+
+/**
+ * Watch a public room read-only. Players in a live race can't spectate,
+ * and nobody can watch a room they are racing in.
+ */
+export const spectateRoom = (roomId: string, userId: string, socket: Socket): RaceSpectateState => {
+    const room = rooms.get(roomId.toUpperCase());
+    if (!room || !room.isPublic) throw new RaceRoomError('room_not_found', 'Race room not found');
+
+    if (isInLiveRace(userId)) {
+        throw new RaceRoomError('already_racing', 'You can\'t watch while racing');
+    }
+    if (room.racers.has(userId)) {
+        throw new RaceRoomError('own_room', 'You are racing in this room');
+    }
+
+    stopSpectating(socket.id);
+    room.spectators.add(socket.id);
+    roomOfSpectator.set(socket.id, room.id);
+    socket.join(watchChannel(room.id));
+    broadcastRoom(room);
+
+    return toSpectateState(room);
+}
+
+/**
+ * Stop watching. Returns false when the socket wasn't spectating.
+ */
+export const stopSpectating = (socketId: string): boolean => {
+    const roomId = roomOfSpectator.get(socketId);
+    const room = roomId ? rooms.get(roomId) : undefined;
+    roomOfSpectator.delete(socketId);
+    if (!room) return false;
+
+    room.spectators.delete(socketId);
+    namespace?.in(socketId).socketsLeave(watchChannel(room.id));
+    broadcastRoom(room);
+    return true;
+}
+
+// A race still being run on the room's seed
+export const isRaceLive = (roomId: string): boolean => {
+    const status = rooms.get(roomId)?.status;
+    return status === 'countdown' || status === 'racing';
+}
+
+export const stopRaceRooms = (): void => {
+    for (const room of [...rooms.values()]) closeRoom(room);
+}
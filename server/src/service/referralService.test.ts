@@ -0,0 +1,61 @@
+import { test, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose, { ClientSession } from 'mongoose';
+import { Referral } from '../models/Referral.js';
+import { User } from '../models/Users.js';
+import { Transaction } from '../models/Transactions.js';
+import { REFERRAL_RUNS_REQUIRED, normalizeReferralCode, recordReferralRun } from './referralService.js';
+
+const session = {} as ClientSession;
+const query = <T>(value: T) => ({ select: () => query(value), session: async () => value });
+
+afterEach(() => mock.restoreAll());
+
+test('only runs finished after redeeming count toward the referral', async () => {
+    const referrerId = new mongoose.Types.ObjectId();
+    const player = {
+        _id: new mongoose.Types.ObjectId(),
+        username: 'veteran',
+        gamesPlayed: 40, // Played long before redeeming
+        trustScore: 100,
+        referredBy: referrerId.toString()
+    };
+
+    // The referral as redeemed: no runs counted yet
+    const referral = { _id: new mongoose.Types.ObjectId(), referrerId, runsCompleted: 0, status: 'pending' };
+    mock.method(Referral, 'findOneAndUpdate', async () => {
+        if (referral.status !== 'pending') return null;
+        referral.runsCompleted += 1;
+        return { ...referral };
+    });
+    mock.method(Referral, 'updateOne', async (_filter: unknown, update: { $set: { status: string } }) => {
+        referral.status = update.$set.status;
+    });
+    mock.method(Referral, 'countDocuments', () => query(1));
+    mock.method(User, 'findById', () => query(null)); // Referrer's share is skipped
+    const credit = mock.method(User, 'findOneAndUpdate', async () => ({ _id: player._id, coins: 0, gems: 0 }));
+    mock.method(Transaction, 'create', async () => []);
+
+    for (let run = 1; run < REFERRAL_RUNS_REQUIRED; run++) {
+        assert.equal(await recordReferralRun(player, session), null);
+        assert.equal(referral.status, 'pending');
+    }
+    assert.equal(credit.mock.callCount(), 0);
+
+    const payout = await recordReferralRun(player, session);
+    assert.ok(payout);
+    assert.equal(referral.status, 'rewarded');
+    assert.equal(credit.mock.callCount(), 1);
+});
+
+test('players without a redeemed code are left alone', async () => {
+    const findOneAndUpdate = mock.method(Referral, 'findOneAndUpdate', async () => null);
+    const player = { _id: new mongoose.Types.ObjectId(), username: 'solo', trustScore: 100 };
+
+    assert.equal(await recordReferralRun(player, session), null);
+    assert.equal(findOneAndUpdate.mock.callCount(), 0);
+});
+
+test('referral codes match in any case, as stored lowercase', () => {
+    assert.equal(normalizeReferralCode('  AbC123 '), 'abc123');
+});
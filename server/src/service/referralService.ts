@@ -0,0 +1,184 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Referral } from '../models/Referral.js';
+import { Achievement } from '../models/Achievement.js';
+import { User, IUser } from '../models/Users.js';
+import { withTransaction } from '../db/db.js';
+import { LEADERBOARD_MIN_TRUST } from './cheatFlagService.js';
+import * as WalletService from './walletService.js';
+import type { ReferralInfo, ReferralReward } from '@shared/types/game.types.js';
+
+// New accounts can redeem a code for this long after signing up
+export const REFERRAL_GRACE_DAYS = 7;
+// Runs finished after redeeming before both players are rewarded
+export const REFERRAL_RUNS_REQUIRED = 3;
+
+export const REFERRER_REWARD: ReferralReward = { coins: 1000, gems: 20 };
+export const REFEREE_REWARD: ReferralReward = { coins: 500, gems: 10 };
+const MAX_REWARDED_REFERRALS = 50; // Referrer rewards a player can ever earn
+
+const GRACE_PERIOD_MS = REFERRAL_GRACE_DAYS * 24 * 60 * 60 * 1000;
+
+// Codes are stored lowercase; players may type them in any case
+export const normalizeReferralCode = (code: string): string => code.trim().toLowerCase();
+
+export type ReferralErrorCode =
+    | 'invalid_code'
+    | 'self_referral'
+    | 'circular_referral'
+    | 'already_referred'
+    | 'grace_period_over';
+
+export class ReferralError extends Error {
+    constructor(public code: ReferralErrorCode, message: string) {
+        super(message);
+        this.name = 'ReferralError';
+    }
+}
+
+// A referral paid out by a finished run
+export interface ReferralPayout {
+    referrerId: mongoose.Types.ObjectId;
+    referrerRewarded: number; // Their rewarded referrals, for the refer achievements
+    reward: ReferralReward; // Paid to the referee
+}
+
+// refer_5 (ACHIEVEMENTS.REFER_5 on the client), unlocked by five rewarded referrals
+export const REFERRAL_ACHIEVEMENT = {
+    achievementId: 'refer_5',
+    name: 'Friendly',
+    description: 'Refer 5 friends',
+    icon: '🤝',
+    requirement: { type: 'referrals', target: 5 },
+    reward: { coins: 2500, gems: 50 },
+    tier: 'silver',
+    active: true
+} as const;
+
+/**
+ * Create the referral achievement on startup when it's missing, so referral
+ * progress has something to count toward. Edits made since are kept.
+ */
+export const ensureReferralAchievement = async (): Promise<void> => {
+    await Achievement.updateOne(
+        { achievementId: REFERRAL_ACHIEVEMENT.achievementId },
+        { $setOnInsert: REFERRAL_ACHIEVEMENT },
+        { upsert: true }
+    );
+}
+
+const getRedeemDeadline = (createdAt: Date): Date => new Date(createdAt.getTime() + GRACE_PERIOD_MS);
+
+/**
+ * The player's own code and how many players redeemed it, and the state of
+ * the referral they redeemed themselves (or until when they still can).
+ */
+export const getReferralInfo = async (userId: mongoose.Types.ObjectId): Promise<ReferralInfo> => {
+    const user = await User.findById(userId).select('referralCode referredBy createdAt').orFail();
+
+    const [referral, counts] = await Promise.all([
+        Referral.findOne({ refereeId: userId })
+            .populate<{ referrerId: Pick<IUser, '_id' | 'username'> | null }>('referrerId', 'username'),
+        Referral.aggregate<{ _id: 'pending' | 'rewarded'; count: number }>([
+            { $match: { referrerId: user._id } },
+            { $group: { _id: '$status', count: { $sum: 1 } } }
+        ])
+    ]);
+    const countOf = (status: 'pending' | 'rewarded') => counts.find(count => count._id === status)?.count ?? 0;
+
+    const deadline = getRedeemDeadline(user.createdAt);
+    const canRedeem = !referral && !user.referredBy && deadline.getTime() > Date.now();
+
+    return {
+        code: user.referralCode ?? '',
+        referredBy: referral ? referral.referrerId?.username ?? 'Unknown' : null, // Account may have been deleted
+        redeemBefore: canRedeem ? deadline.toISOString() : null,
+        runsRequired: REFERRAL_RUNS_REQUIRED,
+        runsCompleted: Math.min(referral?.runsCompleted ?? 0, REFERRAL_RUNS_REQUIRED),
+        rewarded: referral?.status === 'rewarded',
+        referrals: { pending: countOf('pending'), rewarded: countOf('rewarded') },
+        rewards: { referrer: REFERRER_REWARD, referee: REFEREE_REWARD }
+    };
+}
+
+/**
+ * Redeem another player's referral code. Only within the grace period after
+ * signing up, once per account, and not the player's own code or the code
+ * of someone they referred. The rewards follow from finished runs.
+ */
+export const redeemReferralCode = async (userId: mongoose.Types.ObjectId, code: string): Promise<ReferralInfo> => {
+    const normalized = normalizeReferralCode(code);
+    const [user, referrer] = await Promise.all([
+        User.findById(userId).select('referredBy createdAt').orFail(),
+        User.findOne({ referralCode: normalized }).select('referredBy')
+    ]);
+    if (user.referredBy) throw new ReferralError('already_referred', 'You already redeemed a referral code');
+    if (getRedeemDeadline(user.createdAt).getTime() <= Date.now()) {
+        throw new ReferralError('grace_period_over', `Referral codes can only be redeemed within ${REFERRAL_GRACE_DAYS} days of signing up`);
+    }
+    if (!referrer) throw new ReferralError('invalid_code', 'Referral code not found');
+    if (referrer._id.equals(userId)) throw new ReferralError('self_referral', 'You cannot redeem your own code');
+    if (referrer.referredBy === userId.toString()) {
+        throw new ReferralError('circular_referral', 'You cannot redeem the code of a player you referred');
+    }
+
+    await withTransaction(async (session) => {
+        // Only the first redemption sets it, even when two race
+        const claimed = await User.updateOne(
+            { _id: userId, referredBy: null },
+            { $set: { referredBy: referrer._id.toString() } },
+            { session }
+        );
+        if (claimed.modifiedCount === 0) throw new ReferralError('already_referred', 'You already redeemed a referral code');
+
+        await Referral.create([{ referrerId: referrer._id, refereeId: userId, code: normalized }], { session });
+    });
+
+    return getReferralInfo(userId);
+}
+
+/**
+ * Count a referred player's finished run toward their pending referral, and
+ * pay it out once REFERRAL_RUNS_REQUIRED runs finished after redeeming.
+ * Runs inside the finish transaction, so only accepted runs count. A flagged
+ * referee's referral waits for a later run; a flagged referrer, or one past
+ * MAX_REWARDED_REFERRALS, forfeits their share.
+ */
+export const recordReferralRun = async (
+    player: Pick<IUser, '_id' | 'username' | 'trustScore' | 'referredBy'>,
+    session: ClientSession
+): Promise<ReferralPayout | null> => {
+    if (!player.referredBy) return null;
+
+    const referral = await Referral.findOneAndUpdate(
+        { refereeId: player._id, status: 'pending' },
+        { $inc: { runsCompleted: 1 } },
+        { new: true, session }
+    );
+    if (!referral || referral.runsCompleted < REFERRAL_RUNS_REQUIRED) return null;
+    if (player.trustScore < LEADERBOARD_MIN_TRUST) return null;
+
+    await Referral.updateOne(
+        { _id: referral._id },
+        { $set: { status: 'rewarded', rewardedAt: new Date() } },
+        { session }
+    );
+
+    await WalletService.credit(player._id, REFEREE_REWARD, {
+        type: 'referral',
+        description: 'Referral bonus',
+        metadata: { referralId: referral._id }
+    }, session);
+
+    const referrer = await User.findById(referral.referrerId).select('trustScore').session(session);
+    const referrerRewarded = await Referral.countDocuments({ referrerId: referral.referrerId, status: 'rewarded' })
+        .session(session);
+    if (referrer && referrer.trustScore >= LEADERBOARD_MIN_TRUST && referrerRewarded <= MAX_REWARDED_REFERRALS) {
+        await WalletService.credit(referrer._id, REFERRER_REWARD, {
+            type: 'referral',
+            description: `Referral reward: ${player.username} joined`,
+            metadata: { referralId: referral._id }
+        }, session);
+    }
+
+    return { referrerId: referral.referrerId, referrerRewarded, reward: REFEREE_REWARD };
+}
@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+import { RunnerGame, IRunnerGame } from '../models/RunnerGame.js';
+import { User } from '../models/Users.js';
+import { withTransaction } from '../db/db.js';
+import { LOGGER } from '../log/logger.js';
+import { BALANCE } from '@shared/config/balance.js';
+
+// A run still open after twice the game duration was abandoned (quit from
+// the pause menu, tab closed); the extra time covers pauses and slow gates
+export const RUN_DEADLINE_MS = BALANCE.timing.GAME_DURATION * 2 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Cancel one open run. Cancelled runs count as played, so quitting can't
+ * dodge a loss. Returns false when the run was no longer in progress.
+ */
+export const cancelRun = (
+    game: Pick<IRunnerGame, '_id' | 'userId'>,
+    reason: NonNullable<IRunnerGame['cancelReason']>
+): Promise<boolean> =>
+    withTransaction(async (session) => {
+        const cancelled = await RunnerGame.findOneAndUpdate(
+            { _id: game._id, status: 'in_progress' },
+            { $set: { status: 'cancelled', cancelReason: reason, finishedAt: new Date() } },
+            { session }
+        );
+        if (!cancelled) return false;
+
+        await User.updateOne({ _id: game.userId }, { $inc: { gamesPlayed: 1 } }, { session });
+        return true;
+    });
+
+/**
+ * Save a new in-progress run. Returns false when the unique open-run index
+ * rejects it (a concurrent start won the race).
+ */
+export const saveNewRun = async (game: IRunnerGame): Promise<boolean> => {
+    try {
+        await game.save();
+        return true;
+    } catch (error) {
+        if ((error as { code?: number }).code === 11000) return false;
+        throw error;
+    }
+}
+
+/**
+ * Cancel the player's open runs before a new one starts.
+ * Returns how many were cancelled.
+ */
+export const cancelOpenRuns = async (userId: mongoose.Types.ObjectId): Promise<number> => {
+    const openRuns = await RunnerGame.find({ userId, status: 'in_progress' }).select('_id userId');
+
+    let count = 0;
+    for (const game of openRuns) {
+        if (await cancelRun(game, 'replaced')) count++;
+    }
+    return count;
+}
+
+/**
+ * Cancel every run older than RUN_DEADLINE_MS that is still in progress.
+ */
+export const cancelStaleRuns = async (): Promise<number> => {
+    const deadline = new Date(Date.now() - RUN_DEADLINE_MS);
+    const staleRuns = await RunnerGame.find({ status: 'in_progress', startedAt: { $lte: deadline } }).select('_id userId');
+
+    let count = 0;
+    for (const game of staleRuns) {
+        if (await cancelRun(game, 'expired')) count++;
+    }
+
+    if (count > 0) LOGGER.info(`[Runs] Cancelled ${count} stale run(s)`);
+    return count;
+}
+
+export const startRunSweeper = (): void => {
+    if (sweepTimer) return;
+
+    const sweep = () => cancelStaleRuns().catch(error => LOGGER.error('[Runs] Sweep failed:' + error));
+    sweep();
+    sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS);
+    sweepTimer.unref();
+}
+
+export const stopRunSweeper = (): void => {
+    if (sweepTimer) clearInterval(sweepTimer);
+    sweepTimer = null;
+}
+
+// Runs past their deadline are treated as cancelled even before the sweeper gets to them
+export const isRunExpired = (game: Pick<IRunnerGame, 'startedAt'>, now = Date.now()): boolean =>
+    now - game.startedAt.getTime() > RUN_DEADLINE_MS;
@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkElapsedTime } from './runTokenService.js';
+
+const startedAt = new Date('2026-01-01T00:00:00Z');
+const secondsLater = (seconds: number) => startedAt.getTime() + seconds * 1000;
+
+test('a run claimed well under real elapsed time passes (paused or backgrounded)', () => {
+    assert.equal(checkElapsedTime(45, startedAt, secondsLater(150)), null);
+});
+
+test('a short run claimed long after it started is rejected', () => {
+    const mismatch = checkElapsedTime(6, startedAt, secondsLater(3600));
+    assert.ok(mismatch);
+    assert.match(mismatch.reason, /too short/);
+});
+
+test('a run claimed longer than real elapsed time is rejected', () => {
+    const mismatch = checkElapsedTime(90, startedAt, secondsLater(60));
+    assert.ok(mismatch);
+    assert.equal(mismatch.expected.elapsed, 60);
+});
@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { IRunnerGame } from '../models/RunnerGame.js';
+import { CONFIG } from '../config/enviroments.js';
+import { RUN_DEADLINE_MS } from './runLifecycleService.js';
+import { BALANCE } from '@shared/config/balance.js';
+
+// Real time vs claimed run time. Claimed time can't exceed the wall clock
+// (plus latency / clock jitter); the wall clock may exceed it by the
+// countdown, pauses and the post-game submit, but not by more than a run
+// is kept open.
+const CLOCK_TOLERANCE = 2; // seconds
+const MAX_UNPLAYED_TIME = RUN_DEADLINE_MS / 1000; // seconds
+
+const TOKEN_AUDIENCE = 'coinrun:solo-run';
+
+interface RunTokenPayload {
+    gameId: string;
+    userId: string;
+    seed: string;
+    upgradesHash: string;
+    iat: number; // Issue time (seconds), set by jwt.sign
+}
+
+export type RunTokenCheck = { valid: true; issuedAt: Date } | { valid: false; reason: string };
+
+// Stable hash of the upgrade snapshot (key order from the balance config)
+const hashUpgrades = (upgradeLevels: IRunnerGame['upgradeLevels']): string => {
+    const levels = Object.keys(BALANCE.upgrades.BASE_COSTS)
+        .map(key => `${key}:${upgradeLevels[key as keyof IRunnerGame['upgradeLevels']] ?? 0}`)
+        .join(',');
+    return crypto.createHash('sha256').update(levels).digest('hex');
+}
+
+/**
+ * Sign the token returned by startSoloGame. It binds the run to its
+ * player, seed and upgrade snapshot, and expires with the run deadline.
+ */
+export const issueRunToken = (game: IRunnerGame): string =>
+    jwt.sign({
+        gameId: game._id.toString(),
+        userId: game.userId.toString(),
+        seed: game.trackSeed,
+        upgradesHash: hashUpgrades(game.upgradeLevels)
+    }, CONFIG.RUN_TOKEN_SECRET, {
+        audience: TOKEN_AUDIENCE,
+        expiresIn: Math.ceil(RUN_DEADLINE_MS / 1000)
+    });
+
+/**
+ * Check a finish request's token against the stored run.
+ */
+export const verifyRunToken = (token: unknown, game: IRunnerGame): RunTokenCheck => {
+    if (typeof token !== 'string') return { valid: false, reason: 'Missing run token' };
+
+    let payload: RunTokenPayload;
+    try {
+        payload = jwt.verify(token, CONFIG.RUN_TOKEN_SECRET, { audience: TOKEN_AUDIENCE }) as RunTokenPayload;
+    } catch (error) {
+        return { valid: false, reason: error instanceof jwt.TokenExpiredError ? 'Run token expired' : 'Invalid run token' };
+    }
+
+    if (payload.gameId !== game._id.toString() ||
+        payload.userId !== game.userId.toString() ||
+        payload.seed !== game.trackSeed ||
+        payload.upgradesHash !== hashUpgrades(game.upgradeLevels)) {
+        return { valid: false, reason: 'Run token does not match this game' };
+    }
+
+    return { valid: true, issuedAt: new Date(payload.iat * 1000) };
+}
+
+/**
+ * Compare the claimed run time (seconds) with the real time since the run
+ * started. Returns the rejection reason and accepted range, or null when it fits.
+ * Pausing, a background tab or a retried submit make honest runs finish
+ * well after their play time, so the lower bound allows a run deadline of it.
+ */
+export const checkElapsedTime = (
+    claimedSeconds: number,
+    startedAt: Date,
+    now = Date.now()
+): { reason: string; expected: { elapsed: number; minTime: number; maxTime: number } } | null => {
+    const elapsed = (now - startedAt.getTime()) / 1000;
+    const expected = {
+        elapsed,
+        minTime: Math.max(0, elapsed - MAX_UNPLAYED_TIME),
+        maxTime: elapsed + CLOCK_TOLERANCE
+    };
+
+    if (claimedSeconds > expected.maxTime) {
+        return { reason: `Run time ${claimedSeconds.toFixed(1)}s exceeds real elapsed ${elapsed.toFixed(1)}s`, expected };
+    }
+
+    if (claimedSeconds < expected.minTime) {
+        return { reason: `Run time ${claimedSeconds.toFixed(1)}s too short for real elapsed ${elapsed.toFixed(1)}s`, expected };
+    }
+
+    return null;
+}
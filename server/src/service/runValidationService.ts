@@ -0,0 +1,124 @@
+import { IRunnerGame, IRunStats } from '../models/RunnerGame.js';
+import { generateTrack } from '@shared/game/trackGenerator.js';
+import { simulateRun, RunSimulationResult } from '@shared/game/runSimulator.js';
+import { getRunModifiers, GameResult, GhostTrack, RunInput } from '@shared/types/game.types.js';
+
+// Replay tolerances - the client renders at a variable frame rate, the replay uses a fixed step
+const MAX_INPUTS = 5000;
+const COIN_TOLERANCE = { min: 3, ratio: 0.1 };
+const ARMY_TOLERANCE = { min: 2, ratio: 0.1 };
+const DISTANCE_TOLERANCE = 0.03; // fraction of track length
+const TIME_TOLERANCE = 1; // seconds
+const GHOST_SAMPLE_INTERVAL = 100; // ms
+
+const INPUT_DIRECTIONS = ['left', 'right', 'stop'];
+
+export type RunValidationStatus = 'valid' | 'corrected' | 'rejected';
+
+export interface RunValidation {
+    status: RunValidationStatus;
+    reason?: string;
+    claimed: IRunStats;
+    simulated: IRunStats;
+    stats: IRunStats; // What the server will record and reward
+    ghost?: GhostTrack; // Replayed path for ghost racing
+}
+
+/**
+ * Parse the input log from a finish request.
+ * Returns null when it is malformed (wrong shape, unsorted, too long).
+ */
+export const parseRunInputs = (raw: unknown): RunInput[] | null => {
+    if (!Array.isArray(raw) || raw.length > MAX_INPUTS) return null;
+
+    const inputs: RunInput[] = [];
+    let lastTimestamp = 0;
+
+    for (const entry of raw) {
+        if (!entry || typeof entry !== 'object') return null;
+
+        const { direction, timestamp } = entry as Record<string, unknown>;
+        if (typeof direction !== 'string' || !INPUT_DIRECTIONS.includes(direction)) return null;
+        if (typeof timestamp !== 'number' || !Number.isFinite(timestamp) || timestamp < lastTimestamp) return null;
+
+        inputs.push({ direction: direction as RunInput['direction'], timestamp });
+        lastTimestamp = timestamp;
+    }
+
+    return inputs;
+}
+
+const withinTolerance = (claimed: number, simulated: number, tolerance: { min: number; ratio: number }): boolean =>
+    claimed <= simulated + Math.max(tolerance.min, simulated * tolerance.ratio);
+
+const toStats = (simulation: RunSimulationResult): IRunStats => ({
+    coinsCollected: simulation.coinsCollected,
+    maxArmy: simulation.maxArmy,
+    distanceTraveled: simulation.distanceTraveled,
+    timeTaken: simulation.timeTaken,
+    didFinish: simulation.didFinish
+});
+
+/**
+ * Re-simulate a run against its seeded track and compare with the client's claim.
+ * Small drift is corrected to the replayed values, anything beyond tolerance is rejected.
+ */
+export const replayRun = (game: IRunnerGame, result: GameResult, inputs: RunInput[]): RunValidation => {
+    const claimed: IRunStats = {
+        coinsCollected: result.coinsCollected || 0,
+        maxArmy: result.maxArmy || 0,
+        distanceTraveled: result.distanceTraveled || 0,
+        timeTaken: result.timeTaken || 0,
+        didFinish: result.didFinish || false
+    };
+
+    const track = generateTrack(game.trackSeed, game.trackDifficulty);
+
+    // Unfinished runs end when the player stopped; finished runs get some slack to reach the line
+    const maxDuration = claimed.didFinish ? claimed.timeTaken + TIME_TOLERANCE : claimed.timeTaken;
+    const modifiers = getRunModifiers(game.upgradeLevels);
+    const simulation = simulateRun(track, inputs, maxDuration, modifiers, GHOST_SAMPLE_INTERVAL);
+    const simulated = toStats(simulation);
+
+    const reject = (reason: string): RunValidation => ({ status: 'rejected', reason, claimed, simulated, stats: simulated });
+
+    if (claimed.didFinish !== simulated.didFinish) {
+        return reject(`Finish mismatch: claimed ${claimed.didFinish}, replay ${simulated.didFinish}`);
+    }
+
+    if (claimed.didFinish && claimed.timeTaken < simulated.timeTaken - TIME_TOLERANCE) {
+        return reject(`Time mismatch: claimed ${claimed.timeTaken.toFixed(2)}s, replay ${simulated.timeTaken.toFixed(2)}s`);
+    }
+
+    if (Math.abs(claimed.distanceTraveled - simulated.distanceTraveled) > track.totalLength * DISTANCE_TOLERANCE) {
+        return reject(`Distance mismatch: claimed ${Math.round(claimed.distanceTraveled)}m, replay ${Math.round(simulated.distanceTraveled)}m`);
+    }
+
+    if (!withinTolerance(claimed.coinsCollected, simulated.coinsCollected, COIN_TOLERANCE)) {
+        return reject(`Coins mismatch: claimed ${claimed.coinsCollected}, replay ${simulated.coinsCollected}`);
+    }
+
+    if (!withinTolerance(claimed.maxArmy, simulated.maxArmy, ARMY_TOLERANCE)) {
+        return reject(`Army mismatch: claimed ${claimed.maxArmy}, replay ${simulated.maxArmy}`);
+    }
+
+    // Within tolerance: record replayed pickups and distance, keep the client's
+    // wall time since lag can only make a real run slower than the replay
+    const stats: IRunStats = {
+        coinsCollected: simulated.coinsCollected,
+        maxArmy: simulated.maxArmy,
+        distanceTraveled: simulated.distanceTraveled,
+        timeTaken: claimed.timeTaken,
+        didFinish: simulated.didFinish
+    };
+
+    const corrections = (['coinsCollected', 'maxArmy', 'distanceTraveled'] as const)
+        .filter(key => Math.round(claimed[key]) !== Math.round(stats[key]))
+        .map(key => `${key} ${Math.round(claimed[key])} -> ${Math.round(stats[key])}`);
+
+    if (corrections.length > 0) {
+        return { status: 'corrected', reason: `Corrected from replay: ${corrections.join(', ')}`, claimed, simulated, stats, ghost: simulation.ghost };
+    }
+
+    return { status: 'valid', claimed, simulated, stats, ghost: simulation.ghost };
+}
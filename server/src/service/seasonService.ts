@@ -0,0 +1,324 @@
+import mongoose from 'mongoose';
+import { Season, ISeason, ISeasonRewardTier } from '../models/Season.js';
+import { SeasonResult, ISeasonResult } from '../models/SeasonResult.js';
+import { RunnerGame } from '../models/RunnerGame.js';
+import { withTransaction } from '../db/db.js';
+import { LOGGER } from '../log/logger.js';
+import { aggregateLeaderboard, LeaderboardRow } from './leaderboardService.js';
+import { getShadowExcludedUserIds } from './cheatFlagService.js';
+import { RUN_DEADLINE_MS } from './runLifecycleService.js';
+import * as WalletService from './walletService.js';
+import { BALANCE } from '@shared/config/balance.js';
+import type {
+    SeasonPlacement,
+    SeasonStanding,
+    SeasonStandingsData,
+    SeasonState,
+    SeasonSummary
+} from '@shared/types/game.types.js';
+
+const CLOSE_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_REWARD_TIERS = 20;
+const PAYOUT_BATCH_SIZE = 100; // Rewards paid per transaction
+
+let closeTimer: NodeJS.Timeout | null = null;
+
+export type SeasonErrorCode = 'season_not_found' | 'invalid_season' | 'overlapping_season';
+
+export class SeasonError extends Error {
+    constructor(public code: SeasonErrorCode, message: string) {
+        super(message);
+        this.name = 'SeasonError';
+    }
+}
+
+export interface NewSeason {
+    name: string;
+    startsAt: Date;
+    endsAt: Date;
+    rewards?: ISeasonRewardTier[]; // BALANCE.season.REWARDS when omitted
+}
+
+// Solo runs finished within the season count toward it
+const seasonRuns = (season: ISeason) => ({
+    gameType: 'solo',
+    finishedAt: { $gte: season.startsAt, $lt: season.endsAt }
+});
+
+export const getSeasonState = (season: ISeason, now = Date.now()): SeasonState => {
+    if (season.status === 'closed') return 'closed';
+    if (season.status === 'closing') return 'ended';
+    if (now < season.startsAt.getTime()) return 'upcoming';
+    return now < season.endsAt.getTime() ? 'active' : 'ended';
+}
+
+// Tiers are sorted by maxRank, so the first one reaching the rank pays it
+export const getSeasonReward = (
+    rewards: ISeasonRewardTier[],
+    rank: number
+): { coins: number; gems: number } | null => {
+    const tier = rewards.find(reward => rank <= reward.maxRank);
+    return tier ? { coins: tier.coins, gems: tier.gems } : null;
+}
+
+const toSummary = (season: ISeason): SeasonSummary => ({
+    id: season._id.toString(),
+    name: season.name,
+    startsAt: season.startsAt.toISOString(),
+    endsAt: season.endsAt.toISOString(),
+    state: getSeasonState(season),
+    rewards: season.rewards.map(({ maxRank, coins, gems }) => ({ maxRank, coins, gems })),
+    totalPlayers: season.totalPlayers ?? null
+});
+
+const toLiveStanding = (row: LeaderboardRow, rewards: ISeasonRewardTier[]): SeasonStanding => ({
+    rank: row.rank,
+    userId: row._id.toString(),
+    username: row.username,
+    score: row.score,
+    skin: row.skin,
+    reward: getSeasonReward(rewards, row.rank)
+});
+
+const toFinalStanding = (result: ISeasonResult): SeasonStanding => ({
+    rank: result.rank,
+    userId: result.userId.toString(),
+    username: result.username,
+    score: result.score,
+    skin: result.skin,
+    reward: result.reward ?? null
+});
+
+// Reward tiers by strictly increasing maxRank, with whole non-negative amounts
+const isValidRewardTable = (rewards: ISeasonRewardTier[]): boolean =>
+    rewards.length <= MAX_REWARD_TIERS && rewards.every((tier, index) =>
+        Number.isInteger(tier.maxRank) && tier.maxRank >= 1
+        && (index === 0 || tier.maxRank > rewards[index - 1].maxRank)
+        && Number.isInteger(tier.coins) && tier.coins >= 0
+        && Number.isInteger(tier.gems) && tier.gems >= 0);
+
+/**
+ * Schedule a season. Seasons can't overlap, so a run counts toward one at most.
+ */
+export const createSeason = async (data: NewSeason): Promise<SeasonSummary> => {
+    const rewards = data.rewards ?? [...BALANCE.season.REWARDS];
+    if (data.endsAt.getTime() <= data.startsAt.getTime() || data.endsAt.getTime() <= Date.now()) {
+        throw new SeasonError('invalid_season', 'A season must end after it starts, and in the future');
+    }
+    if (!isValidRewardTable(rewards)) {
+        throw new SeasonError('invalid_season', 'Invalid reward table');
+    }
+
+    const overlapping = await Season.exists({ startsAt: { $lt: data.endsAt }, endsAt: { $gt: data.startsAt } });
+    if (overlapping) throw new SeasonError('overlapping_season', 'Another season overlaps these dates');
+
+    const season = await Season.create({ name: data.name, startsAt: data.startsAt, endsAt: data.endsAt, rewards });
+    LOGGER.info(`[Season] Scheduled ${season.name} (${season._id})`);
+    return toSummary(season);
+}
+
+// Every season, newest first
+export const listSeasons = async (): Promise<SeasonSummary[]> =>
+    (await Season.find().sort({ startsAt: -1 })).map(toSummary);
+
+/**
+ * A season's top standings with the reward each rank gets: live from runs
+ * while open, the frozen final standings once archived. Shadow-excluded
+ * players see themselves in live standings, like on the other boards.
+ */
+export const getSeasonStandings = async (
+    seasonId: string,
+    limit: number,
+    viewerId?: mongoose.Types.ObjectId
+): Promise<SeasonStandingsData> => {
+    const season = mongoose.isValidObjectId(seasonId) ? await Season.findById(seasonId) : null;
+    if (!season) throw new SeasonError('season_not_found', 'Season not found');
+
+    if (season.status !== 'open') {
+        const [results, own] = await Promise.all([
+            SeasonResult.find({ seasonId: season._id }).sort({ rank: 1 }).limit(limit),
+            viewerId ? SeasonResult.findOne({ seasonId: season._id, userId: viewerId }) : null
+        ]);
+        return {
+            season: toSummary(season),
+            entries: results.map(toFinalStanding),
+            me: own ? toFinalStanding(own) : null
+        };
+    }
+
+    const rows = getSeasonState(season) === 'upcoming'
+        ? []
+        : await aggregateLeaderboard(seasonRuns(season), limit, viewerId);
+    const entries = rows.map(row => toLiveStanding(row, season.rewards));
+    return {
+        season: toSummary(season),
+        entries,
+        me: entries.find(entry => viewerId && entry.userId === viewerId.toString()) ?? null
+    };
+}
+
+/**
+ * The player's final placement in every closed season they ranked in, newest first.
+ */
+export const getPlacementHistory = async (userId: mongoose.Types.ObjectId): Promise<SeasonPlacement[]> => {
+    const results = await SeasonResult.find({ userId })
+        .sort({ createdAt: -1 })
+        .populate<{ seasonId: ISeason | null }>('seasonId');
+
+    return results.flatMap(result => result.seasonId
+        ? [{
+            season: toSummary(result.seasonId),
+            rank: result.rank,
+            score: result.score,
+            reward: result.reward ?? null
+        }]
+        : []);
+}
+
+// Reward for the rank field by tier, left unset outside the tiers
+const rewardExpression = (rewards: ISeasonRewardTier[]) => ({
+    $switch: {
+        branches: rewards.map(tier => ({
+            case: { $lte: ['$rank', tier.maxRank] },
+            then: { $literal: { coins: tier.coins, gems: tier.gems } }
+        })),
+        default: '$$REMOVE'
+    }
+});
+
+/**
+ * Rank every player's best run of the season straight into SeasonResult,
+ * ranked like the live standings. Rerunning keeps results already written.
+ */
+const archiveStandings = async (season: ISeason): Promise<number> => {
+    const excludedUserIds = await getShadowExcludedUserIds();
+
+    await RunnerGame.aggregate([
+        { $match: { ...seasonRuns(season), status: 'finished', userId: { $nin: excludedUserIds } } },
+        { $group: { _id: '$userId', score: { $max: '$finalScore' } } },
+        { $setWindowFields: { sortBy: { score: -1, _id: 1 }, output: { rank: { $documentNumber: {} } } } },
+        { $lookup: { from: 'users', localField: '_id', foreignField: '_id', as: 'user' } },
+        { $unwind: '$user' },
+        {
+            $project: {
+                _id: 0,
+                seasonId: { $literal: season._id },
+                userId: '$_id',
+                rank: 1,
+                score: 1,
+                username: '$user.username',
+                skin: '$user.currentSkin',
+                ...(season.rewards.length > 0 && { reward: rewardExpression(season.rewards) }),
+                createdAt: '$$NOW',
+                updatedAt: '$$NOW'
+            }
+        },
+        {
+            $merge: {
+                into: SeasonResult.collection.name,
+                on: ['seasonId', 'userId'],
+                whenMatched: 'keepExisting',
+                whenNotMatched: 'insert'
+            }
+        }
+    ]);
+
+    return SeasonResult.countDocuments({ seasonId: season._id });
+}
+
+/**
+ * Pay one batch of unpaid rewards in its own transaction. paidAt is set with
+ * each payment, so a retry or a second closer never pays a result twice.
+ * Returns how many results were in the batch (0 when all are paid).
+ */
+const payRewardBatch = async (season: ISeason): Promise<number> => {
+    const batch = await SeasonResult.find({ seasonId: season._id, reward: { $exists: true }, paidAt: null })
+        .sort({ rank: 1 })
+        .limit(PAYOUT_BATCH_SIZE)
+        .select('_id');
+    if (batch.length === 0) return 0;
+
+    await withTransaction(async (session) => {
+        for (const { _id } of batch) {
+            const result = await SeasonResult.findOneAndUpdate(
+                { _id, paidAt: null },
+                { $set: { paidAt: new Date() } },
+                { session, new: true }
+            );
+            if (!result?.reward) continue;
+
+            await WalletService.credit(result.userId, result.reward, {
+                type: 'season_reward',
+                description: `${season.name}: rank #${result.rank}`,
+                relatedItemId: `season_${season._id}`
+            }, session);
+        }
+    });
+    return batch.length;
+}
+
+/**
+ * Archive an ended season's final standings, then pay its reward tiers
+ * through the wallet in small batches. Resumable and safe to call more
+ * than once: an interrupted close picks up where it stopped.
+ */
+export const closeSeason = async (seasonId: mongoose.Types.ObjectId): Promise<boolean> => {
+    let season = await Season.findOne({ _id: seasonId, status: { $ne: 'closed' }, endsAt: { $lte: new Date() } });
+    if (!season) return false;
+
+    if (season.status === 'open') {
+        const totalPlayers = await archiveStandings(season);
+        season = await Season.findOneAndUpdate(
+            { _id: seasonId, status: { $ne: 'closed' } },
+            { $set: { status: 'closing', totalPlayers } },
+            { new: true }
+        );
+        if (!season) return false;
+    }
+
+    // A failed batch rolls back alone and is retried on the next check
+    let paid: number;
+    do {
+        paid = await payRewardBatch(season);
+    } while (paid > 0);
+
+    const closed = await Season.updateOne(
+        { _id: seasonId, status: 'closing' },
+        { $set: { status: 'closed', closedAt: new Date() } }
+    );
+    return closed.modifiedCount > 0;
+}
+
+/**
+ * Close every ended season not closed yet. Waits one run deadline after the
+ * end so runs started just before it can still finish and count.
+ */
+export const closeFinishedSeasons = async (): Promise<number> => {
+    const pending = await Season.find({
+        status: { $ne: 'closed' },
+        endsAt: { $lte: new Date(Date.now() - RUN_DEADLINE_MS) }
+    }).select('name');
+
+    let count = 0;
+    for (const season of pending) {
+        if (await closeSeason(season._id)) {
+            LOGGER.info(`[Season] Closed ${season.name}`);
+            count++;
+        }
+    }
+    return count;
+}
+
+export const startSeasonScheduler = (): void => {
+    if (closeTimer) return;
+
+    const check = () => closeFinishedSeasons().catch(error => LOGGER.error('[Season] Close failed:' + error));
+    check();
+    closeTimer = setInterval(check, CLOSE_CHECK_INTERVAL_MS);
+    closeTimer.unref();
+}
+
+export const stopSeasonScheduler = (): void => {
+    if (closeTimer) clearInterval(closeTimer);
+    closeTimer = null;
+}
@@ -0,0 +1,162 @@
+import { ClientSession, Types } from 'mongoose';
+import { User } from '../models/Users.js';
+import { Transaction, ITransaction, CURRENCIES } from '../models/Transactions.js';
+import { withTransaction } from '../db/db.js';
+
+/**
+ * Wallet: the only code allowed to change user.coins / user.gems.
+ *
+ * Every change is a single conditional $inc on the user (so balances can't
+ * go negative, even under concurrent requests) plus one ledger Transaction
+ * per currency, committed in the same MongoDB transaction.
+ */
+
+export type Currency = ITransaction['currency'];
+export type CurrencyAmounts = Partial<Record<Currency, number>>;
+export type Balance = Record<Currency, number>;
+
+// What the ledger records besides currency and amounts
+export type LedgerEntry = Pick<ITransaction, 'type' | 'description'> &
+    Partial<Pick<ITransaction, 'relatedGameId' | 'relatedMissionId' | 'relatedAchievementId' | 'relatedItemId' | 'metadata'>>;
+
+export interface WalletResult {
+    balance: Balance;
+    transactions: ITransaction[];
+}
+
+type UserId = Types.ObjectId | string;
+
+export type WalletErrorCode = 'invalid_amount' | 'insufficient_funds' | 'user_not_found';
+
+export class WalletError extends Error {
+    constructor(public code: WalletErrorCode, message: string) {
+        super(message);
+        this.name = 'WalletError';
+    }
+}
+
+// Run fn in the caller's transaction, or in a new one
+const inSession = <T>(session: ClientSession | undefined, fn: (session: ClientSession) => Promise<T>): Promise<T> =>
+    session ? fn(session) : withTransaction(fn);
+
+// Non-zero [currency, amount] pairs; amounts must be non-negative integers
+const toChanges = (amounts: CurrencyAmounts): Array<[Currency, number]> =>
+    CURRENCIES.map((currency): [Currency, number] => {
+        const amount = amounts[currency] ?? 0;
+        if (!Number.isInteger(amount) || amount < 0) {
+            throw new WalletError('invalid_amount', `Invalid ${currency} amount: ${amount}`);
+        }
+        return [currency, amount];
+    }).filter(([, amount]) => amount > 0);
+
+/**
+ * Apply signed changes to one user and write their ledger entries.
+ * balanceBefore comes from the same atomic update that applies the change.
+ */
+const applyChanges = async (
+    userId: UserId,
+    changes: Array<[Currency, number]>,
+    entry: LedgerEntry,
+    session: ClientSession
+): Promise<WalletResult> => {
+    if (changes.length === 0) {
+        return { balance: await getBalance(userId, session), transactions: [] };
+    }
+
+    const filter: Record<string, unknown> = { _id: userId };
+    for (const [currency, amount] of changes) {
+        if (amount < 0) filter[currency] = { $gte: -amount };
+    }
+
+    const before = await User.findOneAndUpdate(
+        filter,
+        { $inc: Object.fromEntries(changes) },
+        { session, new: false, projection: { coins: 1, gems: 1 } }
+    );
+
+    if (!before) {
+        const exists = await User.exists({ _id: userId }).session(session);
+        throw exists
+            ? new WalletError('insufficient_funds', `Insufficient ${changes.filter(([, a]) => a < 0).map(([c]) => c).join(' and ')}`)
+            : new WalletError('user_not_found', 'User not found');
+    }
+
+    const balance: Balance = { coins: before.coins, gems: before.gems };
+    const transactions = await Transaction.create(changes.map(([currency, amount]) => {
+        const balanceBefore = balance[currency];
+        balance[currency] += amount;
+        return {
+            ...entry,
+            userId: before._id,
+            currency,
+            amount,
+            balanceBefore,
+            balanceAfter: balance[currency]
+        };
+    }), { session, ordered: true });
+
+    return { balance, transactions };
+}
+
+export const getBalance = async (userId: UserId, session?: ClientSession): Promise<Balance> => {
+    const user = await User.findById(userId).select('coins gems').session(session ?? null);
+    if (!user) throw new WalletError('user_not_found', 'User not found');
+    return { coins: user.coins, gems: user.gems };
+}
+
+/**
+ * Add one or more currencies, e.g. credit(userId, { coins: 100, gems: 5 }, entry).
+ */
+export const credit = (
+    userId: UserId,
+    amounts: CurrencyAmounts,
+    entry: LedgerEntry,
+    session?: ClientSession
+): Promise<WalletResult> => {
+    const changes = toChanges(amounts);
+    return inSession(session, s => applyChanges(userId, changes, entry, s));
+}
+
+/**
+ * Remove one or more currencies. Throws WalletError('insufficient_funds')
+ * without changing anything if any balance would go negative.
+ */
+export const debit = (
+    userId: UserId,
+    amounts: CurrencyAmounts,
+    entry: LedgerEntry,
+    session?: ClientSession
+): Promise<WalletResult> => {
+    const changes = toChanges(amounts).map(([currency, amount]): [Currency, number] => [currency, -amount]);
+    return inSession(session, s => applyChanges(userId, changes, entry, s));
+}
+
+/**
+ * Move currencies between two users. Both sides get a 'transfer' ledger
+ * entry pointing at the other user.
+ */
+export const transfer = (
+    fromUserId: UserId,
+    toUserId: UserId,
+    amounts: CurrencyAmounts,
+    description: string,
+    session?: ClientSession
+): Promise<{ from: WalletResult; to: WalletResult }> => {
+    if (fromUserId.toString() === toUserId.toString()) {
+        throw new WalletError('invalid_amount', 'Cannot transfer to the same user');
+    }
+
+    return inSession(session, async s => {
+        const from = await debit(fromUserId, amounts, {
+            type: 'transfer',
+            description,
+            metadata: { toUserId: toUserId.toString() }
+        }, s);
+        const to = await credit(toUserId, amounts, {
+            type: 'transfer',
+            description,
+            metadata: { fromUserId: fromUserId.toString() }
+        }, s);
+        return { from, to };
+    });
+}
@@ -1,51 +1,169 @@
 import { Server } from 'socket.io';
-import { AuthenticatedSocket } from '../../middleware/socketAuthMiddleware.js';
+import { AuthenticatedSocket, authenticateSocket } from '../../middleware/socketAuthMiddleware.js';
+import {
+  RaceRoomError,
+  attachRaceNamespace,
+  createRoom,
+  joinRoom,
+  leaveRoom,
+  getCurrentRoom,
+  setReady,
+  updateProgress,
+  disconnectRacer,
+  reconnectRacer,
+  listPublicRooms,
+  spectateRoom,
+  stopSpectating
+} from '../../service/raceRoomService.js';
+import { joinQueue, leaveQueue } from '../../service/matchmakingService.js';
+import {
+  LEADERBOARD_CHANNEL,
+  attachLeaderboardNamespace,
+  playerLeaderboardChannel
+} from '../../service/leaderboardLiveService.js';
+import { attachPresenceNamespace, connectPlayer, disconnectPlayer } from '../../service/presenceService.js';
+import type { RaceAck } from '@shared/types/game.types.js';
 
 /**
  * Socket.io namespace for CoinRun game
  *
- * ❌ REMOVED: Betting system, 1v1 matchmaking, USDT wagering
- * ✅ KEPT: Basic connection handling for future features
- *
- * Future features this namespace may support:
- * - Real-time leaderboard updates
- * - Live events/tournaments
- * - Social features (spectating, chat)
- * - Push notifications
- *
- * Current game mode: SOLO ONLY (no multiplayer)
+ * ❌ REMOVED: Betting system, USDT wagering
+ * ✅ Race rooms: 2-8 players on a shared seed, no wagering
+ *    - race:create / race:join / race:leave / race:current manage the lobby (acknowledged)
+ *    - game:ready starts the countdown once everyone is ready
+ *    - game:progress is relayed to the room at TICK_RATE
+ *    - runs are finished through /runner/solo/finish, which validates them
+ *      like any solo run before they count in the standings
+ * ✅ Matchmaking: matchmaking:join / matchmaking:leave queue for a race with
+ *    players of similar power level and score rating; queue position goes
+ *    out as matchmaking:searching, with a ghost fallback at the timeout
+ * ✅ Spectating: spectate:list / spectate:join / spectate:leave watch public
+ *    rooms read-only on their own channel (spectate:room, progress and
+ *    finish); no runs or tokens, and the seed only once the race is running
+ * ✅ Leaderboards: leaderboard:subscribe gets leaderboard:update diffs when a
+ *    finished run changes a top board, and leaderboard:rank with the
+ *    player's own standing after their runs
+ * ✅ Friends: signed-in sockets join their player's channel; friends get
+ *    friends:presence when the player's first socket connects or last one
+ *    closes, and friends:changed when a request or friendship changes
  */
 export function setupRunnerSocket(io: Server) {
   const runnerNamespace = io.of('/runner');
+  runnerNamespace.use(authenticateSocket);
+  attachRaceNamespace(runnerNamespace);
+  attachLeaderboardNamespace(runnerNamespace);
+  attachPresenceNamespace(runnerNamespace);
 
   runnerNamespace.on('connection', (socket: AuthenticatedSocket) => {
     console.log(`Runner socket connected: ${socket.id}, User: ${socket.userId || 'guest'}`);
 
-    // Future feature: Subscribe to real-time leaderboard updates
+    // Back within the reconnect grace: pick up the room where we left it
+    if (socket.userId) {
+      connectPlayer(socket.userId, socket);
+      reconnectRacer(socket.userId, socket);
+    }
+
+    // Answer through the client's acknowledgement callback (REST response shape)
+    const respond = async <T>(ack: unknown, action: () => Promise<T> | T) => {
+      const reply = typeof ack === 'function' ? ack as (response: RaceAck<T>) => void : () => {};
+      if (!socket.user || !socket.userId) {
+        return reply({ success: false, error: 'Not authenticated' });
+      }
+
+      try {
+        reply({ success: true, data: await action() });
+      } catch (error) {
+        if (error instanceof RaceRoomError) {
+          return reply({ success: false, error: error.message });
+        }
+        console.error('Race room error:', error);
+        reply({ success: false, error: 'Race room request failed' });
+      }
+    };
+
+    // Picking a room by hand leaves the matchmaking queue
+    socket.on('race:create', (payload, ack) => {
+      respond(ack, () => {
+        leaveQueue(socket.userId!);
+        return createRoom(socket.user!, socket, payload?.isPublic === true);
+      });
+    });
+
+    socket.on('race:join', (payload, ack) => {
+      respond(ack, () => {
+        leaveQueue(socket.userId!);
+        return joinRoom(String(payload?.roomId ?? ''), socket.user!, socket);
+      });
+    });
+
+    socket.on('race:leave', (_payload, ack) => {
+      respond(ack, () => leaveRoom(socket.userId!));
+    });
+
+    socket.on('race:current', (_payload, ack) => {
+      respond(ack, () => getCurrentRoom(socket.userId!));
+    });
+
+    socket.on('matchmaking:join', (_payload, ack) => {
+      respond(ack, () => joinQueue(socket.userId!, socket));
+    });
+
+    socket.on('matchmaking:leave', (_payload, ack) => {
+      respond(ack, () => {
+        leaveQueue(socket.userId!);
+      });
+    });
+
+    socket.on('spectate:list', (_payload, ack) => {
+      respond(ack, () => listPublicRooms());
+    });
+
+    socket.on('spectate:join', (payload, ack) => {
+      respond(ack, () => spectateRoom(String(payload?.roomId ?? ''), socket.userId!, socket));
+    });
+
+    socket.on('spectate:leave', (_payload, ack) => {
+      respond(ack, () => {
+        stopSpectating(socket.id);
+      });
+    });
+
+    socket.on('game:ready', (payload, ack) => {
+      respond(ack, () => setReady(socket.userId!, payload?.ready !== false));
+    });
+
+    socket.on('game:progress', (payload) => {
+      if (socket.userId) {
+        updateProgress(socket.userId, payload?.progress, payload?.x, payload?.armyCount);
+      }
+    });
+
+    socket.on('game:quit', (_payload, ack) => {
+      respond(ack, () => leaveRoom(socket.userId!));
+    });
+
+    // Real-time leaderboard updates (and the player's own rank)
     socket.on('leaderboard:subscribe', () => {
       if (socket.userId) {
-        socket.join('leaderboard');
+        socket.join([LEADERBOARD_CHANNEL, playerLeaderboardChannel(socket.userId)]);
         console.log(`User ${socket.userId} subscribed to leaderboard`);
       }
     });
 
-    // Future feature: Unsubscribe from leaderboard
     socket.on('leaderboard:unsubscribe', () => {
-      socket.leave('leaderboard');
+      socket.leave(LEADERBOARD_CHANNEL);
+      if (socket.userId) socket.leave(playerLeaderboardChannel(socket.userId));
     });
 
     // Disconnect handling
     socket.on('disconnect', () => {
       console.log(`Runner socket disconnected: ${socket.id}`);
+      if (socket.userId) {
+        leaveQueue(socket.userId, socket.id);
+        disconnectRacer(socket.userId, socket.id);
+        disconnectPlayer(socket.userId, socket.id);
+      }
+      stopSpectating(socket.id);
     });
   });
 }
-
-/**
- * Utility function to broadcast leaderboard updates
- * Can be called from game controller after game completion
- */
-export function broadcastLeaderboardUpdate(io: Server, leaderboardData: any) {
-  const runnerNamespace = io.of('/runner');
-  runnerNamespace.to('leaderboard').emit('leaderboard:update', leaderboardData);
-}
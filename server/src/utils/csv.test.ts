@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { csvField } from './csv.js';
+
+test('quotes fields with separators, quotes and newlines', () => {
+  assert.equal(csvField('plain'), 'plain');
+  assert.equal(csvField('a,b'), '"a,b"');
+  assert.equal(csvField('say "hi"'), '"say ""hi"""');
+  assert.equal(csvField('two\nlines'), '"two\nlines"');
+  assert.equal(csvField(undefined), '');
+});
+
+test('neutralizes text a spreadsheet would run as a formula', () => {
+  assert.equal(csvField('=HYPERLINK("http://evil","x")'), `"'=HYPERLINK(""http://evil"",""x"")"`);
+  assert.equal(csvField('+1+1'), "'+1+1");
+  assert.equal(csvField('-2+3'), "'-2+3");
+  assert.equal(csvField('@SUM(A1)'), "'@SUM(A1)");
+  assert.equal(csvField('\tcmd'), "'\tcmd");
+  assert.equal(csvField('\rcmd'), `"'\rcmd"`);
+});
+
+test('leaves numbers as numbers', () => {
+  assert.equal(csvField(-250), '-250');
+  assert.equal(csvField(0), '0');
+});
@@ -0,0 +1,13 @@
+// Spreadsheets run text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Format one CSV field: text that a spreadsheet would run as a formula is
+ * prefixed with ' (numbers are left alone, so negative amounts stay numbers),
+ * then the field is quoted when it contains a separator, quote or newline.
+ */
+export function csvField(value: unknown): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (typeof value !== 'number' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
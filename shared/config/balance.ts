@@ -0,0 +1,187 @@
+// shared/config/balance.ts
+
+import type { UserUpgrades } from '../types/game.types';
+
+/**
+ * Game balance configuration.
+ *
+ * Single source for every number that changes run outcomes, rewards or
+ * prices. The server serves it from GET /api/config and the client refuses
+ * to start a run when its bundled version differs, so bump BALANCE_VERSION
+ * on ANY value change here.
+ */
+export const BALANCE_VERSION = 5;
+
+export type UpgradeType = keyof UserUpgrades;
+
+export const BALANCE = {
+  version: BALANCE_VERSION,
+
+  // Track (~32 seconds at base speed)
+  track: {
+    LENGTH: 800,
+    SECTION_COUNT: 6,
+    SECTION_LENGTH: 130,
+    HALF_WIDTH: 5               // Track is 10m wide: -5 to +5
+  },
+
+  // Player movement and pickups (replayed by shared/game/runSimulator.ts)
+  runner: {
+    FORWARD_SPEED: 25,          // m/s
+    HORIZONTAL_SPEED: 8,        // m/s for left/right movement
+    SMOOTH_FACTOR: 0.15,        // Lateral lerp factor per 60 Hz frame
+    MAX_FRAME_DELTA: 0.05,      // Clamp for lag spikes (seconds)
+    SIMULATION_STEP: 1 / 60,    // Fixed step used for replays (seconds)
+    SOLDIER_PICKUP_RADIUS: 1.5,
+    COIN_COLLECTION_RADIUS: 1.0,
+    GATE_WIDTH: 5,              // Half track width
+    GATE_TRIGGER_DEPTH: 1.5
+  },
+
+  // Gate effects
+  gates: {
+    SPEED_EFFECT_DURATION: 5000, // 5 seconds
+    SPEED_BOOST_MULTIPLIER: 1.5, // +50% speed
+    SPEED_SLOW_MULTIPLIER: 0.5,  // -50% speed
+    ARMY_MULTIPLIER: 2,
+    ARMY_DIVISOR: 2
+  },
+
+  // Army size and formation grid behind the player
+  army: {
+    BASE_STARTING: 1,
+    BASE_MAX: 30,
+    SOLDIERS_PER_ROW: 3,
+    SPACING_X: 1.2,
+    SPACING_Z: 1.5,
+    BACK_OFFSET: -2.0
+  },
+
+  // Timing (seconds)
+  timing: {
+    GAME_DURATION: 60,
+    MATCHMAKING_TIMEOUT: 30,
+    RECONNECT_GRACE: 30
+  },
+
+  // Points per unit of each stat
+  scoring: {
+    DISTANCE: 10,               // per meter
+    COIN: 1,
+    ARMY: 10,                   // per soldier at peak
+    TIME_BONUS: 5,              // per second under PAR_TIME
+    ENEMY: 20,
+    PERFECT_GATE: 50,
+    PAR_TIME: 120               // seconds
+  },
+
+  // Coins paid out per run
+  rewards: {
+    BASE: 50,
+    COIN: 1,
+    ARMY: 2,
+    TIME_BONUS: 2,              // per second under PAR_TIME
+    ENEMY: 5,
+    PAR_TIME: 120               // seconds (income upgrade multiplies the total)
+  },
+
+  /**
+   * Upgrades (infinite levels)
+   * Cost:  baseCost × (COST_GROWTH ^ level)
+   * Power: level × baseEffect × (POWER_STEP_MULTIPLIER ^ floor(level ÷ POWER_STEP_LEVELS))
+   */
+  upgrades: {
+    COST_GROWTH: 1.5,
+    POWER_STEP_LEVELS: 10,
+    POWER_STEP_MULTIPLIER: 2,
+    BASE_COSTS: {
+      capacity: 200,            // Army capacity
+      addWarrior: 500,          // Starting army size
+      warriorUpgrade: 300,      // Warrior power
+      income: 150,              // Coin value multiplier
+      speed: 100,               // Movement speed
+      jump: 250,                // Jump height
+      bulletPower: 400,         // Bullet damage
+      magnetRadius: 200         // Coin magnet radius
+    } satisfies Record<UpgradeType, number>,
+    BASE_EFFECTS: {
+      capacity: 1,              // +1 soldier per level
+      addWarrior: 0.5,          // +0.5 starting soldiers per level
+      warriorUpgrade: 0.05,     // +5% warrior power per level
+      income: 0.01,             // +1% coin value per level
+      speed: 0.02,              // +2% speed per level
+      jump: 0.02,               // +2% jump height per level
+      bulletPower: 0.03,        // +3% bullet damage per level
+      magnetRadius: 0.1         // +0.1m magnet radius per level
+    } satisfies Record<UpgradeType, number>
+  },
+
+  // Daily challenge: one seed and upgrade preset for everyone per UTC day
+  dailyChallenge: {
+    ATTEMPTS: 3,                // Scored attempts per player per day
+    DIFFICULTY: 3,
+    PRESETS: {                  // Upgrade levels every player runs with (others 0)
+      standard: {},
+      sprint: { speed: 15 },
+      horde: { capacity: 20, addWarrior: 6 },
+      magnet: { magnetRadius: 15 }
+    } satisfies Record<string, Partial<Record<UpgradeType, number>>>,
+    REWARDS: [                  // Paid when the day closes; maxRank is inclusive
+      { maxRank: 1, coins: 5000, gems: 50 },
+      { maxRank: 2, coins: 3000, gems: 30 },
+      { maxRank: 3, coins: 2000, gems: 20 },
+      { maxRank: 10, coins: 1000, gems: 0 }
+    ]
+  },
+
+  // Seasons: named score leaderboards over fixed dates, paid at the close
+  season: {
+    REWARDS: [                  // Default table for new seasons; maxRank is inclusive
+      { maxRank: 1, coins: 50000, gems: 500 },
+      { maxRank: 3, coins: 25000, gems: 250 },
+      { maxRank: 10, coins: 10000, gems: 100 },
+      { maxRank: 50, coins: 5000, gems: 50 },
+      { maxRank: 100, coins: 2000, gems: 20 }
+    ]
+  },
+
+  // Multiplayer race rooms: shared seed, each player on their own upgrades
+  race: {
+    MIN_PLAYERS: 2,
+    MAX_PLAYERS: 8,
+    COUNTDOWN: 3,               // Seconds between everyone ready and the start
+    DIFFICULTY: 3
+  },
+
+  // Race matchmaking by power level and recent score rating. The allowed
+  // gap widens from BASE to MAX over timing.MATCHMAKING_TIMEOUT.
+  matchmaking: {
+    MATCH_SIZE: 4,              // Racers per matched room
+    FILL_WAIT: 10,              // Seconds before a smaller match (2+) starts
+    RECENT_RUNS: 10,            // Finished runs averaged into the score rating
+    POWER_SPREAD: { BASE: 25, MAX: 300 },
+    RATING_SPREAD: { BASE: 1000, MAX: 10000 }
+  },
+
+  // Loose sanity bounds checked before the replay
+  antiCheat: {
+    MAX_SPEED_MULTIPLIER: 3,
+    MAX_COINS_PER_METER: 2
+  }
+} as const;
+
+export type BalanceConfig = typeof BALANCE;
+
+// Cost to buy the next level of an upgrade
+export function calculateUpgradeCost(type: UpgradeType, currentLevel: number): number {
+  const { BASE_COSTS, COST_GROWTH } = BALANCE.upgrades;
+  return Math.floor(BASE_COSTS[type] * Math.pow(COST_GROWTH, currentLevel));
+}
+
+// Effect of an upgrade at a level (doubles every POWER_STEP_LEVELS levels)
+export function calculateUpgradePower(type: UpgradeType, level: number): number {
+  const { BASE_EFFECTS, POWER_STEP_LEVELS, POWER_STEP_MULTIPLIER } = BALANCE.upgrades;
+  const linearPower = level * BASE_EFFECTS[type];
+  const multiplier = Math.pow(POWER_STEP_MULTIPLIER, Math.floor(level / POWER_STEP_LEVELS));
+  return linearPower * multiplier;
+}
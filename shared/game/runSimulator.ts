@@ -0,0 +1,215 @@
+// shared/game/runSimulator.ts
+
+import {
+  TrackData,
+  GhostTrack,
+  RunInput,
+  RunModifiers,
+  SimpleGateType
+} from '../types/game.types';
+import { BALANCE } from '../config/balance';
+
+/**
+ * Headless runner simulation.
+ *
+ * Replays a recorded input log against a generated track and recomputes
+ * what the run should have produced. The client renders the same rules
+ * frame by frame (Player, Gates, Coins, SoldierPickup); every tunable that
+ * affects the outcome comes from the shared balance config.
+ */
+
+// Movement and pickup rules
+export const RUNNER_PHYSICS = BALANCE.runner;
+
+// Gate effects
+export const GATE_EFFECTS = BALANCE.gates;
+
+// Army formation: grid behind the player
+//   3  4  5   <- Row 2 (back)
+//   0  1  2   <- Row 1 (behind player)
+//     P       <- Player
+export const ARMY_FORMATION = BALANCE.army;
+
+// Calculate formation position for a soldier at given index
+export function getArmyPosition(
+  index: number,
+  playerX: number,
+  playerZ: number
+): { x: number; z: number } {
+  const row = Math.floor(index / ARMY_FORMATION.SOLDIERS_PER_ROW);
+  const col = index % ARMY_FORMATION.SOLDIERS_PER_ROW;
+  const xOffset = (col - (ARMY_FORMATION.SOLDIERS_PER_ROW - 1) / 2) * ARMY_FORMATION.SPACING_X;
+  const zOffset = ARMY_FORMATION.BACK_OFFSET - row * ARMY_FORMATION.SPACING_Z;
+
+  return {
+    x: playerX + xOffset,
+    z: playerZ + zOffset
+  };
+}
+
+// Frame-rate independent lerp factor for lateral smoothing
+export function getSmoothFactor(delta: number): number {
+  return 1 - Math.pow(1 - RUNNER_PHYSICS.SMOOTH_FACTOR, delta * 60);
+}
+
+export interface RunSimulationResult {
+  coinsCollected: number;
+  maxArmy: number;
+  finalArmy: number;
+  distanceTraveled: number;
+  timeTaken: number;
+  didFinish: boolean;
+  ghost?: GhostTrack; // Only when a ghost interval is requested
+}
+
+// Ghost sample precision (x to cm, z to dm) keeps stored tracks small
+const roundTo = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Replay inputs until the player crosses the finish line or maxDuration
+ * (seconds) runs out. Inputs must be sorted by timestamp (ms of run time);
+ * modifiers come from the run's upgrade snapshot (getRunModifiers).
+ * With ghostInterval (ms) the player's position and army are sampled into
+ * a ghost track for later playback.
+ */
+export function simulateRun(
+  track: TrackData,
+  inputs: RunInput[],
+  maxDuration: number,
+  modifiers: RunModifiers,
+  ghostInterval?: number
+): RunSimulationResult {
+  const dt = RUNNER_PHYSICS.SIMULATION_STEP;
+  const trackLength = track.totalLength;
+  const halfWidth = BALANCE.track.HALF_WIDTH;
+  const smooth = getSmoothFactor(dt);
+  const soldierRadiusSq = RUNNER_PHYSICS.SOLDIER_PICKUP_RADIUS ** 2;
+  const coinRadius = modifiers.magnetRadius;
+  const armyCap = modifiers.maxArmy;
+
+  const collectedCoins = new Set<string>();
+  const collectedSoldiers = new Set<string>();
+  const triggeredGates = new Set<string>();
+
+  let step = 0;
+  let time = 0;
+  let inputIndex = 0;
+  let velocity = 0;
+  let x = 0;
+  let targetX = 0;
+  let z = 0;
+  let army = Math.min(modifiers.startingArmy, armyCap);
+  let maxArmy = army;
+  let speedMultiplier = 1;
+  let speedEffectStart: number | null = null;
+
+  const ghost: GhostTrack | undefined = ghostInterval ? { interval: ghostInterval, x: [0], z: [0], army: [army] } : undefined;
+  const stepsPerSample = ghostInterval ? Math.max(1, Math.round(ghostInterval / 1000 / dt)) : 0;
+
+  while (z < trackLength && time < maxDuration) {
+    // Apply inputs that happened before this step
+    while (inputIndex < inputs.length && inputs[inputIndex].timestamp <= time * 1000) {
+      const { direction } = inputs[inputIndex];
+      velocity = direction === 'left' ? -1 : direction === 'right' ? 1 : 0;
+      inputIndex++;
+    }
+
+    step++;
+    time = step * dt;
+
+    // Expire speed effect
+    if (speedEffectStart !== null && (time - speedEffectStart) * 1000 >= GATE_EFFECTS.SPEED_EFFECT_DURATION) {
+      speedMultiplier = 1;
+      speedEffectStart = null;
+    }
+
+    // Move
+    targetX = Math.max(-halfWidth, Math.min(halfWidth, targetX + velocity * RUNNER_PHYSICS.HORIZONTAL_SPEED * dt));
+    x += (targetX - x) * smooth;
+    z = Math.min(z + modifiers.forwardSpeed * speedMultiplier * dt, trackLength);
+
+    // Soldier pickups (player only)
+    for (const soldier of track.layout.soldiers) {
+      if (collectedSoldiers.has(soldier.id)) continue;
+      const dx = soldier.position.x - x;
+      const dz = soldier.position.z - z;
+      if (dx * dx + dz * dz < soldierRadiusSq) {
+        collectedSoldiers.add(soldier.id);
+        army = Math.min(armyCap, army + 1);
+      }
+    }
+
+    // Player + army bodies for gates and coins
+    const bodies = [{ x, z }];
+    for (let i = 0; i < army - 1; i++) {
+      bodies.push(getArmyPosition(i, x, z));
+    }
+    const tailZ = bodies[bodies.length - 1].z;
+
+    // Gates
+    for (const gate of track.layout.gates) {
+      if (triggeredGates.has(gate.id)) continue;
+      if (gate.position.z > z + RUNNER_PHYSICS.GATE_TRIGGER_DEPTH || gate.position.z < tailZ - RUNNER_PHYSICS.GATE_TRIGGER_DEPTH) continue;
+
+      const hit = bodies.some(body =>
+        Math.abs(body.x - gate.position.x) < RUNNER_PHYSICS.GATE_WIDTH / 2 &&
+        Math.abs(body.z - gate.position.z) < RUNNER_PHYSICS.GATE_TRIGGER_DEPTH
+      );
+      if (!hit) continue;
+
+      triggeredGates.add(gate.id);
+      switch (gate.type) {
+        case SimpleGateType.SPEED_BOOST:
+          speedMultiplier = GATE_EFFECTS.SPEED_BOOST_MULTIPLIER;
+          speedEffectStart = time;
+          break;
+        case SimpleGateType.SPEED_SLOW:
+          speedMultiplier = GATE_EFFECTS.SPEED_SLOW_MULTIPLIER;
+          speedEffectStart = time;
+          break;
+        case SimpleGateType.MULTIPLY_ARMY:
+          army = Math.min(armyCap, Math.floor(army * GATE_EFFECTS.ARMY_MULTIPLIER));
+          break;
+        case SimpleGateType.REDUCE_ARMY:
+          army = Math.max(1, Math.floor(army / GATE_EFFECTS.ARMY_DIVISOR));
+          break;
+      }
+    }
+
+    // Coins
+    for (const coin of track.layout.coins) {
+      if (collectedCoins.has(coin.id)) continue;
+      if (coin.position.z > z + coinRadius || coin.position.z < tailZ - coinRadius) continue;
+
+      const hit = bodies.some(body => {
+        const dx = body.x - coin.position.x;
+        const dz = body.z - coin.position.z;
+        return Math.sqrt(dx * dx + dz * dz) < coinRadius;
+      });
+      if (hit) {
+        collectedCoins.add(coin.id);
+      }
+    }
+
+    maxArmy = Math.max(maxArmy, army);
+
+    if (ghost && (step % stepsPerSample === 0 || z >= trackLength)) {
+      ghost.x.push(roundTo(x, 2));
+      ghost.z.push(roundTo(z, 1));
+      ghost.army.push(army);
+    }
+  }
+
+  return {
+    coinsCollected: collectedCoins.size,
+    maxArmy,
+    finalArmy: army,
+    distanceTraveled: z,
+    timeTaken: time,
+    didFinish: z >= trackLength,
+    ...(ghost && { ghost })
+  };
+}
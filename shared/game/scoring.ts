@@ -0,0 +1,54 @@
+// shared/game/scoring.ts
+
+import { GameResult, ScoreBreakdown, getIncomeMultiplier } from '../types/game.types';
+import { BALANCE } from '../config/balance';
+
+/**
+ * Run scoring and coin rewards.
+ *
+ * The server derives finalScore and the reward from replay-validated stats;
+ * the client uses the same functions for its provisional HUD score.
+ */
+
+// Points per unit of each stat
+export const SCORE_WEIGHTS = BALANCE.scoring;
+
+// Coins paid out per run
+export const REWARD_WEIGHTS = BALANCE.rewards;
+
+export type ScoringStats = Omit<GameResult, 'finalScore'>;
+
+// Time bonus only counts for runs that reached the finish line
+function timeBonusSeconds(stats: ScoringStats, parTime: number): number {
+  return stats.didFinish ? Math.max(0, parTime - stats.timeTaken) : 0;
+}
+
+export function calculateScoreBreakdown(stats: ScoringStats): ScoreBreakdown {
+  const breakdown = {
+    distance: Math.floor(stats.distanceTraveled * SCORE_WEIGHTS.DISTANCE),
+    coins: stats.coinsCollected * SCORE_WEIGHTS.COIN,
+    army: stats.maxArmy * SCORE_WEIGHTS.ARMY,
+    timeBonus: Math.floor(timeBonusSeconds(stats, SCORE_WEIGHTS.PAR_TIME) * SCORE_WEIGHTS.TIME_BONUS),
+    enemies: stats.enemiesKilled * SCORE_WEIGHTS.ENEMY,
+    perfectGates: stats.perfectGates * SCORE_WEIGHTS.PERFECT_GATE
+  };
+
+  return {
+    ...breakdown,
+    total: breakdown.distance + breakdown.coins + breakdown.army + breakdown.timeBonus + breakdown.enemies + breakdown.perfectGates
+  };
+}
+
+export function calculateScore(stats: ScoringStats): number {
+  return calculateScoreBreakdown(stats).total;
+}
+
+export function calculateCoinReward(stats: ScoringStats, incomeLevel: number): number {
+  const baseReward = REWARD_WEIGHTS.BASE +
+    stats.coinsCollected * REWARD_WEIGHTS.COIN +
+    stats.maxArmy * REWARD_WEIGHTS.ARMY +
+    timeBonusSeconds(stats, REWARD_WEIGHTS.PAR_TIME) * REWARD_WEIGHTS.TIME_BONUS +
+    stats.enemiesKilled * REWARD_WEIGHTS.ENEMY;
+
+  return Math.floor(baseReward * getIncomeMultiplier(incomeLevel));
+}
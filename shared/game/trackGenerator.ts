@@ -0,0 +1,388 @@
+// shared/game/trackGenerator.ts
+
+import {
+  TrackData,
+  TrackSection,
+  TrackLayout,
+  SectionType,
+  EnemyType,
+  ObstacleType,
+  SimpleGateType,
+  GateData,
+  CoinData,
+  CoinPattern,
+  SoldierPickupData,
+  GAME_CONSTANTS
+} from '../types/game.types';
+import { SeededRandom } from '../utils/seededRandom';
+
+/**
+ * Deterministic track generation.
+ *
+ * Everything on the track (gates, coins, soldier pickups, enemies and
+ * obstacles) is derived from the server-issued trackSeed, so the client
+ * and the server build the exact same layout for a run. Each spawner uses
+ * its own random stream (`${seed}:gates`, `${seed}:coins`, ...) so that
+ * tuning one spawner never shifts the layout of the others.
+ *
+ * Never use Math.random in here.
+ */
+
+// Section order - Updated for shorter, faster gameplay (6 sections, 130m each, ~800m total)
+const SECTION_ORDER: SectionType[] = [
+  SectionType.INTRO,        // 0-130m: Warmup, gates, coins
+  SectionType.COMBAT,       // 130-260m: Enemies + gates
+  SectionType.PLATFORMING,  // 260-390m: Jumps + obstacles
+  SectionType.BONUS,        // 390-520m: Many gates + coins
+  SectionType.GAUNTLET,     // 520-650m: Mix of everything
+  SectionType.FINISH        // 650-800m: Sprint to end
+];
+
+// Section configurations - INCREASED DIFFICULTY (50% more content)
+const SECTION_CONFIG: Record<SectionType, {
+  enemies: { min: number; max: number; types: EnemyType[] };
+  obstacles: { min: number; max: number; types: ObstacleType[] };
+}> = {
+  [SectionType.INTRO]: {
+    // Intro with light challenges now
+    enemies: { min: 1, max: 3, types: [EnemyType.STATIC] },
+    obstacles: { min: 2, max: 4, types: [ObstacleType.WALL] }
+  },
+  [SectionType.EASY]: {
+    enemies: { min: 3, max: 5, types: [EnemyType.STATIC, EnemyType.PATROL] },
+    obstacles: { min: 4, max: 6, types: [ObstacleType.WALL] }
+  },
+  [SectionType.COMBAT]: {
+    // More enemies, more aggressive
+    enemies: { min: 5, max: 8, types: [EnemyType.STATIC, EnemyType.PATROL, EnemyType.CHARGER] },
+    obstacles: { min: 3, max: 5, types: [ObstacleType.WALL] }
+  },
+  [SectionType.PLATFORMING]: {
+    // More jumps, timing challenges
+    enemies: { min: 2, max: 4, types: [EnemyType.STATIC] },
+    obstacles: { min: 6, max: 10, types: [ObstacleType.GAP, ObstacleType.WALL, ObstacleType.MOVING_PLATFORM] }
+  },
+  [SectionType.BONUS]: {
+    // Keep as reward section but add some challenge
+    enemies: { min: 0, max: 2, types: [EnemyType.STATIC] },
+    obstacles: { min: 1, max: 3, types: [ObstacleType.WALL] }
+  },
+  [SectionType.HARD_COMBAT]: {
+    // Intense combat
+    enemies: { min: 6, max: 10, types: [EnemyType.PATROL, EnemyType.CHARGER, EnemyType.BOSS] },
+    obstacles: { min: 2, max: 4, types: [ObstacleType.WALL] }
+  },
+  [SectionType.SPEED]: {
+    enemies: { min: 4, max: 6, types: [EnemyType.STATIC, EnemyType.CHARGER] },
+    obstacles: { min: 5, max: 8, types: [ObstacleType.WALL, ObstacleType.GAP] }
+  },
+  [SectionType.COLLECTION]: {
+    enemies: { min: 1, max: 3, types: [EnemyType.STATIC] },
+    obstacles: { min: 2, max: 4, types: [ObstacleType.WALL] }
+  },
+  [SectionType.GAUNTLET]: {
+    // HARD - everything at once
+    enemies: { min: 6, max: 10, types: [EnemyType.STATIC, EnemyType.PATROL, EnemyType.CHARGER, EnemyType.BOSS] },
+    obstacles: { min: 5, max: 8, types: [ObstacleType.WALL, ObstacleType.GAP] }
+  },
+  [SectionType.FINISH]: {
+    // Final challenge with boss fight feel
+    enemies: { min: 4, max: 6, types: [EnemyType.CHARGER, EnemyType.BOSS] },
+    obstacles: { min: 4, max: 7, types: [ObstacleType.WALL, ObstacleType.GAP] }
+  }
+};
+
+// Enemy base stats
+const ENEMY_STATS: Record<EnemyType, { hp: number; damage: number; reward: number }> = {
+  [EnemyType.STATIC]: { hp: 5, damage: 3, reward: 20 },
+  [EnemyType.PATROL]: { hp: 10, damage: 5, reward: 40 },
+  [EnemyType.CHARGER]: { hp: 15, damage: 8, reward: 60 },
+  [EnemyType.BOSS]: { hp: 30, damage: 15, reward: 150 }
+};
+
+// Gate generation
+const GATE_START_Z = 100;      // Give player time to collect some soldiers
+const GATE_SPACING = 80;       // Every 80m
+const GATE_END_MARGIN = 60;
+const GATE_SIDE_X = 2.5;       // Center of the left (-5..0) or right (0..5) half
+const GATE_TYPES = [
+  SimpleGateType.SPEED_BOOST,
+  SimpleGateType.SPEED_SLOW,
+  SimpleGateType.MULTIPLY_ARMY,
+  SimpleGateType.REDUCE_ARMY
+];
+
+// Coin generation
+export const COIN_FLOAT_HEIGHT = 1.0; // height above ground
+const COIN_START_Z = 50;
+const COIN_END_MARGIN = 50;
+const MIN_COINS_PER_GROUP = 5;
+const MAX_COINS_PER_GROUP = 15;
+const MIN_GROUP_SPACING = 30; // meters between groups
+const MAX_GROUP_SPACING = 50;
+const COIN_SPACING = 1.2; // spacing between coins in a line
+const COIN_HALF_WIDTH = 4; // stay within -4 to +4
+
+// Soldier pickup generation
+const SOLDIER_SPACING = 50; // Spawn soldier every ~50m
+const SOLDIER_Z_JITTER = 20;
+const SOLDIER_HALF_WIDTH = 4;
+
+const clampX = (x: number, halfWidth: number) => Math.max(-halfWidth, Math.min(halfWidth, x));
+
+/**
+ * Generate the full track for a run
+ */
+export function generateTrack(seed: string, difficulty: number = 1): TrackData {
+  const totalLength = GAME_CONSTANTS.TRACK_LENGTH;
+
+  return {
+    seed,
+    difficulty,
+    sections: generateSections(new SeededRandom(`${seed}:sections`), difficulty),
+    layout: generateLayout(seed, totalLength),
+    totalLength
+  };
+}
+
+/**
+ * Generate gates, coins and soldier pickups for the free-movement track
+ */
+export function generateLayout(seed: string, trackLength: number = GAME_CONSTANTS.TRACK_LENGTH): TrackLayout {
+  return {
+    gates: generateGates(new SeededRandom(`${seed}:gates`), trackLength),
+    coins: generateCoins(new SeededRandom(`${seed}:coins`), trackLength),
+    soldiers: generateSoldiers(new SeededRandom(`${seed}:soldiers`), trackLength)
+  };
+}
+
+// Enemies and obstacles per section
+function generateSections(rng: SeededRandom, difficulty: number): TrackSection[] {
+  const sections: TrackSection[] = [];
+  const minSpacing = 5; // Minimum 5m between objects
+
+  for (let i = 0; i < SECTION_ORDER.length; i++) {
+    const sectionType = SECTION_ORDER[i];
+    const startZ = i * GAME_CONSTANTS.SECTION_LENGTH;
+    const endZ = startZ + GAME_CONSTANTS.SECTION_LENGTH;
+    const config = SECTION_CONFIG[sectionType];
+
+    const section: TrackSection = {
+      type: sectionType,
+      startZ,
+      endZ,
+      enemies: [],
+      obstacles: []
+    };
+
+    // Track occupied positions for collision avoidance
+    const occupiedPositions: { z: number; lane: number }[] = [];
+
+    const isPositionFree = (z: number, lane: number): boolean => {
+      return !occupiedPositions.some(
+        pos => Math.abs(pos.z - z) < minSpacing && pos.lane === lane
+      );
+    };
+
+    // Find a free z in [from, to] for the lane, or null after 20 attempts
+    const findFreeZ = (lane: number, from: number, to: number): number | null => {
+      for (let attempts = 0; attempts <= 20; attempts++) {
+        const z = rng.nextFloat(from, to);
+        if (isPositionFree(z, lane)) {
+          occupiedPositions.push({ z, lane });
+          return z;
+        }
+      }
+      return null;
+    };
+
+    // Generate enemies
+    const enemyCount = rng.nextInt(config.enemies.min, config.enemies.max);
+    for (let j = 0; j < enemyCount; j++) {
+      const enemyType = rng.choice(config.enemies.types);
+      const stats = ENEMY_STATS[enemyType];
+      const lane = rng.nextInt(0, 2);
+
+      // Adjust HP based on difficulty
+      const scaledHp = Math.floor(stats.hp * (1 + difficulty * 0.1));
+
+      const z = findFreeZ(lane, startZ + 15, endZ - 15);
+      if (z === null) continue;
+
+      section.enemies.push({
+        id: `enemy-${i}-${j}`,
+        type: enemyType,
+        position: {
+          x: (lane - 1) * GAME_CONSTANTS.LANE_WIDTH,
+          y: 0.5,
+          z
+        },
+        hp: scaledHp,
+        maxHp: scaledHp,
+        damage: stats.damage,
+        reward: stats.reward,
+        isAlive: true
+      });
+    }
+
+    // Generate obstacles
+    const obstacleCount = rng.nextInt(config.obstacles.min, config.obstacles.max);
+    for (let j = 0; j < obstacleCount; j++) {
+      const obstacleType = rng.choice(config.obstacles.types);
+      const lane = rng.nextInt(0, 2);
+
+      const z = findFreeZ(lane, startZ + 5, endZ - 5);
+      if (z === null) continue;
+
+      section.obstacles.push({
+        id: `obstacle-${i}-${j}`,
+        type: obstacleType,
+        position: {
+          x: (lane - 1) * GAME_CONSTANTS.LANE_WIDTH,
+          y: obstacleType === ObstacleType.GAP ? -0.5 : 0.5,
+          z
+        },
+        width: obstacleType === ObstacleType.GAP ? 3 : 1,
+        height: obstacleType === ObstacleType.GAP ? 1 : 1.5,
+        lane
+      });
+    }
+
+    sections.push(section);
+  }
+
+  return sections;
+}
+
+// Gates along the track with random left/right placement
+function generateGates(rng: SeededRandom, trackLength: number): GateData[] {
+  const gates: GateData[] = [];
+
+  for (let z = GATE_START_Z; z < trackLength - GATE_END_MARGIN; z += GATE_SPACING) {
+    const type = rng.choice(GATE_TYPES);
+    const isLeftSide = rng.chance(0.5);
+
+    gates.push({
+      id: `gate-${z}-${isLeftSide ? 'L' : 'R'}`,
+      type,
+      position: { x: isLeftSide ? -GATE_SIDE_X : GATE_SIDE_X, y: 0, z },
+      isTriggered: false,
+      side: isLeftSide ? 'left' : 'right'
+    });
+  }
+
+  return gates;
+}
+
+// Coin groups along the track
+function generateCoins(rng: SeededRandom, trackLength: number): CoinData[] {
+  const coins: CoinData[] = [];
+  let currentZ = COIN_START_Z;
+  let groupIndex = 0;
+
+  while (currentZ < trackLength - COIN_END_MARGIN) {
+    // Choose pattern type: 80% straight (horizontal/vertical), 20% diagonal
+    const patternRoll = rng.next();
+    const pattern: CoinPattern = patternRoll < 0.4 ? 'horizontal' : patternRoll < 0.8 ? 'vertical' : 'diagonal';
+
+    const groupSize = rng.nextInt(MIN_COINS_PER_GROUP, MAX_COINS_PER_GROUP);
+
+    // Random X position for group center (-3 to +3)
+    const centerX = (rng.next() - 0.5) * (COIN_HALF_WIDTH * 1.5);
+
+    coins.push(...generateCoinPattern(rng, pattern, groupSize, centerX, currentZ, `group-${groupIndex}`));
+
+    // Move to next group position
+    currentZ += rng.nextFloat(MIN_GROUP_SPACING, MAX_GROUP_SPACING);
+    groupIndex++;
+  }
+
+  return coins;
+}
+
+function generateCoinPattern(
+  rng: SeededRandom,
+  pattern: CoinPattern,
+  count: number,
+  centerX: number,
+  centerZ: number,
+  patternId: string
+): CoinData[] {
+  const coins: CoinData[] = [];
+  const coin = (i: number, x: number, z: number): CoinData => ({
+    id: `coin-${patternId}-${i}`,
+    position: { x: clampX(x, COIN_HALF_WIDTH), y: COIN_FLOAT_HEIGHT, z },
+    isCollected: false,
+    patternId
+  });
+
+  switch (pattern) {
+    case 'horizontal': {
+      // Horizontal line across track
+      const startX = centerX - ((count - 1) * COIN_SPACING) / 2;
+      for (let i = 0; i < count; i++) {
+        coins.push(coin(i, startX + i * COIN_SPACING, centerZ));
+      }
+      break;
+    }
+
+    case 'vertical': {
+      // Vertical line along track direction
+      for (let i = 0; i < count; i++) {
+        coins.push(coin(i, centerX, centerZ + i * COIN_SPACING));
+      }
+      break;
+    }
+
+    case 'diagonal': {
+      // Diagonal line at ~45 degrees, left or right
+      const direction = rng.chance(0.5) ? 1 : -1;
+      const step = COIN_SPACING * 0.7;
+      const startX = centerX - ((count - 1) * step * direction) / 2;
+      const startZ = centerZ - ((count - 1) * step) / 2;
+      for (let i = 0; i < count; i++) {
+        coins.push(coin(i, startX + i * step * direction, startZ + i * step));
+      }
+      break;
+    }
+  }
+
+  return coins;
+}
+
+// Soldier pickups along the track
+function generateSoldiers(rng: SeededRandom, trackLength: number): SoldierPickupData[] {
+  const soldiers: SoldierPickupData[] = [];
+
+  for (let z = SOLDIER_SPACING; z < trackLength - SOLDIER_SPACING; z += SOLDIER_SPACING) {
+    soldiers.push({
+      id: `soldier-${z}`,
+      position: {
+        x: rng.nextFloat(-SOLDIER_HALF_WIDTH, SOLDIER_HALF_WIDTH),
+        y: GAME_CONSTANTS.GROUND_Y,
+        z: z + rng.nextFloat(-SOLDIER_Z_JITTER / 2, SOLDIER_Z_JITTER / 2)
+      },
+      isCollected: false
+    });
+  }
+
+  return soldiers;
+}
+
+// Get section info for current position
+export function getCurrentSection(z: number, track: TrackData): TrackSection | null {
+  return track.sections.find(
+    section => z >= section.startZ && z < section.endZ
+  ) || null;
+}
+
+// Get objects within range of player
+export function getObjectsInRange<T extends { position: { z: number } }>(
+  objects: T[],
+  playerZ: number,
+  range: number
+): T[] {
+  return objects.filter(
+    obj => Math.abs(obj.position.z - playerZ) <= range
+  );
+}
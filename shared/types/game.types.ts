@@ -1,30 +1,34 @@
 // shared/types/game.types.ts
 
+import { BALANCE, calculateUpgradePower } from '../config/balance';
+
+// Balance-affecting values come from shared/config/balance.ts
 export const GAME_CONSTANTS = {
-  // Track - Updated for faster gameplay
-  TRACK_LENGTH: 800,          // Changed from 2000 - ~40-60 seconds gameplay
-  SECTION_COUNT: 6,           // Changed from 10
-  SECTION_LENGTH: 130,        // Changed from 200 - ~8-10 seconds per section
+  // Track
+  TRACK_LENGTH: BALANCE.track.LENGTH,
+  SECTION_COUNT: BALANCE.track.SECTION_COUNT,
+  SECTION_LENGTH: BALANCE.track.SECTION_LENGTH,
 
   // New: Free movement track (no lanes)
-  TRACK_WIDTH: 10,            // 10m wide track (-5m to +5m)
-  TRACK_HALF_WIDTH: 5,        // For bounds checking
+  TRACK_WIDTH: BALANCE.track.HALF_WIDTH * 2,
+  TRACK_HALF_WIDTH: BALANCE.track.HALF_WIDTH, // For bounds checking
 
   // Legacy lane support (for backward compatibility with track generation)
   LANE_COUNT: 3,
   LANE_WIDTH: 3,
 
-  // Player - Increased speed for faster gameplay
-  BASE_SPEED: 50,             // Changed from 10 - 5x faster!
-  HORIZONTAL_SPEED: 15,       // New: Horizontal movement speed (m/s)
+  // Player
+  BASE_SPEED: BALANCE.runner.FORWARD_SPEED,
+  HORIZONTAL_SPEED: BALANCE.runner.HORIZONTAL_SPEED,
+  GROUND_Y: 0.5,              // Character height above ground
   BASE_JUMP_HEIGHT: 3,        // Increased for faster gameplay
-  BASE_MAX_ARMY: 30,
-  BASE_STARTING_ARMY: 1,
+  BASE_MAX_ARMY: BALANCE.army.BASE_MAX,
+  BASE_STARTING_ARMY: BALANCE.army.BASE_STARTING,
 
   // Timing
-  GAME_DURATION: 60,          // Changed from 120 - shorter games
-  MATCHMAKING_TIMEOUT: 30,
-  RECONNECT_GRACE: 30,
+  GAME_DURATION: BALANCE.timing.GAME_DURATION,
+  MATCHMAKING_TIMEOUT: BALANCE.timing.MATCHMAKING_TIMEOUT,
+  RECONNECT_GRACE: BALANCE.timing.RECONNECT_GRACE,
 
   // Physics
   GRAVITY: 9.8,
@@ -51,18 +55,7 @@ export const GAME_CONSTANTS = {
   MIN_WITHDRAW: 10,
   WITHDRAW_FEE: 0.5,
 
-  // Upgrades
-  UPGRADE_COSTS: {
-    capacity: 5,
-    addWarrior: 50,
-    warriorUpgrade: 5,
-    income: 5,
-    speed: 20,
-    jump: 15,
-    bulletPower: 30,
-    magnetRadius: 25
-  },
-
+  // Upgrades (costs live in BALANCE.upgrades)
   MAX_LEVELS: {
     capacity: 20,
     addWarrior: 10,
@@ -110,6 +103,14 @@ export enum ObstacleType {
   MOVING_PLATFORM = 'moving_platform'
 }
 
+// Left/right choice gates on the free-movement track
+export enum SimpleGateType {
+  SPEED_BOOST = 'speed_boost',
+  SPEED_SLOW = 'speed_slow',
+  MULTIPLY_ARMY = 'multiply_army',
+  REDUCE_ARMY = 'reduce_army'
+}
+
 export interface Vector3 {
   x: number;
   y: number;
@@ -170,20 +171,49 @@ export interface CoinState {
   isCollected: boolean;
 }
 
+// Free-movement track pickups (see shared/game/trackGenerator.ts)
+export interface GateData {
+  id: string;
+  type: SimpleGateType;
+  position: Vector3;
+  isTriggered: boolean;
+  side: 'left' | 'right';
+}
+
+export type CoinPattern = 'horizontal' | 'vertical' | 'diagonal';
+
+export interface CoinData {
+  id: string;
+  position: Vector3;
+  isCollected: boolean;
+  patternId: string;
+}
+
+export interface SoldierPickupData {
+  id: string;
+  position: Vector3;
+  isCollected: boolean;
+}
+
+export interface TrackLayout {
+  gates: GateData[];
+  coins: CoinData[];
+  soldiers: SoldierPickupData[];
+}
+
 export interface TrackSection {
   type: SectionType;
   startZ: number;
   endZ: number;
   enemies: EnemyState[];
-  gates: GateState[];
   obstacles: ObstacleState[];
-  coins: CoinState[];
 }
 
 export interface TrackData {
   seed: string;
   difficulty: number;
   sections: TrackSection[];
+  layout: TrackLayout;
   totalLength: number;
 }
 
@@ -206,6 +236,26 @@ export interface UserStats {
   highestArmy: number;
 }
 
+// GET /runner/stats
+export interface PlayerStatsData {
+  stats: UserStats & {
+    winRate: number;
+    bestScore: number;
+    challengesWon: number;
+    challengesLost: number;
+  };
+  recentGames: Array<{
+    gameId: string;
+    type: 'solo' | 'daily' | 'challenge' | 'race';
+    score: number;
+    coinsCollected: number;
+    maxArmy: number;
+    distance: number;
+    didFinish: boolean;
+    finishedAt: string;
+  }>;
+}
+
 export interface GameResult {
   finalScore: number;
   coinsCollected: number;
@@ -237,6 +287,50 @@ export interface GameInput {
   timestamp: number;
 }
 
+// Recorded horizontal input for server replay ('stop' = swipe released)
+export type RunInputDirection = 'left' | 'right' | 'stop';
+
+export interface RunInput {
+  direction: RunInputDirection;
+  timestamp: number; // ms of run time since start
+}
+
+// Ghost replay: player position and army sampled at a fixed interval by the
+// server replay. Columns are index-aligned; sample i is at i * interval ms,
+// except the last one, which holds the final position.
+export interface GhostTrack {
+  interval: number; // ms between samples
+  x: number[];
+  z: number[];
+  army: number[];
+}
+
+export interface GhostRun {
+  gameId: string;
+  username: string;
+  score: number;
+  trackSeed: string;
+  difficulty: number;
+  ghost: GhostTrack;
+}
+
+// A finished run watched as a spectator
+export interface ReplayRun extends GhostRun {
+  timeTaken: number;
+  didFinish: boolean;
+}
+
+export interface GhostOption {
+  gameId: string;
+  username: string;
+  score: number;
+}
+
+export interface GhostCandidates {
+  personalBest: GhostOption | null;
+  leader: GhostOption | null;
+}
+
 // Socket event types
 export interface BettingQueueData {
   betAmount: number;
@@ -253,6 +347,16 @@ export interface MatchFoundData {
   trackSeed: string;
 }
 
+// Race matchmaking queue
+export interface MatchmakingSearchingData {
+  queuePosition: number;
+}
+
+// Nobody close enough in time: race the ghost of a similar run instead
+export interface MatchmakingGhostData {
+  ghost: GhostOption;
+}
+
 export interface GameUpdateData {
   players: PlayerState[];
   timestamp: number;
@@ -271,12 +375,329 @@ export interface ApiResponse<T> {
   error?: string;
 }
 
+export interface SoloGameStartData {
+  gameId: string;
+  runToken: string; // Signed by the server, sent back with the finish call
+  trackSeed: string;
+  difficulty: number;
+  upgrades: UserUpgrades;
+}
+
+export interface UnlockedAchievement {
+  achievementId: string;
+  name: string;
+  description: string;
+  icon: string;
+  reward: { coins?: number; gems?: number };
+}
+
+// Per-component score, see shared/game/scoring.ts
+export interface ScoreBreakdown {
+  distance: number;
+  coins: number;
+  army: number;
+  timeBonus: number;
+  enemies: number;
+  perfectGates: number;
+  total: number;
+}
+
+export interface SoloGameFinishData {
+  score: ScoreBreakdown;
+  reward: { coins: number };
+  newBalance: { coins: number; gems: number };
+  stats: { gamesPlayed: number; gamesWon: number; bestScore: number };
+  unlockedAchievements: UnlockedAchievement[];
+  challenge?: ChallengeRunResult; // Challenge runs only
+  referralReward?: ReferralReward; // The run that completed the player's referral
+}
+
+// Async friend challenge: beat the challenger's score on their seed within 24h
+export type ChallengeStatus = 'pending' | 'completed' | 'declined';
+export type ChallengeWinner = 'challenger' | 'opponent';
+export type ChallengeBox = 'inbox' | 'sent' | 'history';
+
+export interface ChallengeSummary {
+  id: string;
+  challenger: { id: string; username: string };
+  opponent: { id: string; username: string };
+  challengerScore: number;
+  opponentBestScore: number | null;
+  attempts: number;
+  status: ChallengeStatus;
+  winner: ChallengeWinner | null;
+  expiresAt: string;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface ChallengePage {
+  challenges: ChallengeSummary[];
+  pagination: { page: number; limit: number; total: number; totalPages: number };
+}
+
+export interface ChallengeStartData extends SoloGameStartData {
+  challenge: ChallengeSummary;
+}
+
+// Challenge state after one of the opponent's runs
+export interface ChallengeRunResult {
+  challengeId: string;
+  status: ChallengeStatus;
+  winner: ChallengeWinner | null;
+  challengerScore: number;
+  opponentBestScore: number | null;
+}
+
+// Real-time race rooms on the /runner socket namespace
+export type RaceRoomStatus = 'lobby' | 'countdown' | 'racing' | 'finished';
+
+// finished: validated run that crossed the line; out: validated run that
+// ended before it; dnf: no validated result by the end; forfeit: left the race
+export type RacePlayerState = 'waiting' | 'racing' | 'finished' | 'out' | 'dnf' | 'forfeit';
+
+export interface RacePlayer {
+  userId: string;
+  username: string;
+  skin: string;
+  ready: boolean;
+  connected: boolean;
+  state: RacePlayerState;
+}
+
+export interface RaceRoomState {
+  roomId: string;
+  hostId: string;
+  status: RaceRoomStatus;
+  players: RacePlayer[];
+  minPlayers: number;
+  maxPlayers: number;
+  isPublic: boolean; // Listed for spectators
+  spectatorCount: number;
+  startTime: number | null; // Server clock, ms
+  standings: RaceStanding[] | null; // Once finished
+}
+
+// The room as spectators see it: no runs or tokens, and the seed only once the race is running
+export interface RaceSpectateState extends RaceRoomState {
+  trackSeed: string | null;
+  difficulty: number;
+}
+
+// Public room in the spectator list
+export interface RaceRoomSummary {
+  roomId: string;
+  status: RaceRoomStatus;
+  usernames: string[];
+  spectatorCount: number;
+  startTime: number | null;
+}
+
+// Sent to each racer when the countdown begins: their own run on the shared seed
+export interface RaceCountdownData extends SoloGameStartData {
+  roomId: string;
+  seconds: number;
+  startTime: number;
+}
+
+export interface RaceProgressEntry {
+  userId: string;
+  progress: number; // Distance along the track (m)
+  x: number;
+  armyCount: number;
+  state: RacePlayerState;
+}
+
+// Broadcast at TICK_RATE while racing
+export interface RaceProgressData {
+  roomId: string;
+  raceTime: number; // ms since the start
+  players: RaceProgressEntry[];
+  spectatorCount: number;
+}
+
+export interface RaceStanding {
+  rank: number;
+  userId: string;
+  username: string;
+  state: RacePlayerState;
+  score: number | null; // Validated score, null without a validated run
+  timeTaken: number | null;
+  distance: number;
+}
+
+export interface RaceFinishData {
+  roomId: string;
+  standings: RaceStanding[];
+}
+
+// Socket acknowledgements follow the REST response shape
+export interface RaceAck<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
 export interface LeaderboardEntry {
   rank: number;
   userId: string;
   username: string;
+  score: number; // The board's metric: points, meters, warriors, coins or seconds
+  skin: string;
+}
+
+// Solo run leaderboards: the current UTC day, the current ISO week, or ever
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'alltime';
+
+// What a board ranks by: a run's best score, distance, army or coins, or the
+// fastest finish (lowest timeTaken among finished runs)
+export type LeaderboardMetric = 'score' | 'distance' | 'army' | 'coins' | 'fastest';
+
+// Everyone, or only the caller and their friends
+export type LeaderboardScope = 'global' | 'friends';
+
+// The caller's own rank on a board, with the players around it
+export interface LeaderboardStanding extends LeaderboardEntry {
+  percentile: number; // Share of ranked players below, 0-100
+  totalPlayers: number;
+  around: LeaderboardEntry[]; // Players just above and below, the caller included
+}
+
+export interface LeaderboardData {
+  metric: LeaderboardMetric;
+  period: LeaderboardPeriod;
+  scope: LeaderboardScope;
+  entries: LeaderboardEntry[];
+  me: LeaderboardStanding | null; // Also outside the top entries
+}
+
+// Pushed to leaderboard subscribers when a finished run changes a top board
+export interface LeaderboardUpdateData {
+  metric: LeaderboardMetric;
+  period: LeaderboardPeriod;
+  entries: LeaderboardEntry[]; // New or moved entries, at their new ranks
+  removed: string[]; // User ids that dropped off the board
+}
+
+// Pushed to a subscribed player after their own run
+export interface LeaderboardRankData {
+  metric: LeaderboardMetric;
+  period: LeaderboardPeriod;
+  me: LeaderboardStanding | null;
+}
+
+// Seasons: named score boards over fixed dates, frozen and paid when they close
+// upcoming -> active -> ended (waiting for the payout) -> closed
+export type SeasonState = 'upcoming' | 'active' | 'ended' | 'closed';
+
+export interface SeasonReward {
+  coins: number;
+  gems: number;
+}
+
+export interface SeasonRewardTier extends SeasonReward {
+  maxRank: number; // Inclusive
+}
+
+export interface SeasonSummary {
+  id: string;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  state: SeasonState;
+  rewards: SeasonRewardTier[];
+  totalPlayers: number | null; // Ranked players in the final standings, once closed
+}
+
+export interface SeasonStanding extends LeaderboardEntry {
+  reward: SeasonReward | null; // Paid, or due if the season ended now
+}
+
+// GET /api/seasons/:seasonId: live while open, the frozen standings once closed
+export interface SeasonStandingsData {
+  season: SeasonSummary;
+  entries: SeasonStanding[];
+  me: SeasonStanding | null; // Live standings only rank the top entries
+}
+
+// One of the player's final placements (GET /api/seasons/history)
+export interface SeasonPlacement {
+  season: SeasonSummary;
+  rank: number;
   score: number;
+  reward: SeasonReward | null;
+}
+
+export interface FriendSummary {
+  userId: string;
+  username: string;
   skin: string;
+  bestScore: number;
+  online: boolean;
+  lastSeenAt: string | null; // While offline; null if never seen
+}
+
+export interface FriendRequestSummary {
+  id: string;
+  from: { id: string; username: string };
+  to: { id: string; username: string };
+  createdAt: string;
+}
+
+export interface FriendsData {
+  referralCode: string; // Others can add the player by it
+  friends: FriendSummary[]; // Online first
+  incoming: FriendRequestSummary[];
+  outgoing: FriendRequestSummary[];
+}
+
+// Pushed to a player's online friends when they come online or go offline
+export interface FriendPresenceData {
+  userId: string;
+  online: boolean;
+  lastSeenAt: string | null;
+}
+
+// Referral program: a new account redeems a code, and both players are
+// rewarded once it has finished enough runs
+export interface ReferralReward {
+  coins: number;
+  gems: number;
+}
+
+export interface ReferralInfo {
+  code: string; // The player's own code to share
+  referredBy: string | null; // Username behind the code the player redeemed
+  redeemBefore: string | null; // End of the grace period; null once it can't redeem
+  runsRequired: number;
+  runsCompleted: number; // Counted from the redemption on
+  rewarded: boolean; // The player's own referral paid out
+  referrals: { pending: number; rewarded: number }; // Players who redeemed their code
+  rewards: { referrer: ReferralReward; referee: ReferralReward };
+}
+
+export interface DailyChallengeReward {
+  maxRank: number;
+  coins: number;
+  gems: number;
+}
+
+export interface DailyChallengeInfo {
+  date: string; // UTC day, YYYY-MM-DD
+  preset: string;
+  upgrades: UserUpgrades;
+  difficulty: number;
+  attemptsUsed: number;
+  attemptsLeft: number;
+  maxAttempts: number;
+  bestScore: number | null;
+  rank: number | null; // null when unranked or outside the top of the board
+  endsIn: number; // ms until the challenge closes
+  rewards: DailyChallengeReward[];
+}
+
+export interface DailyChallengeStartData extends SoloGameStartData {
+  challenge: DailyChallengeInfo;
 }
 
 export interface DailyMission {
@@ -307,16 +728,54 @@ export interface ShopItem {
   imageUrl?: string;
 }
 
-// Scoring formula
-export function calculateScore(result: GameResult): number {
-  return (
-    result.distanceTraveled * 10 +
-    result.coinsCollected * 1 +
-    result.maxArmy * 10 +
-    Math.max(0, (120 - result.timeTaken) * 5) +
-    result.enemiesKilled * 20 +
-    result.perfectGates * 50
-  );
+// Wallet ledger (GET /api/wallet/*)
+export type Currency = 'coins' | 'gems';
+
+export type TransactionType =
+  | 'game_reward'
+  | 'mission_reward'
+  | 'achievement_reward'
+  | 'upgrade_purchase'
+  | 'shop_purchase'
+  | 'lootbox_reward'
+  | 'daily_challenge_reward'
+  | 'season_reward'
+  | 'referral'
+  | 'transfer';
+
+export type WalletBalance = Record<Currency, number>;
+
+export interface WalletTransaction {
+  id: string;
+  type: TransactionType;
+  currency: Currency;
+  amount: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  description: string;
+  relatedGameId?: string;
+  relatedMissionId?: string;
+  relatedAchievementId?: string;
+  relatedItemId?: string;
+  createdAt: string;
+}
+
+// Filters for the transaction history and export (dates are ISO strings)
+export interface TransactionQuery {
+  page?: number;
+  limit?: number;
+  type?: TransactionType;
+  currency?: Currency;
+  from?: string;
+  to?: string;
+  gameId?: string;
+  missionId?: string;
+  achievementId?: string;
+}
+
+export interface TransactionPage {
+  transactions: WalletTransaction[];
+  pagination: { page: number; limit: number; total: number; totalPages: number };
 }
 
 // Power level calculation
@@ -333,51 +792,67 @@ export function calculatePowerLevel(upgrades: UserUpgrades): number {
   );
 }
 
-// Upgrade cost calculation
-export function calculateUpgradeCost(
-  upgradeType: keyof UserUpgrades,
-  currentLevel: number
-): number {
-  const baseCost = GAME_CONSTANTS.UPGRADE_COSTS[upgradeType];
-  return baseCost * Math.pow(2, currentLevel);
-}
+// Upgrade effects - all follow the calculateUpgradePower curve the shop shows
 
 // Get starting army based on upgrades
 export function getStartingArmy(addWarriorLevel: number): number {
-  return GAME_CONSTANTS.BASE_STARTING_ARMY + addWarriorLevel * 2;
+  return GAME_CONSTANTS.BASE_STARTING_ARMY + Math.floor(calculateUpgradePower('addWarrior', addWarriorLevel));
 }
 
 // Get max army based on upgrades
 export function getMaxArmy(capacityLevel: number): number {
-  return GAME_CONSTANTS.BASE_MAX_ARMY + capacityLevel * 5;
+  return GAME_CONSTANTS.BASE_MAX_ARMY + Math.floor(calculateUpgradePower('capacity', capacityLevel));
 }
 
 // Get player speed based on upgrades
 export function getPlayerSpeed(speedLevel: number): number {
-  return GAME_CONSTANTS.BASE_SPEED * (1 + speedLevel * 0.02);
+  return GAME_CONSTANTS.BASE_SPEED * (1 + calculateUpgradePower('speed', speedLevel));
 }
 
 // Get jump height based on upgrades
 export function getJumpHeight(jumpLevel: number): number {
-  return GAME_CONSTANTS.BASE_JUMP_HEIGHT * (1 + jumpLevel * 0.05);
+  return GAME_CONSTANTS.BASE_JUMP_HEIGHT * (1 + calculateUpgradePower('jump', jumpLevel));
 }
 
 // Get warrior damage multiplier
 export function getWarriorDamage(warriorUpgradeLevel: number): number {
-  return 1.0 + warriorUpgradeLevel * 0.1;
+  return 1.0 + calculateUpgradePower('warriorUpgrade', warriorUpgradeLevel);
 }
 
 // Get income multiplier
 export function getIncomeMultiplier(incomeLevel: number): number {
-  return 1.0 + incomeLevel * 0.15;
+  return 1.0 + calculateUpgradePower('income', incomeLevel);
 }
 
-// Get bullet damage multiplier
+// Get bullet damage
 export function getBulletDamage(bulletPowerLevel: number): number {
-  return 10 * (1 + bulletPowerLevel * 0.1);
+  return GAME_CONSTANTS.BASE_BULLET_DAMAGE * (1 + calculateUpgradePower('bulletPower', bulletPowerLevel));
 }
 
-// Get magnet radius
+// Get magnet (coin pickup) radius
 export function getMagnetRadius(magnetRadiusLevel: number): number {
-  return 2 + magnetRadiusLevel * 1;
+  return BALANCE.runner.COIN_COLLECTION_RADIUS + calculateUpgradePower('magnetRadius', magnetRadiusLevel);
+}
+
+// Per-run stats derived from the upgrade snapshot taken at run start
+export interface RunModifiers {
+  startingArmy: number;
+  maxArmy: number;
+  forwardSpeed: number;   // m/s before gate effects
+  magnetRadius: number;   // m, applies to the player and every soldier
+  jumpHeight: number;
+  warriorDamage: number;  // multiplier
+  bulletDamage: number;
+}
+
+export function getRunModifiers(upgrades: UserUpgrades): RunModifiers {
+  return {
+    startingArmy: getStartingArmy(upgrades.addWarrior),
+    maxArmy: getMaxArmy(upgrades.capacity),
+    forwardSpeed: getPlayerSpeed(upgrades.speed),
+    magnetRadius: getMagnetRadius(upgrades.magnetRadius),
+    jumpHeight: getJumpHeight(upgrades.jump),
+    warriorDamage: getWarriorDamage(upgrades.warriorUpgrade),
+    bulletDamage: getBulletDamage(upgrades.bulletPower)
+  };
 }
@@ -0,0 +1,61 @@
+// shared/utils/seededRandom.ts
+
+/**
+ * Deterministic PRNG (LCG) - the same seed yields the same sequence on
+ * client and server, so anything built from it can be re-created from
+ * the run's trackSeed alone.
+ */
+export class SeededRandom {
+  private seed: number;
+
+  constructor(seed: string) {
+    // Convert string seed to number
+    this.seed = SeededRandom.hashString(seed);
+  }
+
+  private static hashString(str: string): number {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+      const char = str.charCodeAt(i);
+      hash = ((hash << 5) - hash) + char;
+      hash = hash & hash;
+    }
+    return Math.abs(hash);
+  }
+
+  // Linear congruential generator
+  next(): number {
+    this.seed = (this.seed * 1664525 + 1013904223) % 4294967296;
+    return this.seed / 4294967296;
+  }
+
+  // Random integer in range [min, max]
+  nextInt(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  // Random float in range [min, max]
+  nextFloat(min: number, max: number): number {
+    return this.next() * (max - min) + min;
+  }
+
+  // Random boolean with given probability of true
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  // Random choice from array
+  choice<T>(array: readonly T[]): T {
+    return array[Math.floor(this.next() * array.length)];
+  }
+
+  // Shuffle array
+  shuffle<T>(array: readonly T[]): T[] {
+    const result = [...array];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+}